@@ -0,0 +1,51 @@
+import { normalizeBaseUrl } from "./client.js";
+import type { AdminCommandArgs } from "./mode-args.js";
+import { sendHttpRequest } from "./tls.js";
+
+export interface AdminRequest {
+  path: string;
+  body: Record<string, unknown>;
+}
+
+/** Maps an `--admin` action to the server route and JSON body that perform it. */
+export function adminRequestFor(args: Pick<AdminCommandArgs, "action" | "targets" | "dryRun"> & Partial<Pick<AdminCommandArgs, "group">>): AdminRequest {
+  const [first, second] = args.targets;
+  const clientPath = (action: string) => `/v1/clients/${encodeURIComponent(first)}/${action}`;
+  if (args.action === "submit") return { path: "/v1/submit", body: { dryRun: args.dryRun, ...(args.group ? { group: args.group } : {}) } };
+  if (args.action === "delete") return { path: clientPath("delete"), body: {} };
+  if (args.action === "rename") return { path: clientPath("rename"), body: { to: second } };
+  if (args.action === "merge") return { path: clientPath("merge"), body: { into: second } };
+  return { path: "/v1/reset-submitted", body: { date: first ?? null } };
+}
+
+/** Sends one admin request to a running server and returns its JSON response. */
+export async function sendAdminRequest(args: AdminCommandArgs): Promise<Record<string, unknown>> {
+  const request = adminRequestFor(args);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json"
+  };
+  if (!args.noAuth && args.authToken) {
+    headers.Authorization = `Bearer ${args.authToken}`;
+  }
+  const response = await sendHttpRequest(`${normalizeBaseUrl(args.serverUrl)}${request.path}`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(request.body),
+    timeoutMs: args.requestTimeoutMs,
+    tls: args.tls
+  });
+  const text = response.text;
+  let parsed: Record<string, unknown> = {};
+  try {
+    parsed = JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    // Non-JSON bodies only appear on errors; the raw text is reported below.
+  }
+  if (response.status < 200 || response.status >= 300) {
+    const message = typeof parsed.error === "string" ? parsed.error : text;
+    const outbox = parsed.outbox as { nextAttemptAt?: string | null } | undefined;
+    const retryNote = outbox?.nextAttemptAt ? ` (the server retries at ${outbox.nextAttemptAt})` : "";
+    throw new Error(`${args.action} failed (${response.status}): ${message}${retryNote}`);
+  }
+  return parsed;
+}
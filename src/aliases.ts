@@ -0,0 +1,120 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { TokenContributionData } from "./merge.js";
+
+export interface AliasMap {
+  models: Record<string, string>;
+  providers: Record<string, string>;
+}
+
+export interface NearDuplicateGroup {
+  normalized: string;
+  modelIds: string[];
+  suggested: string;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function parseStringMap(value: unknown, field: string): Record<string, string> {
+  if (value === undefined) return {};
+  if (!isObject(value)) {
+    throw new Error(`Alias map field "${field}" must be an object of string aliases`);
+  }
+  // No prototype, so a `__proto__` alias is stored as an entry like any other ID.
+  const result: Record<string, string> = Object.create(null);
+  for (const [alias, canonical] of Object.entries(value)) {
+    if (typeof canonical !== "string" || !canonical.trim()) {
+      throw new Error(`Alias map entry ${field}.${alias} must be a non-empty string`);
+    }
+    result[alias] = canonical.trim();
+  }
+  return result;
+}
+
+export function emptyAliasMap(): AliasMap {
+  return { models: {}, providers: {} };
+}
+
+export function parseAliasMap(data: unknown): AliasMap {
+  if (!isObject(data)) {
+    throw new Error("Alias map must be a JSON object with `models` and/or `providers`");
+  }
+  return {
+    models: parseStringMap(data.models, "models"),
+    providers: parseStringMap(data.providers, "providers")
+  };
+}
+
+export async function loadAliasMap(filePath: string): Promise<AliasMap> {
+  const absolute = path.resolve(filePath);
+  const content = await fs.readFile(absolute, "utf8");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error(`Alias map is not valid JSON: ${absolute}`);
+  }
+  return parseAliasMap(parsed);
+}
+
+/** Own entries only, so IDs like `constructor` or `__proto__` never resolve to `Object.prototype` members. */
+function lookup(map: Record<string, string> | undefined, id: string): string {
+  return map && Object.hasOwn(map, id) ? map[id] : id;
+}
+
+export function canonicalModelId(aliases: AliasMap | undefined, modelId: string): string {
+  return lookup(aliases?.models, modelId);
+}
+
+export function canonicalProviderId(aliases: AliasMap | undefined, providerId: string): string {
+  return lookup(aliases?.providers, providerId);
+}
+
+/**
+ * Loose key used to spot model IDs that probably name the same model, e.g.
+ * `anthropic/claude-sonnet-4-20250514`, `claude-sonnet-4` and `Claude-Sonnet-4.0`.
+ */
+export function normalizeModelKey(modelId: string): string {
+  return modelId
+    .toLowerCase()
+    .replace(/^.*\//, "")
+    .replace(/[._\s]+/g, "-")
+    .replace(/-(latest|\d{8})$/, "")
+    .replace(/-0$/, "");
+}
+
+export function findNearDuplicateModels(payloads: TokenContributionData[], aliases?: AliasMap): NearDuplicateGroup[] {
+  const groups = new Map<string, Set<string>>();
+  for (const payload of payloads) {
+    for (const day of payload.contributions ?? []) {
+      for (const row of day.sources ?? []) {
+        const modelId = canonicalModelId(aliases, String(row.modelId ?? "unknown"));
+        const normalized = normalizeModelKey(modelId);
+        const ids = groups.get(normalized) ?? new Set<string>();
+        ids.add(modelId);
+        groups.set(normalized, ids);
+      }
+    }
+  }
+
+  return [...groups.entries()]
+    .filter(([, ids]) => ids.size > 1)
+    .map(([normalized, ids]) => {
+      const modelIds = [...ids].sort();
+      const suggested = [...modelIds].sort((a, b) => a.length - b.length || a.localeCompare(b))[0];
+      return { normalized, modelIds, suggested };
+    })
+    .sort((a, b) => a.normalized.localeCompare(b.normalized));
+}
+
+export function suggestAliasMap(groups: NearDuplicateGroup[]): AliasMap {
+  const models: Record<string, string> = {};
+  for (const group of groups) {
+    for (const modelId of group.modelIds) {
+      if (modelId !== group.suggested) models[modelId] = group.suggested;
+    }
+  }
+  return { models, providers: {} };
+}
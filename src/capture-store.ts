@@ -0,0 +1,335 @@
+import type { TokenContributionData } from "./merge.js";
+import { sanitizeClientId } from "./data-dir.js";
+import { detectRegression, type RegressionCheck, type RegressionGuardOptions } from "./regression.js";
+import { storageFor, type CaptureSummary } from "./storage.js";
+
+const CAPTURE_SCHEMA = "tk-proxy-client-capture.v1";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StoredClientCapture {
+  schemaVersion: string;
+  clientId: string;
+  /** History entry this capture was stored as; absent on captures written before history existed. */
+  captureId?: string;
+  capturedAt: string;
+  receivedAt: string;
+  sourceHost: string | null;
+  /** Set while the client is pinned to this capture; new uploads then only go to history. */
+  pinnedAt?: string | null;
+  payload: TokenContributionData;
+}
+
+export interface QuarantinedCapture extends StoredClientCapture {
+  quarantine: RegressionCheck & {
+    detectedAt: string;
+    /** Active capture the upload was compared against. */
+    previousCaptureId: string | null;
+  };
+}
+
+export type QuarantineSummary = CaptureSummary & Pick<QuarantinedCapture, "quarantine">;
+
+export interface CaptureUpload {
+  clientId: string;
+  capturedAt: string;
+  payload: TokenContributionData;
+  sourceHost: string | null;
+}
+
+export interface RetentionPolicy {
+  /** Keep at most this many history entries per client. */
+  keepCount: number | null;
+  /** Drop history entries received more than this many days ago. */
+  keepDays: number | null;
+}
+
+export interface CaptureHistoryEntry {
+  captureId: string;
+  capturedAt: string;
+  receivedAt: string;
+  sourceHost: string | null;
+  totalTokens: number;
+  totalCost: number;
+  activeDays: number;
+  /** True for the capture currently used for the daily submit. */
+  active: boolean;
+  pinned: boolean;
+}
+
+let lastCaptureStamp = "";
+let captureSequence = 0;
+
+/**
+ * Capture IDs sort chronologically: the receive time followed by a sequence number that
+ * orders uploads received in the same millisecond.
+ */
+function newCaptureId(receivedAt: string): string {
+  const stamp = receivedAt.replace(/[:.]/g, "-");
+  captureSequence = stamp === lastCaptureStamp ? captureSequence + 1 : 0;
+  lastCaptureStamp = stamp;
+  return `${stamp}-${String(captureSequence).padStart(4, "0")}`;
+}
+
+function assertCaptureId(captureId: string): string {
+  if (!/^[0-9A-Za-z-]+$/.test(captureId)) {
+    throw new Error(`Invalid capture ID: ${captureId}`);
+  }
+  return captureId;
+}
+
+/** Reads the active capture of every client, sorted by client ID. */
+export async function readClientCaptureFiles(dataDir: string): Promise<StoredClientCapture[]> {
+  const captures = await (await storageFor(dataDir)).listActiveCaptures();
+  captures.sort((a, b) => a.clientId.localeCompare(b.clientId));
+  return captures;
+}
+
+/** Like `readClientCaptureFiles` without the payloads, for listings and freshness checks. */
+export async function readClientCaptureSummaries(dataDir: string): Promise<CaptureSummary[]> {
+  const captures = await (await storageFor(dataDir)).listActiveCaptureSummaries();
+  captures.sort((a, b) => a.clientId.localeCompare(b.clientId));
+  return captures;
+}
+
+export async function readClientCapture(dataDir: string, clientId: string): Promise<StoredClientCapture | null> {
+  return (await storageFor(dataDir)).readActiveCapture(sanitizeClientId(clientId));
+}
+
+async function readActiveSummary(dataDir: string, clientId: string): Promise<CaptureSummary | null> {
+  return (await storageFor(dataDir)).readActiveCaptureSummary(clientId);
+}
+
+async function readHistory(dataDir: string, clientId: string): Promise<CaptureSummary[]> {
+  const captures = await (await storageFor(dataDir)).listCaptureSummaries("history", clientId);
+  return captures.filter((item) => item.captureId).sort((a, b) => (b.captureId ?? "").localeCompare(a.captureId ?? ""));
+}
+
+/**
+ * Removes history entries beyond `keepCount` or older than `keepDays`. The newest
+ * entry and the capture currently active for the client are always kept.
+ */
+export async function pruneCaptureHistory(dataDir: string, clientId: string, retention: RetentionPolicy, now = new Date()): Promise<string[]> {
+  const id = sanitizeClientId(clientId);
+  const history = await readHistory(dataDir, id);
+  const active = await readActiveSummary(dataDir, id);
+  const removed: string[] = [];
+  history.forEach((capture, index) => {
+    if (index === 0 || capture.captureId === active?.captureId) return;
+    const tooMany = retention.keepCount !== null && index >= retention.keepCount;
+    const tooOld = retention.keepDays !== null && now.getTime() - Date.parse(capture.receivedAt) > retention.keepDays * DAY_MS;
+    if (tooMany || tooOld) removed.push(capture.captureId as string);
+  });
+  const store = await storageFor(dataDir);
+  for (const captureId of removed) {
+    await store.deleteCapture("history", id, captureId);
+  }
+  return removed;
+}
+
+async function commitCapture(dataDir: string, record: StoredClientCapture, retention: RetentionPolicy): Promise<boolean> {
+  const store = await storageFor(dataDir);
+  await store.writeCapture("history", record);
+  const current = await readActiveSummary(dataDir, record.clientId);
+  const pinned = Boolean(current?.pinnedAt);
+  if (!pinned) {
+    await store.writeActiveCapture(record);
+  }
+  await pruneCaptureHistory(dataDir, record.clientId, retention);
+  return pinned;
+}
+
+/**
+ * Stores an accepted upload in the client's history and makes it the active capture,
+ * unless the client is pinned to an earlier one. With the regression guard enabled, an
+ * upload that shrinks against the active capture is quarantined instead.
+ */
+export async function storeClientCapture(
+  dataDir: string,
+  upload: CaptureUpload,
+  retention: RetentionPolicy,
+  guard: RegressionGuardOptions = { enabled: false, threshold: 0 }
+): Promise<{ record: StoredClientCapture; pinned: boolean; quarantine: RegressionCheck | null }> {
+  const receivedAt = new Date().toISOString();
+  const record: StoredClientCapture = {
+    schemaVersion: CAPTURE_SCHEMA,
+    clientId: upload.clientId,
+    captureId: newCaptureId(receivedAt),
+    capturedAt: upload.capturedAt,
+    receivedAt,
+    sourceHost: upload.sourceHost,
+    payload: upload.payload
+  };
+
+  if (guard.enabled) {
+    const current = await readClientCapture(dataDir, record.clientId);
+    const check = current ? detectRegression(current.payload, record.payload, guard.threshold) : null;
+    if (check?.regressed) {
+      const quarantined: QuarantinedCapture = {
+        ...record,
+        quarantine: { ...check, detectedAt: receivedAt, previousCaptureId: current?.captureId ?? null }
+      };
+      await (await storageFor(dataDir)).writeCapture("quarantine", quarantined);
+      return { record, pinned: Boolean(current?.pinnedAt), quarantine: check };
+    }
+  }
+
+  const pinned = await commitCapture(dataDir, record, retention);
+  return { record, pinned, quarantine: null };
+}
+
+export async function listCaptureHistory(dataDir: string, clientId: string): Promise<CaptureHistoryEntry[]> {
+  const id = sanitizeClientId(clientId);
+  const history = await readHistory(dataDir, id);
+  const active = await readActiveSummary(dataDir, id);
+  return history.map((capture) => ({
+    captureId: capture.captureId as string,
+    capturedAt: capture.capturedAt,
+    receivedAt: capture.receivedAt,
+    sourceHost: capture.sourceHost,
+    totalTokens: capture.totalTokens,
+    totalCost: capture.totalCost,
+    activeDays: capture.activeDays,
+    active: capture.captureId === active?.captureId,
+    pinned: capture.captureId === active?.captureId && Boolean(active?.pinnedAt)
+  }));
+}
+
+/**
+ * Makes an earlier history entry the client's active capture. Without `pin` the next
+ * upload replaces it as usual; with `pin` it stays active until `unpinClientCapture`.
+ */
+export async function rollbackClientCapture(
+  dataDir: string,
+  clientId: string,
+  captureId: string,
+  options: { pin: boolean }
+): Promise<StoredClientCapture> {
+  const id = sanitizeClientId(clientId);
+  const store = await storageFor(dataDir);
+  const capture = await store.readCapture("history", id, assertCaptureId(captureId));
+  if (!capture) {
+    throw new Error(`Capture ${captureId} not found for client ${id}`);
+  }
+  const record: StoredClientCapture = { ...capture, pinnedAt: options.pin ? new Date().toISOString() : null };
+  await store.writeActiveCapture(record);
+  return record;
+}
+
+/** Clears a pin and makes the newest history entry active again. */
+export async function unpinClientCapture(dataDir: string, clientId: string): Promise<StoredClientCapture> {
+  const id = sanitizeClientId(clientId);
+  const [latest] = await readHistory(dataDir, id);
+  const store = await storageFor(dataDir);
+  const capture = latest ? await store.readCapture("history", id, latest.captureId as string) : null;
+  if (!capture) {
+    throw new Error(`No capture history for client ${id}`);
+  }
+  const record: StoredClientCapture = { ...capture, pinnedAt: null };
+  await store.writeActiveCapture(record);
+  return record;
+}
+
+async function readQuarantineDir(dataDir: string, clientId: string): Promise<QuarantineSummary[]> {
+  const items = await (await storageFor(dataDir)).listCaptureSummaries("quarantine", clientId);
+  return (items as QuarantineSummary[]).filter((item) => item.captureId && item.quarantine);
+}
+
+/** Lists quarantined uploads of every client, oldest first. */
+export async function listQuarantinedCaptures(dataDir: string): Promise<QuarantineSummary[]> {
+  const captures: QuarantineSummary[] = [];
+  for (const clientId of await (await storageFor(dataDir)).listCaptureClients("quarantine")) {
+    captures.push(...(await readQuarantineDir(dataDir, clientId)));
+  }
+  return captures.sort((a, b) => a.receivedAt.localeCompare(b.receivedAt));
+}
+
+async function readQuarantinedCapture(dataDir: string, clientId: string, captureId: string): Promise<QuarantinedCapture> {
+  const id = sanitizeClientId(clientId);
+  const capture = (await (await storageFor(dataDir)).readCapture("quarantine", id, assertCaptureId(captureId))) as QuarantinedCapture | null;
+  if (!capture) {
+    throw new Error(`Quarantined capture ${captureId} not found for client ${id}`);
+  }
+  return capture;
+}
+
+/** Accepts a quarantined upload as if it had passed the regression guard. */
+export async function approveQuarantinedCapture(
+  dataDir: string,
+  clientId: string,
+  captureId: string,
+  retention: RetentionPolicy
+): Promise<{ record: StoredClientCapture; pinned: boolean }> {
+  const { quarantine: _quarantine, ...record } = await readQuarantinedCapture(dataDir, clientId, captureId);
+  const pinned = await commitCapture(dataDir, record, retention);
+  await (await storageFor(dataDir)).deleteCapture("quarantine", record.clientId, captureId);
+  return { record, pinned };
+}
+
+/** Discards a quarantined upload; the client's active capture is left unchanged. */
+export async function rejectQuarantinedCapture(dataDir: string, clientId: string, captureId: string): Promise<QuarantinedCapture> {
+  const capture = await readQuarantinedCapture(dataDir, clientId, captureId);
+  await (await storageFor(dataDir)).deleteCapture("quarantine", capture.clientId, captureId);
+  return capture;
+}
+
+async function removeClientCaptures(dataDir: string, clientId: string): Promise<void> {
+  const store = await storageFor(dataDir);
+  await store.deleteActiveCapture(clientId);
+  await store.deleteCaptures("history", clientId);
+  await store.deleteCaptures("quarantine", clientId);
+}
+
+/** Removes a client's active capture, history and quarantined uploads. */
+export async function deleteClient(dataDir: string, clientId: string): Promise<{ clientId: string; history: number; quarantined: number }> {
+  const id = sanitizeClientId(clientId);
+  const active = await readActiveSummary(dataDir, id);
+  const history = await readHistory(dataDir, id);
+  const quarantined = await readQuarantineDir(dataDir, id);
+  if (!active && history.length === 0 && quarantined.length === 0) {
+    throw new Error(`Client ${id} not found`);
+  }
+  await removeClientCaptures(dataDir, id);
+  return { clientId: id, history: history.length, quarantined: quarantined.length };
+}
+
+/**
+ * Moves every capture of `from` to `to`. Without `merge` the target must not exist yet.
+ * With `merge` both histories are kept and the target's active capture becomes whichever
+ * of the two was received last, unless the target is pinned.
+ */
+export async function moveClient(
+  dataDir: string,
+  from: string,
+  to: string,
+  options: { merge: boolean }
+): Promise<{ clientId: string; history: number; quarantined: number; captureId: string | null }> {
+  const source = sanitizeClientId(from);
+  const target = sanitizeClientId(to);
+  if (source === target) {
+    throw new Error(`Source and target client are the same: ${source}`);
+  }
+  const sourceActive = await readClientCapture(dataDir, source);
+  const history = await readHistory(dataDir, source);
+  const quarantined = await readQuarantineDir(dataDir, source);
+  if (!sourceActive && history.length === 0 && quarantined.length === 0) {
+    throw new Error(`Client ${source} not found`);
+  }
+  const targetActive = await readClientCapture(dataDir, target);
+  if (!options.merge && (targetActive || (await readHistory(dataDir, target)).length > 0)) {
+    throw new Error(`Client ${target} already exists; merge into it instead`);
+  }
+
+  const store = await storageFor(dataDir);
+  for (const kind of ["history", "quarantine"] as const) {
+    for (const capture of await store.listCaptures(kind, source)) {
+      if (capture.captureId) await store.writeCapture(kind, { ...capture, clientId: target });
+    }
+  }
+  let active = targetActive;
+  if (sourceActive && (!targetActive || (!targetActive.pinnedAt && sourceActive.receivedAt > targetActive.receivedAt))) {
+    active = { ...sourceActive, clientId: target };
+    await store.writeActiveCapture(active);
+  }
+  await removeClientCaptures(dataDir, source);
+  return { clientId: target, history: history.length, quarantined: quarantined.length, captureId: active?.captureId ?? null };
+}
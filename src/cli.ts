@@ -4,11 +4,54 @@ import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import { spawn } from "node:child_process";
-import { combinePayloads, extractPayloadFromJson, type TokenContributionData } from "./merge.js";
+import {
+  combineInputs,
+  combinePayloads,
+  extractMergeInputFromJson,
+  extractPayloadFromJson,
+  flattenRows,
+  isEmptyRowFilter,
+  isTokenContributionData,
+  parseMergeStrategy,
+  type MergeInput,
+  type MergeStrategy,
+  type RowFilter,
+  type TokenContributionData
+} from "./merge.js";
+import { findNearDuplicateModels, loadAliasMap, suggestAliasMap } from "./aliases.js";
+import { sendAdminRequest } from "./admin-client.js";
 import { runClient } from "./client.js";
-import { parseClientModeArgs, parseServerModeArgs } from "./mode-args.js";
+import { diffPayloads, formatDiffTable } from "./diff.js";
+import { formatRows, parseExportFormat, type ExportFormat, type ExportRow } from "./export.js";
+import { loadPricingTable, parseRepriceMode, type RepriceMode } from "./pricing.js";
+import {
+  approveQuarantinedCapture,
+  listCaptureHistory,
+  listQuarantinedCaptures,
+  pruneCaptureHistory,
+  readClientCaptureFiles,
+  rejectQuarantinedCapture,
+  rollbackClientCapture,
+  unpinClientCapture
+} from "./capture-store.js";
+import { issueClientToken, listClientTokens, revokeClientTokens } from "./credentials.js";
+import {
+  applyRowFilterFlag,
+  parseAdminCommandArgs,
+  parseClientModeArgs,
+  parseHistoryAdminArgs,
+  parseList,
+  parseMigrateStorageArgs,
+  parseServerModeArgs,
+  parseTokenAdminArgs,
+  ROW_FILTER_FLAGS
+} from "./mode-args.js";
 import { runServer } from "./server.js";
+import { parseSplitKey, splitPayload, type SplitKey } from "./split.js";
+import { migrateToSqlite } from "./storage.js";
 import { submitToTokscale } from "./tokscale.js";
+import { formatVerifyReport, verifyPayload } from "./verify.js";
+import { assertValidPayload, formatIssues, parseValidationMode, type ValidationMode } from "./validate.js";
 
 interface CommandResult {
   exitCode: number;
@@ -44,21 +87,96 @@ interface CaptureDocument {
   submitPayloadError?: string;
 }
 
+interface CombineArgs {
+  inputFiles: string[];
+  outputFile: string;
+  strategy: MergeStrategy;
+  clientPriority: string[];
+  reportFile: string | null;
+  provenanceFile: string | null;
+  aliasesFile: string | null;
+  suggestAliases: boolean;
+  pricingFile: string | null;
+  repriceMode: RepriceMode;
+  validationMode: ValidationMode;
+  filter: RowFilter;
+}
+
+interface VerifyArgs {
+  inputFile: string;
+  fix: boolean;
+  json: boolean;
+  outputFile: string | null;
+}
+
+interface SplitArgs {
+  inputFile: string;
+  by: SplitKey;
+  outDir: string;
+}
+
+interface ExportArgs {
+  inputs: string[];
+  format: ExportFormat;
+  perClient: boolean;
+  outputFile: string | null;
+}
+
+interface SubmitArgs {
+  inputFile: string;
+  dryRun: boolean;
+  validationMode: ValidationMode;
+  filter: RowFilter;
+}
+
 const HELP_TEXT = `tk-proxy - proxy/capture tool for tokscale
 
 Usage:
   tk-proxy --capture [--output <file>] -- <command ...>
-  tk-proxy --combine -i <file1> <file2> [more files...] -o <output.json>
-  tk-proxy --submit -i <input.json> [--dry-run]
+  tk-proxy --combine -i <file1> <file2> [more files...] -o <output.json> [--strategy <sum|max|latest|priority>] [--aliases <file>] [--pricing <file> [--reprice <fill|all>]] [--report <file>] [--provenance <file>]
+  tk-proxy --combine -i <file1> [more files...] --suggest-aliases [--aliases <file>]
+  tk-proxy --submit -i <input.json> [--dry-run] [--validation <lenient|strict>] [filters]
+  tk-proxy --diff <before.json> <after.json> [--json] [-o <output.json>]
+  tk-proxy --verify -i <input.json> [--json] [--fix [-o <output.json>]]
+  tk-proxy --split -i <input.json> --by <source|provider|year|month> [--out-dir <dir>]
+  tk-proxy --export -i <file|data-dir> [more files...] [--format <csv|tsv|ndjson>] [--per-client] [-o <output>]
   tk-proxy --server [options]
   tk-proxy --client <server-url> [options]
+  tk-proxy --tokens <list|issue <clientId>|revoke <tokenId|clientId>> [--data-dir <dir>]
+  tk-proxy --history <list|rollback|pin|unpin|prune|quarantine|approve|reject> <clientId> [captureId] [--data-dir <dir>]
+  tk-proxy --migrate-storage <source-dir> [--data-dir <target-dir>]
+  tk-proxy --admin <server-url> <submit [--dry-run] [--group <name>]|delete <clientId>|rename <from> <to>|merge <from> <into>|reset-submitted [yyyy-mm-dd]> [--auth-token <token>]
+
+Filters (--combine, --submit, --server):
+  --since <yyyy-mm-dd> --until <yyyy-mm-dd>
+  --include-source <a,b> --exclude-source <a,b>
+  --include-model <a,b> --exclude-model <a,b>
 
 Examples:
   tk-proxy --capture -- tokscale submit --dry-run
   tk-proxy --combine -i host-a.json host-b.json -o combined.json
+  tk-proxy --combine -i host-a.json host-b.json --strategy priority --client-priority host-b,host-a
   tk-proxy --submit -i combined.json
+  tk-proxy --verify -i combined.json --fix
+  tk-proxy --split -i combined.json --by source --out-dir split/
+  tk-proxy --export -i .tk-proxy --format csv --per-client -o usage.csv
+  tk-proxy --submit -i combined.json --since 2026-01-01 --exclude-source gemini
+  tk-proxy --diff .tk-proxy/submissions/2026-02-17.json .tk-proxy/submissions/2026-02-18.json
   tk-proxy --server --port 8787 --auth-token <token>
+  tk-proxy --server --submit-cron "0 9,17 * * 1-5" --timezone Europe/Berlin
+  tk-proxy --server --expected-clients desktop,laptop --ready-quorum 1 --ready-max-wait 4h
   tk-proxy --client http://100.64.0.1:8787 --auth-token <token>
+  tk-proxy --tokens issue laptop-1 --data-dir ./.tk-proxy
+  tk-proxy --history pin laptop-1 2026-02-17T09-12-44-120Z-0000
+  tk-proxy --admin http://127.0.0.1:8787 submit --dry-run
+  tk-proxy --admin http://127.0.0.1:8787 merge old-laptop laptop-1
+  tk-proxy --server --groups groups.json
+  tk-proxy --migrate-storage .tk-proxy
+  tk-proxy --server --storage sqlite --data-dir /var/lib/tk-proxy
+  tk-proxy --server --client-rate-limit 12/1h --min-upload-interval 10m
+  tk-proxy --admin http://127.0.0.1:8787 submit --group work
+  tk-proxy --server --tls-cert server.pem --tls-key server.key --tls-client-ca ca.pem
+  tk-proxy --client https://proxy.lan:8787 --ca-cert ca.pem --client-cert laptop.pem --client-key laptop.key
   tk-proxy --server --no-auth
   tk-proxy --client http://100.64.0.1:8787 --no-auth
 `;
@@ -205,11 +323,24 @@ function defaultCombinedFile(): string {
   return `tk-combined-${stampForFilename()}.json`;
 }
 
-function resolvePayloadOrThrow(data: unknown, sourcePath: string): TokenContributionData {
+/** The merge report goes next to the combined output unless `--report` names another file. */
+function defaultReportFile(outputFile: string): string {
+  return `${outputFile.replace(/\.json$/i, "")}.report.json`;
+}
+
+function validatePayloadOrThrow(payload: TokenContributionData, sourcePath: string, mode: ValidationMode): void {
+  const { warnings } = assertValidPayload(payload, sourcePath, mode);
+  if (warnings.length > 0) {
+    console.error(`Warning: ${sourcePath} has ${warnings.length} validation warning(s): ${formatIssues(warnings, 3)}`);
+  }
+}
+
+function resolvePayloadOrThrow(data: unknown, sourcePath: string, mode: ValidationMode): TokenContributionData {
   const payload = extractPayloadFromJson(data);
   if (!payload) {
     throw new Error(`No tokscale payload found in ${sourcePath}`);
   }
+  validatePayloadOrThrow(payload, sourcePath, mode);
   return payload;
 }
 
@@ -235,9 +366,19 @@ function parseCaptureArgs(argv: string[]): { outputFile: string; commandArgs: st
   return { outputFile, commandArgs };
 }
 
-function parseCombineArgs(argv: string[]): { inputFiles: string[]; outputFile: string } {
+function parseCombineArgs(argv: string[]): CombineArgs {
   let outputFile = defaultCombinedFile();
   const inputFiles: string[] = [];
+  let strategy: MergeStrategy = "sum";
+  let clientPriority: string[] = [];
+  let reportFile: string | null = null;
+  let provenanceFile: string | null = null;
+  let aliasesFile: string | null = null;
+  let suggestAliases = false;
+  let pricingFile: string | null = null;
+  let repriceMode: RepriceMode = "fill";
+  let validationMode: ValidationMode = "lenient";
+  const filter: RowFilter = {};
 
   for (let i = 1; i < argv.length; i += 1) {
     const token = argv[i];
@@ -250,25 +391,110 @@ function parseCombineArgs(argv: string[]): { inputFiles: string[]; outputFile: s
     }
     if (token === "-i" || token === "--input") {
       let j = i + 1;
-      while (j < argv.length && !["-o", "--output"].includes(argv[j])) {
+      while (j < argv.length && !argv[j].startsWith("-")) {
         inputFiles.push(argv[j]);
         j += 1;
       }
       i = j - 1;
       continue;
     }
+    if (token === "--strategy") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      strategy = parseMergeStrategy(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--client-priority") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      clientPriority = parseList(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--report") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      reportFile = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--provenance") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      provenanceFile = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--aliases") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      aliasesFile = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--suggest-aliases") {
+      suggestAliases = true;
+      continue;
+    }
+    if (token === "--pricing") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      pricingFile = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--reprice") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      repriceMode = parseRepriceMode(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--validation") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      validationMode = parseValidationMode(value);
+      i += 1;
+      continue;
+    }
+    if (ROW_FILTER_FLAGS.includes(token)) {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      applyRowFilterFlag(filter, token, value);
+      i += 1;
+      continue;
+    }
     fatal(`Unknown --combine option: ${token}`);
   }
 
   if (inputFiles.length === 0) {
     fatal("No input files supplied. Use --combine -i <file1> <file2> ...");
   }
-  return { inputFiles, outputFile };
+  if (strategy === "priority" && clientPriority.length === 0) {
+    fatal("--strategy priority requires --client-priority <id1,id2,...>");
+  }
+  return {
+    inputFiles,
+    outputFile,
+    strategy,
+    clientPriority,
+    reportFile,
+    provenanceFile,
+    aliasesFile,
+    suggestAliases,
+    pricingFile,
+    repriceMode,
+    validationMode,
+    filter
+  };
 }
 
-function parseSubmitArgs(argv: string[]): { inputFile: string; dryRun: boolean } {
+function parseSubmitArgs(argv: string[]): SubmitArgs {
   let inputFile = "";
   let dryRun = false;
+  let validationMode: ValidationMode = "lenient";
+  const filter: RowFilter = {};
   for (let i = 1; i < argv.length; i += 1) {
     const token = argv[i];
     if (token === "-i" || token === "--input") {
@@ -282,12 +508,210 @@ function parseSubmitArgs(argv: string[]): { inputFile: string; dryRun: boolean }
       dryRun = true;
       continue;
     }
+    if (token === "--validation") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      validationMode = parseValidationMode(value);
+      i += 1;
+      continue;
+    }
+    if (ROW_FILTER_FLAGS.includes(token)) {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      applyRowFilterFlag(filter, token, value);
+      i += 1;
+      continue;
+    }
     fatal(`Unknown --submit option: ${token}`);
   }
   if (!inputFile) {
     fatal("Missing input file. Use --submit -i <file.json>");
   }
-  return { inputFile, dryRun };
+  return { inputFile, dryRun, validationMode, filter };
+}
+
+function parseDiffArgs(argv: string[]): { beforeFile: string; afterFile: string; json: boolean; outputFile: string | null } {
+  const files: string[] = [];
+  let json = false;
+  let outputFile: string | null = null;
+  for (let i = 1; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === "--json") {
+      json = true;
+      continue;
+    }
+    if (token === "-o" || token === "--output") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      outputFile = value;
+      i += 1;
+      continue;
+    }
+    if (token.startsWith("-")) {
+      fatal(`Unknown --diff option: ${token}`);
+    }
+    files.push(token);
+  }
+  if (files.length !== 2) {
+    fatal("--diff requires exactly two input files: --diff <before.json> <after.json>");
+  }
+  return { beforeFile: files[0], afterFile: files[1], json, outputFile };
+}
+
+function parseVerifyArgs(argv: string[]): VerifyArgs {
+  let inputFile = "";
+  let fix = false;
+  let json = false;
+  let outputFile: string | null = null;
+  for (let i = 1; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === "-i" || token === "--input") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      inputFile = value;
+      i += 1;
+      continue;
+    }
+    if (token === "-o" || token === "--output") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      outputFile = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--fix") {
+      fix = true;
+      continue;
+    }
+    if (token === "--json") {
+      json = true;
+      continue;
+    }
+    fatal(`Unknown --verify option: ${token}`);
+  }
+  if (!inputFile) {
+    fatal("Missing input file. Use --verify -i <file.json>");
+  }
+  if (outputFile && !fix) {
+    fatal("--output is only valid with --fix");
+  }
+  return { inputFile, fix, json, outputFile };
+}
+
+function parseSplitArgs(argv: string[]): SplitArgs {
+  let inputFile = "";
+  let by: SplitKey | null = null;
+  let outDir = ".";
+  for (let i = 1; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === "-i" || token === "--input") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      inputFile = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--by") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      by = parseSplitKey(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--out-dir") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      outDir = value;
+      i += 1;
+      continue;
+    }
+    fatal(`Unknown --split option: ${token}`);
+  }
+  if (!inputFile) {
+    fatal("Missing input file. Use --split -i <file.json> --by <key>");
+  }
+  if (!by) {
+    fatal("Missing split key. Use --by <source|provider|year|month>");
+  }
+  return { inputFile, by, outDir };
+}
+
+function parseExportArgs(argv: string[]): ExportArgs {
+  const inputs: string[] = [];
+  let format: ExportFormat = "csv";
+  let perClient = false;
+  let outputFile: string | null = null;
+  for (let i = 1; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === "-i" || token === "--input") {
+      let j = i + 1;
+      while (j < argv.length && !argv[j].startsWith("-")) {
+        inputs.push(argv[j]);
+        j += 1;
+      }
+      i = j - 1;
+      continue;
+    }
+    if (token === "--format") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      format = parseExportFormat(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--per-client") {
+      perClient = true;
+      continue;
+    }
+    if (token === "-o" || token === "--output") {
+      const value = argv[i + 1];
+      if (!value) fatal(`Missing value for ${token}.`);
+      outputFile = value;
+      i += 1;
+      continue;
+    }
+    fatal(`Unknown --export option: ${token}`);
+  }
+  if (inputs.length === 0) {
+    fatal("No input supplied. Use --export -i <file|data-dir> ...");
+  }
+  return { inputs, format, perClient, outputFile };
+}
+
+async function readExportInputs(inputs: string[]): Promise<MergeInput[]> {
+  const result: MergeInput[] = [];
+  for (const input of inputs) {
+    const stat = await fs.stat(input);
+    if (stat.isDirectory()) {
+      const captures = await readClientCaptureFiles(input);
+      if (captures.length === 0) {
+        throw new Error(`No client captures found in data dir ${path.resolve(input)}`);
+      }
+      for (const capture of captures) {
+        result.push({ payload: capture.payload, clientId: capture.clientId, capturedAt: capture.capturedAt });
+      }
+      continue;
+    }
+    const { absolute, parsed } = await readJson(input);
+    const mergeInput = extractMergeInputFromJson(parsed, input);
+    if (!mergeInput) {
+      throw new Error(`No tokscale payload found in ${absolute}`);
+    }
+    validatePayloadOrThrow(mergeInput.payload, absolute, "lenient");
+    result.push({ ...mergeInput, clientId: mergeInput.clientId ?? path.basename(input).replace(/\.json$/i, "") });
+  }
+  return result;
+}
+
+function replacePayloadInJson(data: unknown, payload: TokenContributionData): unknown {
+  if (isTokenContributionData(data)) return payload;
+  const wrapper = data as Record<string, unknown>;
+  for (const key of ["submitPayload", "parsedStdout", "payload"]) {
+    if (isTokenContributionData(wrapper[key])) {
+      return { ...wrapper, [key]: payload };
+    }
+  }
+  return payload;
 }
 
 async function handleCapture(argv: string[]): Promise<never> {
@@ -346,24 +770,68 @@ async function handleCapture(argv: string[]): Promise<never> {
 }
 
 async function handleCombine(argv: string[]): Promise<void> {
-  const { inputFiles, outputFile } = parseCombineArgs(argv);
-  const payloads: TokenContributionData[] = [];
+  const args = parseCombineArgs(argv);
+  const { inputFiles, outputFile, strategy, clientPriority, reportFile, provenanceFile } = args;
+  const aliases = args.aliasesFile ? await loadAliasMap(args.aliasesFile) : undefined;
+  const pricing = args.pricingFile ? await loadPricingTable(args.pricingFile) : undefined;
+  const inputs: MergeInput[] = [];
   for (const file of inputFiles) {
     const { absolute, parsed } = await readJson(file);
-    payloads.push(resolvePayloadOrThrow(parsed, absolute));
+    const input = extractMergeInputFromJson(parsed, file);
+    if (!input) {
+      throw new Error(`No tokscale payload found in ${absolute}`);
+    }
+    validatePayloadOrThrow(input.payload, absolute, args.validationMode);
+    inputs.push(input);
   }
-  const combined = combinePayloads(payloads);
+
+  if (args.suggestAliases) {
+    const groups = findNearDuplicateModels(inputs.map((input) => input.payload), aliases);
+    if (groups.length === 0) {
+      console.log("No unmapped near-duplicate model IDs found.");
+      return;
+    }
+    console.log(`Found ${groups.length} group(s) of unmapped near-duplicate model IDs:`);
+    for (const group of groups) {
+      console.log(`  ${group.modelIds.join(", ")} -> ${group.suggested}`);
+    }
+    console.log("\nSuggested alias map (review before use with --aliases):");
+    console.log(JSON.stringify(suggestAliasMap(groups), null, 2));
+    return;
+  }
+
+  const { payload: combined, report, provenance } = combineInputs(inputs, {
+    strategy,
+    clientPriority,
+    aliases,
+    pricing,
+    repriceMode: args.repriceMode,
+    filter: args.filter
+  });
   const outPath = await writeJson(outputFile, combined);
-  console.log(`Combined ${payloads.length} payloads into ${outPath}`);
+  console.log(`Combined ${inputs.length} payloads into ${outPath} (strategy: ${strategy})`);
   console.log(
     `Summary: ${combined.summary.totalTokens.toLocaleString()} tokens, $${combined.summary.totalCost.toFixed(2)}, ${combined.summary.activeDays} active day(s)`
   );
+  if (strategy !== "sum") {
+    console.log(`Deduplicated ${report.deduplicatedRows.length} overlapping row(s)`);
+  }
+  if (pricing) {
+    console.log(`Repriced ${report.repricedRows.length} row(s) (mode: ${args.repriceMode})`);
+  }
+  const reportPath = await writeJson(reportFile ?? defaultReportFile(outputFile), report);
+  console.log(`Merge report saved: ${reportPath}`);
+  if (provenanceFile) {
+    const provenancePath = await writeJson(provenanceFile, provenance);
+    console.log(`Provenance saved: ${provenancePath}`);
+  }
 }
 
 async function handleSubmit(argv: string[]): Promise<void> {
-  const { inputFile, dryRun } = parseSubmitArgs(argv);
+  const { inputFile, dryRun, validationMode, filter } = parseSubmitArgs(argv);
   const { absolute, parsed } = await readJson(inputFile);
-  const payload = resolvePayloadOrThrow(parsed, absolute);
+  const input = resolvePayloadOrThrow(parsed, absolute, validationMode);
+  const payload = isEmptyRowFilter(filter) ? input : combinePayloads([input], { filter });
 
   if (dryRun) {
     console.log("Dry run - not submitting.");
@@ -386,6 +854,227 @@ async function handleSubmit(argv: string[]): Promise<void> {
   }
 }
 
+async function handleDiff(argv: string[]): Promise<void> {
+  const { beforeFile, afterFile, json, outputFile } = parseDiffArgs(argv);
+  const before = await readJson(beforeFile);
+  const after = await readJson(afterFile);
+  const diff = diffPayloads(
+    resolvePayloadOrThrow(before.parsed, before.absolute, "lenient"),
+    resolvePayloadOrThrow(after.parsed, after.absolute, "lenient")
+  );
+
+  if (outputFile) {
+    const outPath = await writeJson(outputFile, diff);
+    console.error(`Diff saved: ${outPath}`);
+  }
+  if (json) {
+    console.log(JSON.stringify(diff, null, 2));
+    return;
+  }
+  console.log(formatDiffTable(diff));
+}
+
+async function handleVerify(argv: string[]): Promise<void> {
+  const { inputFile, fix, json, outputFile } = parseVerifyArgs(argv);
+  const { absolute, parsed } = await readJson(inputFile);
+  const payload = resolvePayloadOrThrow(parsed, absolute, "lenient");
+  const result = verifyPayload(payload);
+
+  if (json) {
+    console.log(JSON.stringify({ ok: result.ok, mismatches: result.mismatches }, null, 2));
+  } else {
+    console.log(formatVerifyReport(result));
+  }
+  if (result.ok) return;
+
+  if (fix) {
+    const outPath = await writeJson(outputFile ?? absolute, replacePayloadInJson(parsed, result.fixed));
+    console.error(`Fixed ${result.mismatches.length} derived field(s): ${outPath}`);
+    return;
+  }
+  process.exitCode = 1;
+}
+
+async function handleSplit(argv: string[]): Promise<void> {
+  const { inputFile, by, outDir } = parseSplitArgs(argv);
+  const { absolute, parsed } = await readJson(inputFile);
+  const payload = resolvePayloadOrThrow(parsed, absolute, "lenient");
+  const parts = splitPayload(payload, by);
+  if (parts.size === 0) {
+    throw new Error(`No contribution rows found in ${absolute}`);
+  }
+
+  const baseName = path.basename(inputFile).replace(/\.json$/i, "");
+  for (const [group, part] of parts) {
+    const fileName = `${baseName}-${by}-${group.replace(/[^a-zA-Z0-9._-]/g, "_")}.json`;
+    const outPath = await writeJson(path.join(outDir, fileName), part);
+    console.log(
+      `${group}: ${part.summary.totalTokens.toLocaleString()} tokens, $${part.summary.totalCost.toFixed(2)}, ${part.summary.activeDays} active day(s) -> ${outPath}`
+    );
+  }
+}
+
+async function handleExport(argv: string[]): Promise<void> {
+  const { inputs, format, perClient, outputFile } = parseExportArgs(argv);
+  const mergeInputs = await readExportInputs(inputs);
+
+  let rows: ExportRow[];
+  if (perClient) {
+    rows = mergeInputs.flatMap((input) => flattenRows(input.payload).map((row) => ({ ...row, clientId: input.clientId ?? "" })));
+  } else if (mergeInputs.length === 1) {
+    rows = flattenRows(mergeInputs[0].payload);
+  } else {
+    rows = flattenRows(combineInputs(mergeInputs).payload);
+  }
+
+  const content = formatRows(rows, format, perClient);
+  if (!outputFile) {
+    process.stdout.write(content);
+    return;
+  }
+  const absolute = path.resolve(outputFile);
+  await fs.mkdir(path.dirname(absolute), { recursive: true });
+  await fs.writeFile(absolute, content, "utf8");
+  console.error(`Exported ${rows.length} row(s) to ${absolute}`);
+}
+
+async function handleTokens(argv: string[]): Promise<void> {
+  const { action, target, dataDir } = parseTokenAdminArgs(argv);
+  if (action === "issue" && target) {
+    const { record, token } = await issueClientToken(dataDir, target);
+    console.log(`Issued token ${record.id} for client ${record.clientId}.`);
+    console.log(`Token (shown once): ${token}`);
+    console.log(`Client hint: tk-proxy --client <server-url> --client-id ${record.clientId} --auth-token ${token}`);
+    return;
+  }
+  if (action === "revoke" && target) {
+    const revoked = await revokeClientTokens(dataDir, target);
+    if (revoked.length === 0) {
+      throw new Error(`No active token matches ${target}`);
+    }
+    for (const record of revoked) {
+      console.log(`Revoked token ${record.id} (client ${record.clientId})`);
+    }
+    return;
+  }
+
+  const tokens = await listClientTokens(dataDir);
+  if (tokens.length === 0) {
+    console.log("No client tokens issued.");
+    return;
+  }
+  for (const record of tokens) {
+    const status = record.revokedAt ? `revoked ${record.revokedAt}` : "active";
+    console.log(`${record.id}  ${record.clientId}  created ${record.createdAt}  ${status}`);
+  }
+}
+
+async function handleHistory(argv: string[]): Promise<void> {
+  const { action, clientId, captureId, dataDir, retention } = parseHistoryAdminArgs(argv);
+  if (action === "quarantine" || !clientId) {
+    const quarantined = (await listQuarantinedCaptures(dataDir)).filter((item) => !clientId || item.clientId === clientId);
+    if (quarantined.length === 0) {
+      console.log("No quarantined uploads.");
+      return;
+    }
+    for (const item of quarantined) {
+      console.log(`${item.clientId}  ${item.captureId}  received ${item.receivedAt}  ${item.quarantine.reasons.join("; ")}`);
+    }
+    return;
+  }
+  if (action === "approve" && captureId) {
+    const { record, pinned } = await approveQuarantinedCapture(dataDir, clientId, captureId, retention);
+    console.log(`Approved ${record.captureId} for ${record.clientId}${pinned ? " (client is pinned; stored in history only)" : ""}.`);
+    return;
+  }
+  if (action === "reject" && captureId) {
+    await rejectQuarantinedCapture(dataDir, clientId, captureId);
+    console.log(`Rejected quarantined upload ${captureId} for ${clientId}.`);
+    return;
+  }
+  if ((action === "rollback" || action === "pin") && captureId) {
+    const record = await rollbackClientCapture(dataDir, clientId, captureId, { pin: action === "pin" });
+    console.log(`Client ${record.clientId} now uses capture ${record.captureId}${record.pinnedAt ? " (pinned)" : ""}.`);
+    return;
+  }
+  if (action === "unpin") {
+    const record = await unpinClientCapture(dataDir, clientId);
+    console.log(`Client ${record.clientId} unpinned; active capture is ${record.captureId}.`);
+    return;
+  }
+  if (action === "prune") {
+    const removed = await pruneCaptureHistory(dataDir, clientId, retention);
+    console.log(`Removed ${removed.length} history entr${removed.length === 1 ? "y" : "ies"} for ${clientId}.`);
+    return;
+  }
+
+  const history = await listCaptureHistory(dataDir, clientId);
+  if (history.length === 0) {
+    console.log(`No capture history for ${clientId}.`);
+    return;
+  }
+  for (const entry of history) {
+    const marker = entry.pinned ? "pinned" : entry.active ? "active" : "";
+    console.log(
+      `${entry.captureId}  received ${entry.receivedAt}  tokens ${entry.totalTokens}  cost ${entry.totalCost.toFixed(2)}  days ${entry.activeDays}  ${marker}`.trimEnd()
+    );
+  }
+}
+
+async function handleMigrateStorage(argv: string[]): Promise<void> {
+  const { sourceDir, targetDir } = parseMigrateStorageArgs(argv);
+  const summary = await migrateToSqlite(sourceDir, targetDir);
+  console.log(`Imported ${path.resolve(sourceDir)} into ${summary.database}:`);
+  console.log(`  ${summary.clients} active capture(s), ${summary.history} history entr${summary.history === 1 ? "y" : "ies"}, ${summary.quarantined} quarantined`);
+  console.log(`  ${summary.submissions} submission record(s), server state ${summary.state ? "imported" : "not found"}`);
+  if (summary.copiedFiles.length > 0) {
+    console.log(`  copied ${summary.copiedFiles.join(", ")}`);
+  }
+  if (path.resolve(sourceDir) === path.resolve(targetDir)) {
+    console.log("The JSON capture, submission and state files are no longer read; remove them once the server runs on the database.");
+  }
+}
+
+async function handleAdmin(argv: string[]): Promise<void> {
+  const args = parseAdminCommandArgs(argv);
+  const result = await sendAdminRequest(args);
+  if (args.action === "submit") {
+    const summary = `${Number(result.totalTokens ?? 0).toLocaleString()} tokens, $${Number(result.totalCost ?? 0).toFixed(2)} from ${
+      (result.clients as string[] | undefined)?.length ?? 0
+    } client(s)`;
+    if (result.mode === "preview") {
+      console.log(`Dry run for ${result.date} - not submitted. Payload summary: ${summary}`);
+    } else if (result.mode === "dry-run") {
+      console.log(`Server is in --dry-run-submit mode; recorded dry-run for ${result.date}: ${summary}`);
+    } else {
+      console.log(`Submitted ${result.date}: ${summary}`);
+      if (result.submissionId) console.log(`Submission ID: ${result.submissionId}`);
+    }
+    return;
+  }
+  if (args.action === "delete") {
+    const revoked = (result.revokedTokens as string[] | undefined) ?? [];
+    console.log(
+      `Deleted client ${result.clientId}: ${result.history} history entr${result.history === 1 ? "y" : "ies"}, ${result.quarantined} quarantined, ${revoked.length} token(s) revoked.`
+    );
+    return;
+  }
+  if (args.action === "rename" || args.action === "merge") {
+    const rebound = (result.reboundTokens as string[] | undefined) ?? [];
+    console.log(
+      `${args.action === "rename" ? "Renamed" : "Merged"} ${result.from} ${args.action === "rename" ? "to" : "into"} ${result.clientId}: ${
+        result.history
+      } history entr${result.history === 1 ? "y" : "ies"} moved, active capture ${result.captureId ?? "none"}, ${rebound.length} token(s) rebound.`
+    );
+    return;
+  }
+  console.log(
+    `lastSubmittedDate reset from ${result.previous ?? "none"} to ${result.lastSubmittedDate ?? "none"}${
+      result.clearedOutbox ? "; cleared the failed outbox entry" : ""
+    }.`
+  );
+}
+
 async function main(): Promise<void> {
   const argv = process.argv.slice(2);
   if (argv.length === 0 || argv.includes("-h") || argv.includes("--help")) {
@@ -406,6 +1095,38 @@ async function main(): Promise<void> {
     await handleSubmit(argv);
     return;
   }
+  if (mode === "--history") {
+    await handleHistory(argv);
+    return;
+  }
+  if (mode === "--admin") {
+    await handleAdmin(argv);
+    return;
+  }
+  if (mode === "--tokens") {
+    await handleTokens(argv);
+    return;
+  }
+  if (mode === "--migrate-storage") {
+    await handleMigrateStorage(argv);
+    return;
+  }
+  if (mode === "--export") {
+    await handleExport(argv);
+    return;
+  }
+  if (mode === "--split") {
+    await handleSplit(argv);
+    return;
+  }
+  if (mode === "--verify") {
+    await handleVerify(argv);
+    return;
+  }
+  if (mode === "--diff") {
+    await handleDiff(argv);
+    return;
+  }
   if (mode === "--server") {
     const options = parseServerModeArgs(argv);
     if (options.authTokenGenerated && options.authToken) {
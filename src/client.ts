@@ -1,5 +1,6 @@
 import os from "node:os";
 import { computeWaitWithJitterMs, sleep } from "./schedule.js";
+import { sendHttpRequest, type ClientTlsOptions } from "./tls.js";
 import { runTokscaleGraph } from "./tokscale.js";
 
 export interface ClientOptions {
@@ -11,6 +12,7 @@ export interface ClientOptions {
   noAuth: boolean;
   once: boolean;
   requestTimeoutMs: number;
+  tls: ClientTlsOptions;
 }
 
 interface UploadBody {
@@ -20,7 +22,7 @@ interface UploadBody {
   payload: unknown;
 }
 
-function normalizeBaseUrl(serverUrl: string): string {
+export function normalizeBaseUrl(serverUrl: string): string {
   const url = new URL(serverUrl);
   if (url.protocol !== "http:" && url.protocol !== "https:") {
     throw new Error(`Server URL must be http or https: ${serverUrl}`);
@@ -33,28 +35,32 @@ function toErrorMessage(error: unknown): string {
   return String(error);
 }
 
-async function uploadCapture(baseUrl: string, token: string | null, noAuth: boolean, body: UploadBody, timeoutMs: number): Promise<void> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
+interface UploadResponse {
+  quarantined?: boolean;
+  reasons?: string[];
+}
+
+async function uploadCapture(baseUrl: string, options: ClientOptions, body: UploadBody): Promise<UploadResponse> {
   const headers: Record<string, string> = {
     "Content-Type": "application/json"
   };
-  if (!noAuth && token) {
-    headers.Authorization = `Bearer ${token}`;
+  if (!options.noAuth && options.authToken) {
+    headers.Authorization = `Bearer ${options.authToken}`;
+  }
+  const response = await sendHttpRequest(`${baseUrl}/v1/captures`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+    timeoutMs: options.requestTimeoutMs,
+    tls: options.tls
+  });
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`Upload failed (${response.status}): ${response.text}`);
   }
   try {
-    const response = await fetch(`${baseUrl}/v1/captures`, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(body),
-      signal: controller.signal
-    });
-    const text = await response.text();
-    if (!response.ok) {
-      throw new Error(`Upload failed (${response.status}): ${text}`);
-    }
-  } finally {
-    clearTimeout(timer);
+    return JSON.parse(response.text) as UploadResponse;
+  } catch {
+    return {};
   }
 }
 
@@ -76,19 +82,17 @@ export async function runClient(options: ClientOptions): Promise<void> {
     const startedAt = new Date();
     try {
       const payload = await runTokscaleGraph();
-      await uploadCapture(
-        baseUrl,
-        options.authToken,
-        options.noAuth,
-        {
-          clientId: options.clientId,
-          capturedAt: startedAt.toISOString(),
-          sourceHost: os.hostname(),
-          payload
-        },
-        options.requestTimeoutMs
-      );
-      console.log(`[client] uploaded capture at ${startedAt.toISOString()}`);
+      const result = await uploadCapture(baseUrl, options, {
+        clientId: options.clientId,
+        capturedAt: startedAt.toISOString(),
+        sourceHost: os.hostname(),
+        payload
+      });
+      if (result.quarantined) {
+        console.warn(`[client] upload quarantined by server: ${(result.reasons ?? []).join("; ")}`);
+      } else {
+        console.log(`[client] uploaded capture at ${startedAt.toISOString()}`);
+      }
     } catch (error) {
       console.error(`[client] capture/upload failed: ${toErrorMessage(error)}`);
     }
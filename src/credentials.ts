@@ -0,0 +1,108 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { readJsonFile, sanitizeClientId, tokensFile, writeJsonAtomic } from "./data-dir.js";
+
+const TOKENS_SCHEMA = "tk-proxy-client-tokens.v1";
+const TOKEN_PREFIX = "tkp";
+
+export interface ClientTokenRecord {
+  id: string;
+  clientId: string;
+  /** sha256 of the full token; the plaintext token is only shown once, at issue time. */
+  tokenHash: string;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+interface TokenRegistry {
+  schemaVersion: string;
+  tokens: ClientTokenRecord[];
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token, "utf8").digest("hex");
+}
+
+/** Compares two secrets without leaking where they differ; both sides are hashed so lengths always match. */
+export function secretsMatch(provided: string, expected: string): boolean {
+  const a = createHash("sha256").update(provided, "utf8").digest();
+  const b = createHash("sha256").update(expected, "utf8").digest();
+  return timingSafeEqual(a, b);
+}
+
+async function readRegistry(dataDir: string): Promise<TokenRegistry> {
+  const parsed = await readJsonFile<Partial<TokenRegistry>>(tokensFile(dataDir));
+  return {
+    schemaVersion: TOKENS_SCHEMA,
+    tokens: Array.isArray(parsed?.tokens) ? parsed.tokens : []
+  };
+}
+
+async function writeRegistry(dataDir: string, registry: TokenRegistry): Promise<void> {
+  await writeJsonAtomic(tokensFile(dataDir), registry);
+}
+
+export async function listClientTokens(dataDir: string): Promise<ClientTokenRecord[]> {
+  const registry = await readRegistry(dataDir);
+  return registry.tokens;
+}
+
+export async function issueClientToken(dataDir: string, clientId: string): Promise<{ record: ClientTokenRecord; token: string }> {
+  const registry = await readRegistry(dataDir);
+  let id = randomBytes(6).toString("hex");
+  while (registry.tokens.some((item) => item.id === id)) {
+    id = randomBytes(6).toString("hex");
+  }
+  const token = `${TOKEN_PREFIX}_${id}_${randomBytes(24).toString("hex")}`;
+  const record: ClientTokenRecord = {
+    id,
+    clientId: sanitizeClientId(clientId),
+    tokenHash: hashToken(token),
+    createdAt: new Date().toISOString(),
+    revokedAt: null
+  };
+  registry.tokens.push(record);
+  await writeRegistry(dataDir, registry);
+  return { record, token };
+}
+
+/** Revokes the token with this id, or every active token bound to this client ID. */
+export async function revokeClientTokens(dataDir: string, idOrClientId: string): Promise<ClientTokenRecord[]> {
+  const registry = await readRegistry(dataDir);
+  const now = new Date().toISOString();
+  const revoked: ClientTokenRecord[] = [];
+  for (const record of registry.tokens) {
+    if (record.revokedAt) continue;
+    if (record.id !== idOrClientId && record.clientId !== idOrClientId) continue;
+    record.revokedAt = now;
+    revoked.push(record);
+  }
+  if (revoked.length > 0) {
+    await writeRegistry(dataDir, registry);
+  }
+  return revoked;
+}
+
+/** Moves every active token of `from` to `to`, so a renamed client keeps uploading with its token. */
+export async function rebindClientTokens(dataDir: string, from: string, to: string): Promise<ClientTokenRecord[]> {
+  const registry = await readRegistry(dataDir);
+  const target = sanitizeClientId(to);
+  const moved = registry.tokens.filter((record) => !record.revokedAt && record.clientId === from);
+  for (const record of moved) record.clientId = target;
+  if (moved.length > 0) {
+    await writeRegistry(dataDir, registry);
+  }
+  return moved;
+}
+
+/** Looks up an active per-client token; returns null for unknown, malformed or revoked tokens. */
+export async function resolveClientToken(dataDir: string, token: string): Promise<ClientTokenRecord | null> {
+  const match = token.match(/^tkp_([0-9a-f]+)_[0-9a-f]+$/);
+  if (!match) return null;
+  const registry = await readRegistry(dataDir);
+  const record = registry.tokens.find((item) => item.id === match[1]);
+  if (!record || record.revokedAt) return null;
+  const provided = Buffer.from(hashToken(token), "hex");
+  const expected = Buffer.from(record.tokenHash, "hex");
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) return null;
+  return record;
+}
@@ -0,0 +1,213 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** How far slot searches look back or ahead; covers yearly schedules and leap days. */
+const SEARCH_DAYS = 5 * 366;
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *"
+};
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"] },
+  { name: "day of week", min: 0, max: 7, names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] }
+];
+
+/** A parsed five-field cron expression: minute, hour, day of month, month, day of week. */
+export interface CronExpression {
+  source: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday; `7` in the expression is folded into 0. */
+  daysOfWeek: Set<number>;
+  /** Classic cron rule: when both day fields are restricted, a day matching either one runs. */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface LocalTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+function parseFieldValue(text: string, spec: FieldSpec, expression: string): number {
+  const named = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = named >= 0 ? named + (spec.name === "month" ? 1 : 0) : /^\d+$/.test(text) ? Number(text) : NaN;
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid ${spec.name} in cron expression "${expression}": ${text}`);
+  }
+  return value;
+}
+
+function parseField(text: string, spec: FieldSpec, expression: string): number[] {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const [range, stepText, ...rest] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (rest.length > 0 || !range || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${spec.name} in cron expression "${expression}": ${part}`);
+    }
+    let start = spec.min;
+    let end = spec.max;
+    if (range !== "*") {
+      const [from, to, ...extra] = range.split("-");
+      if (extra.length > 0) throw new Error(`Invalid ${spec.name} in cron expression "${expression}": ${part}`);
+      start = parseFieldValue(from, spec, expression);
+      end = to !== undefined ? parseFieldValue(to, spec, expression) : stepText !== undefined ? spec.max : start;
+    }
+    if (start > end) {
+      throw new Error(`Invalid ${spec.name} range in cron expression "${expression}": ${part}`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+export function parseCron(expression: string): CronExpression {
+  const source = expression.trim();
+  const fields = (MACROS[source.toLowerCase()] ?? source).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields (minute hour day-of-month month day-of-week): "${expression}"`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index], source));
+  return {
+    source,
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    daysOfWeek: new Set(daysOfWeek.map((day) => day % 7)),
+    dayOfMonthRestricted: !fields[2].startsWith("*"),
+    dayOfWeekRestricted: !fields[4].startsWith("*")
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric"
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function assertTimeZone(timeZone: string): string {
+  try {
+    formatterFor(timeZone);
+  } catch {
+    throw new Error(`Unknown IANA time zone: ${timeZone}`);
+  }
+  return timeZone;
+}
+
+function localTimeAt(instant: number, timeZone: string): LocalTime & { second: number } {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+/** Wall-clock date (`YYYY-MM-DD`) and time (`HHmmss`) of `instant` in `timeZone`. */
+export function formatZonedTime(instant: Date, timeZone: string): { date: string; time: string } {
+  const local = localTimeAt(instant.getTime(), timeZone);
+  const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+  return {
+    date: `${pad(local.year, 4)}-${pad(local.month)}-${pad(local.day)}`,
+    time: `${pad(local.hour)}${pad(local.minute)}${pad(local.second)}`
+  };
+}
+
+function offsetMsAt(instant: number, timeZone: string): number {
+  const local = localTimeAt(instant, timeZone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Converts a wall-clock time in `timeZone` to an instant. A time repeated when clocks go back
+ * resolves to its first occurrence; a time skipped when clocks go forward moves forward by the gap.
+ */
+function zonedTimeToInstant(local: LocalTime, timeZone: string): number {
+  const wall = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  const before = wall - offsetMsAt(wall - DAY_MS, timeZone);
+  const after = wall - offsetMsAt(wall + DAY_MS, timeZone);
+  const valid = [before, after].filter((instant) => {
+    const actual = localTimeAt(instant, timeZone);
+    return actual.hour === local.hour && actual.minute === local.minute && actual.day === local.day;
+  });
+  return valid.length > 0 ? Math.min(...valid) : before;
+}
+
+function dayMatches(cron: CronExpression, date: Date): boolean {
+  if (!cron.months.has(date.getUTCMonth() + 1)) return false;
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+}
+
+/** Instants of the schedule on the local calendar day `offset` days after `today`, ascending. */
+function slotsOnDay(cron: CronExpression, timeZone: string, today: LocalTime, offset: number): number[] {
+  const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+  if (!dayMatches(cron, date)) return [];
+  const slots: number[] = [];
+  for (const hour of cron.hours) {
+    for (const minute of cron.minutes) {
+      slots.push(
+        zonedTimeToInstant({ year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(), hour, minute }, timeZone)
+      );
+    }
+  }
+  return slots.sort((a, b) => a - b);
+}
+
+/** Most recent slot at or before `now`, or null if none falls in the last five years. */
+export function latestCronSlot(cron: CronExpression, timeZone: string, now: Date): Date | null {
+  const today = localTimeAt(now.getTime(), timeZone);
+  for (let offset = 0; offset > -SEARCH_DAYS; offset -= 1) {
+    const past = slotsOnDay(cron, timeZone, today, offset).filter((slot) => slot <= now.getTime());
+    if (past.length > 0) return new Date(past[past.length - 1]);
+  }
+  return null;
+}
+
+/** First slot strictly after `now`, or null if none falls in the next five years. */
+export function nextCronSlot(cron: CronExpression, timeZone: string, now: Date): Date | null {
+  const today = localTimeAt(now.getTime(), timeZone);
+  for (let offset = 0; offset < SEARCH_DAYS; offset += 1) {
+    const upcoming = slotsOnDay(cron, timeZone, today, offset).find((slot) => slot > now.getTime());
+    if (upcoming !== undefined) return new Date(upcoming);
+  }
+  return null;
+}
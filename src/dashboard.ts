@@ -0,0 +1,194 @@
+import { flattenRows, type ContributionRow, type TokenContributionData } from "./merge.js";
+import type { SubmissionHistoryEntry } from "./submissions.js";
+
+export interface DashboardClient {
+  clientId: string;
+  capturedAt: string;
+  receivedAt: string;
+  sourceHost: string | null;
+  pinned: boolean;
+  quarantined: number;
+}
+
+export interface DashboardData {
+  generatedAt: string;
+  authEnabled: boolean;
+  /** Combined payload of the active captures, as the next daily submit would build it. */
+  payload: TokenContributionData | null;
+  clients: DashboardClient[];
+  submissions: SubmissionHistoryEntry[];
+  lastSubmitError: string | null;
+}
+
+interface TotalsRow {
+  label: string;
+  tokens: number;
+  cost: number;
+  messages: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HEATMAP_WEEKS = 53;
+
+const STYLE = `
+body { font: 14px/1.4 system-ui, sans-serif; margin: 0; background: #0d1117; color: #c9d1d9; }
+main { max-width: 1100px; margin: 0 auto; padding: 24px; }
+h1 { font-size: 20px; margin: 0 0 4px; }
+h2 { font-size: 16px; margin: 28px 0 8px; }
+.muted { color: #8b949e; }
+.error { color: #f85149; }
+.grid { display: grid; grid-template-columns: 1fr 1fr; gap: 24px; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #21262d; }
+td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+.heatmap { display: grid; grid-auto-flow: column; grid-template-rows: repeat(7, 11px); grid-auto-columns: 11px; gap: 3px; overflow-x: auto; }
+.cell { border-radius: 2px; background: #161b22; }
+.l1 { background: #0e4429; } .l2 { background: #006d32; } .l3 { background: #26a641; } .l4 { background: #39d353; }
+form.inline { display: inline; }
+input, button { font: inherit; padding: 6px 10px; border-radius: 6px; border: 1px solid #30363d; background: #161b22; color: inherit; }
+button { cursor: pointer; }
+`;
+
+function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatTokens(value: number): string {
+  return Math.round(value).toLocaleString("en-US");
+}
+
+function formatCost(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function page(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body><main>${body}</main></body>
+</html>
+`;
+}
+
+export function renderLoginPage(error: string | null = null): string {
+  return page(
+    "tk-proxy login",
+    `<h1>tk-proxy</h1>
+<p class="muted">Enter the server auth token to open the dashboard.</p>
+${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
+<form method="post" action="/dashboard/login">
+<input type="password" name="token" placeholder="auth token" autofocus required>
+<button type="submit">Sign in</button>
+</form>`
+  );
+}
+
+function renderHeatmap(payload: TokenContributionData): string {
+  const byDate = new Map(payload.contributions.map((day) => [day.date, day]));
+  const endDate = payload.meta.dateRange.end || payload.contributions[payload.contributions.length - 1]?.date;
+  if (!endDate) return `<p class="muted">No contributions yet.</p>`;
+
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  const firstWeekStart = end - (HEATMAP_WEEKS - 1) * 7 * DAY_MS - new Date(end).getUTCDay() * DAY_MS;
+  const cells: string[] = [];
+  for (let time = firstWeekStart; time <= end; time += DAY_MS) {
+    const date = new Date(time).toISOString().slice(0, 10);
+    const day = byDate.get(date);
+    const level = day?.intensity ?? 0;
+    const title = day ? `${date}: ${formatTokens(day.totals.tokens)} tokens, ${formatCost(day.totals.cost)}` : `${date}: no activity`;
+    cells.push(`<span class="cell l${level}" title="${escapeHtml(title)}"></span>`);
+  }
+  return `<div class="heatmap">${cells.join("")}</div>`;
+}
+
+function totalsBy(payload: TokenContributionData, keyOf: (row: ContributionRow) => string): TotalsRow[] {
+  const totals = new Map<string, TotalsRow>();
+  for (const row of flattenRows(payload)) {
+    const label = keyOf(row);
+    const entry = totals.get(label) ?? { label, tokens: 0, cost: 0, messages: 0 };
+    entry.tokens += row.tokens.input + row.tokens.output + row.tokens.cacheRead + row.tokens.cacheWrite + row.tokens.reasoning;
+    entry.cost += row.cost;
+    entry.messages += row.messages;
+    totals.set(label, entry);
+  }
+  return [...totals.values()].sort((a, b) => b.tokens - a.tokens);
+}
+
+function renderTotalsTable(heading: string, rows: TotalsRow[]): string {
+  const body = rows
+    .map(
+      (row) =>
+        `<tr><td>${escapeHtml(row.label)}</td><td class="num">${formatTokens(row.tokens)}</td><td class="num">${formatCost(row.cost)}</td><td class="num">${formatTokens(row.messages)}</td></tr>`
+    )
+    .join("");
+  return `<section><h2>${escapeHtml(heading)}</h2><table>
+<thead><tr><th>Name</th><th class="num">Tokens</th><th class="num">Cost</th><th class="num">Messages</th></tr></thead>
+<tbody>${body || `<tr><td colspan="4" class="muted">No rows.</td></tr>`}</tbody></table></section>`;
+}
+
+function renderClients(clients: DashboardClient[], now: number): string {
+  const body = clients
+    .map((client) => {
+      const ageHours = (now - Date.parse(client.receivedAt)) / (60 * 60 * 1000);
+      const flags = [client.pinned ? "pinned" : "", client.quarantined > 0 ? `${client.quarantined} quarantined` : ""].filter(Boolean).join(", ");
+      return `<tr><td>${escapeHtml(client.clientId)}</td><td>${escapeHtml(client.sourceHost ?? "")}</td><td>${escapeHtml(client.receivedAt)}</td><td class="num">${
+        Number.isFinite(ageHours) ? `${ageHours.toFixed(1)}h` : ""
+      }</td><td>${escapeHtml(flags)}</td></tr>`;
+    })
+    .join("");
+  return `<section><h2>Clients</h2><table>
+<thead><tr><th>Client</th><th>Host</th><th>Last seen</th><th class="num">Age</th><th>Flags</th></tr></thead>
+<tbody>${body || `<tr><td colspan="5" class="muted">No client uploads yet.</td></tr>`}</tbody></table></section>`;
+}
+
+function renderSubmissions(submissions: SubmissionHistoryEntry[]): string {
+  const body = submissions
+    .map(
+      (item) =>
+        `<tr><td>${escapeHtml(item.submittedDate)}${item.group ? ` <span class="muted">${escapeHtml(item.group)}</span>` : ""}</td><td>${escapeHtml(item.mode)}</td><td>${escapeHtml(item.createdAt)}</td><td class="num">${formatTokens(
+          item.totalTokens
+        )}</td><td class="num">${formatCost(item.totalCost)}</td><td>${escapeHtml(item.clients.join(", "))}</td><td>${escapeHtml(item.submissionId ?? "")}</td></tr>`
+    )
+    .join("");
+  return `<section><h2>Submit history</h2><table>
+<thead><tr><th>Date</th><th>Mode</th><th>Created</th><th class="num">Tokens</th><th class="num">Cost</th><th>Clients</th><th>Submission ID</th></tr></thead>
+<tbody>${body || `<tr><td colspan="7" class="muted">No submissions yet.</td></tr>`}</tbody></table></section>`;
+}
+
+/** Renders the dashboard as a single self-contained HTML page (inline CSS, no scripts). */
+export function renderDashboard(data: DashboardData): string {
+  const now = Date.parse(data.generatedAt);
+  const summary = data.payload
+    ? `<p>${formatTokens(data.payload.summary.totalTokens)} tokens, ${formatCost(data.payload.summary.totalCost)} over ${data.payload.summary.activeDays} active day(s) from ${data.clients.length} client(s).</p>`
+    : `<p class="muted">No client captures available.</p>`;
+  const sections = data.payload
+    ? `<h2>Contributions</h2>${renderHeatmap(data.payload)}
+<div class="grid">${renderTotalsTable("By source", totalsBy(data.payload, (row) => row.source))}${renderTotalsTable(
+        "By model",
+        totalsBy(data.payload, (row) => row.modelId)
+      )}</div>`
+    : "";
+
+  return page(
+    "tk-proxy dashboard",
+    `<h1>tk-proxy dashboard</h1>
+<p class="muted">Generated ${escapeHtml(data.generatedAt)}.${
+      data.authEnabled ? ` <form class="inline" method="post" action="/dashboard/logout"><button type="submit">Sign out</button></form>` : ""
+    }</p>
+${data.lastSubmitError ? `<p class="error">Last submit error: ${escapeHtml(data.lastSubmitError)}</p>` : ""}
+${summary}
+${sections}
+${renderClients(data.clients, now)}
+${renderSubmissions(data.submissions)}`
+  );
+}
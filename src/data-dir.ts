@@ -0,0 +1,73 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+export function sanitizeClientId(clientId: string): string {
+  const normalized = clientId.trim();
+  if (!normalized) throw new Error("clientId must not be empty");
+  return normalized.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+export function clientsDir(dataDir: string): string {
+  return path.join(dataDir, "clients");
+}
+
+export function historyDir(dataDir: string): string {
+  return path.join(dataDir, "history");
+}
+
+export function quarantineDir(dataDir: string): string {
+  return path.join(dataDir, "quarantine");
+}
+
+export function stateFile(dataDir: string): string {
+  return path.join(dataDir, "state.json");
+}
+
+/** Submission records of a client group live in their own subdirectory. */
+export function submissionsDir(dataDir: string, group: string | null = null): string {
+  return group ? path.join(dataDir, "submissions", group) : path.join(dataDir, "submissions");
+}
+
+export function tokensFile(dataDir: string): string {
+  return path.join(dataDir, "tokens.json");
+}
+
+export function outboxFile(dataDir: string, group: string | null = null): string {
+  return group ? path.join(dataDir, "outbox", `${group}.json`) : path.join(dataDir, "outbox.json");
+}
+
+/** Present only when the data dir uses the SQLite storage backend. */
+export function storageDbFile(dataDir: string): string {
+  return path.join(dataDir, "tk-proxy.sqlite");
+}
+
+export function webhookLogFile(dataDir: string): string {
+  return path.join(dataDir, "webhooks.log");
+}
+
+export async function ensureDataDir(dataDir: string): Promise<void> {
+  await fs.mkdir(dataDir, { recursive: true });
+  await fs.mkdir(clientsDir(dataDir), { recursive: true });
+  await fs.mkdir(historyDir(dataDir), { recursive: true });
+  await fs.mkdir(submissionsDir(dataDir), { recursive: true });
+}
+
+export async function writeJsonAtomic(filePath: string, data: unknown): Promise<void> {
+  const absolute = path.resolve(filePath);
+  await fs.mkdir(path.dirname(absolute), { recursive: true });
+  const tempPath = `${absolute}.tmp-${process.pid}-${Date.now()}`;
+  await fs.writeFile(tempPath, `${JSON.stringify(data, null, 2)}\n`, "utf8");
+  await fs.rename(tempPath, absolute);
+}
+
+/** Reads and parses a JSON file, returning null when it does not exist. */
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    const content = await fs.readFile(filePath, "utf8");
+    return JSON.parse(content) as T;
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === "ENOENT") return null;
+    throw error;
+  }
+}
@@ -0,0 +1,220 @@
+import { flattenRows, TOKEN_FIELDS, type ContributionRow, type TokenContributionData, type TokenCounts } from "./merge.js";
+
+export type DiffStatus = "added" | "removed" | "changed";
+
+export interface DiffTotals {
+  tokens: number;
+  cost: number;
+  messages: number;
+}
+
+export interface RowDiff {
+  source: string;
+  modelId: string;
+  providerId: string;
+  status: DiffStatus;
+  before: DiffTotals | null;
+  after: DiffTotals | null;
+  delta: DiffTotals;
+  tokenDelta: TokenCounts;
+}
+
+export interface DayDiff {
+  date: string;
+  status: DiffStatus;
+  before: DiffTotals | null;
+  after: DiffTotals | null;
+  delta: DiffTotals;
+  rows: RowDiff[];
+}
+
+export interface PayloadDiff {
+  summary: {
+    addedDays: number;
+    removedDays: number;
+    changedDays: number;
+    addedRows: number;
+    removedRows: number;
+    changedRows: number;
+    delta: DiffTotals;
+  };
+  days: DayDiff[];
+}
+
+const COST_EPSILON = 1e-9;
+
+function rowKey(row: ContributionRow): string {
+  return `${row.source}\u0001${row.modelId}\u0001${row.providerId}`;
+}
+
+function groupByDate(rows: ContributionRow[]): Map<string, Map<string, ContributionRow>> {
+  const byDate = new Map<string, Map<string, ContributionRow>>();
+  for (const row of rows) {
+    let dayRows = byDate.get(row.date);
+    if (!dayRows) {
+      dayRows = new Map<string, ContributionRow>();
+      byDate.set(row.date, dayRows);
+    }
+    dayRows.set(rowKey(row), row);
+  }
+  return byDate;
+}
+
+function totalsOf(row: ContributionRow | undefined): DiffTotals | null {
+  if (!row) return null;
+  return {
+    tokens: TOKEN_FIELDS.reduce((sum, field) => sum + row.tokens[field], 0),
+    cost: row.cost,
+    messages: row.messages
+  };
+}
+
+function subtract(after: DiffTotals | null, before: DiffTotals | null): DiffTotals {
+  return {
+    tokens: (after?.tokens ?? 0) - (before?.tokens ?? 0),
+    cost: (after?.cost ?? 0) - (before?.cost ?? 0),
+    messages: (after?.messages ?? 0) - (before?.messages ?? 0)
+  };
+}
+
+function addInto(target: DiffTotals, value: DiffTotals | null): void {
+  if (!value) return;
+  target.tokens += value.tokens;
+  target.cost += value.cost;
+  target.messages += value.messages;
+}
+
+function diffRow(before: ContributionRow | undefined, after: ContributionRow | undefined): RowDiff | null {
+  const base = (after ?? before) as ContributionRow;
+  const tokenDelta = {} as TokenCounts;
+  let tokensChanged = false;
+  for (const field of TOKEN_FIELDS) {
+    tokenDelta[field] = (after?.tokens[field] ?? 0) - (before?.tokens[field] ?? 0);
+    if (tokenDelta[field] !== 0) tokensChanged = true;
+  }
+  const delta = subtract(totalsOf(after), totalsOf(before));
+  const status: DiffStatus = !before ? "added" : !after ? "removed" : "changed";
+  if (status === "changed" && !tokensChanged && Math.abs(delta.cost) <= COST_EPSILON && delta.messages === 0) {
+    return null;
+  }
+  return {
+    source: base.source,
+    modelId: base.modelId,
+    providerId: base.providerId,
+    status,
+    before: totalsOf(before),
+    after: totalsOf(after),
+    delta,
+    tokenDelta
+  };
+}
+
+/** Compares two payloads row by row (`date + source + modelId + providerId`); unchanged days and rows are omitted. */
+export function diffPayloads(beforePayload: TokenContributionData, afterPayload: TokenContributionData): PayloadDiff {
+  const before = groupByDate(flattenRows(beforePayload));
+  const after = groupByDate(flattenRows(afterPayload));
+  const dates = [...new Set([...before.keys(), ...after.keys()])].sort();
+  const days: DayDiff[] = [];
+  const summary: PayloadDiff["summary"] = {
+    addedDays: 0,
+    removedDays: 0,
+    changedDays: 0,
+    addedRows: 0,
+    removedRows: 0,
+    changedRows: 0,
+    delta: { tokens: 0, cost: 0, messages: 0 }
+  };
+
+  for (const date of dates) {
+    const beforeRows = before.get(date);
+    const afterRows = after.get(date);
+    const keys = [...new Set([...(beforeRows?.keys() ?? []), ...(afterRows?.keys() ?? [])])].sort();
+    const rows: RowDiff[] = [];
+    const beforeTotals: DiffTotals = { tokens: 0, cost: 0, messages: 0 };
+    const afterTotals: DiffTotals = { tokens: 0, cost: 0, messages: 0 };
+    for (const key of keys) {
+      const beforeRow = beforeRows?.get(key);
+      const afterRow = afterRows?.get(key);
+      addInto(beforeTotals, totalsOf(beforeRow));
+      addInto(afterTotals, totalsOf(afterRow));
+      const row = diffRow(beforeRow, afterRow);
+      if (!row) continue;
+      rows.push(row);
+      if (row.status === "added") summary.addedRows += 1;
+      else if (row.status === "removed") summary.removedRows += 1;
+      else summary.changedRows += 1;
+    }
+    if (rows.length === 0) continue;
+
+    const status: DiffStatus = !beforeRows ? "added" : !afterRows ? "removed" : "changed";
+    if (status === "added") summary.addedDays += 1;
+    else if (status === "removed") summary.removedDays += 1;
+    else summary.changedDays += 1;
+
+    const day: DayDiff = {
+      date,
+      status,
+      before: beforeRows ? beforeTotals : null,
+      after: afterRows ? afterTotals : null,
+      delta: subtract(afterRows ? afterTotals : null, beforeRows ? beforeTotals : null),
+      rows
+    };
+    addInto(summary.delta, day.delta);
+    days.push(day);
+  }
+
+  return { summary, days };
+}
+
+function signed(value: number, format: (abs: number) => string): string {
+  if (value === 0) return format(0);
+  return `${value > 0 ? "+" : "-"}${format(Math.abs(value))}`;
+}
+
+function formatTokens(value: number): string {
+  return signed(value, (abs) => abs.toLocaleString("en-US"));
+}
+
+function formatCost(value: number): string {
+  return signed(Math.abs(value) <= COST_EPSILON ? 0 : value, (abs) => `$${abs.toFixed(2)}`);
+}
+
+export function formatDiffTable(diff: PayloadDiff): string {
+  const { summary } = diff;
+  if (diff.days.length === 0) {
+    return "No differences.";
+  }
+
+  const header = ["DATE", "STATUS", "ROW", "TOKENS", "COST", "MESSAGES"];
+  const lines: string[][] = [header];
+  for (const day of diff.days) {
+    lines.push([day.date, day.status, "(day total)", formatTokens(day.delta.tokens), formatCost(day.delta.cost), formatTokens(day.delta.messages)]);
+    for (const row of day.rows) {
+      lines.push([
+        "",
+        row.status,
+        `${row.source}/${row.modelId}/${row.providerId}`,
+        formatTokens(row.delta.tokens),
+        formatCost(row.delta.cost),
+        formatTokens(row.delta.messages)
+      ]);
+    }
+  }
+
+  const widths = header.map((_, column) => Math.max(...lines.map((line) => line[column].length)));
+  const numeric = new Set([3, 4, 5]);
+  const table = lines.map((line) =>
+    line
+      .map((cell, column) => (numeric.has(column) ? cell.padStart(widths[column]) : cell.padEnd(widths[column])))
+      .join("  ")
+      .trimEnd()
+  );
+
+  table.push(
+    "",
+    `Days: +${summary.addedDays} added, -${summary.removedDays} removed, ~${summary.changedDays} changed`,
+    `Rows: +${summary.addedRows} added, -${summary.removedRows} removed, ~${summary.changedRows} changed`,
+    `Total delta: ${formatTokens(summary.delta.tokens)} tokens, ${formatCost(summary.delta.cost)}, ${formatTokens(summary.delta.messages)} messages`
+  );
+  return table.join("\n");
+}
@@ -0,0 +1,72 @@
+import type { ContributionRow } from "./merge.js";
+
+export const EXPORT_FORMATS = ["csv", "tsv", "ndjson"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportRow extends ContributionRow {
+  clientId?: string;
+}
+
+const ROW_COLUMNS = [
+  "date",
+  "source",
+  "modelId",
+  "providerId",
+  "input",
+  "output",
+  "cacheRead",
+  "cacheWrite",
+  "reasoning",
+  "cost",
+  "messages"
+] as const;
+
+export function parseExportFormat(value: string): ExportFormat {
+  const normalized = value.trim().toLowerCase();
+  const format = EXPORT_FORMATS.find((item) => item === normalized);
+  if (!format) {
+    throw new Error(`Invalid export format: ${value} (expected one of ${EXPORT_FORMATS.join(", ")})`);
+  }
+  return format;
+}
+
+function flatten(row: ExportRow, includeClient: boolean): Record<string, string | number> {
+  const flat: Record<string, string | number> = {};
+  if (includeClient) flat.clientId = row.clientId ?? "";
+  flat.date = row.date;
+  flat.source = row.source;
+  flat.modelId = row.modelId;
+  flat.providerId = row.providerId;
+  flat.input = row.tokens.input;
+  flat.output = row.tokens.output;
+  flat.cacheRead = row.tokens.cacheRead;
+  flat.cacheWrite = row.tokens.cacheWrite;
+  flat.reasoning = row.tokens.reasoning;
+  flat.cost = row.cost;
+  flat.messages = row.messages;
+  return flat;
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function tsvCell(value: string | number): string {
+  return String(value).replace(/[\t\r\n]+/g, " ");
+}
+
+/** Renders rows with a header line (csv/tsv) or one JSON object per line (ndjson). */
+export function formatRows(rows: ExportRow[], format: ExportFormat, includeClient = false): string {
+  const columns: string[] = includeClient ? ["clientId", ...ROW_COLUMNS] : [...ROW_COLUMNS];
+  const flatRows = rows.map((row) => flatten(row, includeClient));
+  if (format === "ndjson") {
+    return flatRows.map((row) => `${JSON.stringify(row)}\n`).join("");
+  }
+
+  const separator = format === "csv" ? "," : "\t";
+  const cell = format === "csv" ? csvCell : tsvCell;
+  const lines = [columns.join(separator), ...flatRows.map((row) => columns.map((column) => cell(row[column])).join(separator))];
+  return `${lines.join("\n")}\n`;
+}
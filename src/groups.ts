@@ -0,0 +1,102 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { sanitizeClientId } from "./data-dir.js";
+import type { TokscaleAccount } from "./tokscale.js";
+
+/** A set of clients submitted together to one tokscale account. */
+export interface ClientGroup {
+  name: string;
+  clients: string[];
+  account: TokscaleAccount;
+}
+
+export interface GroupConfig {
+  groups: ClientGroup[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function optionalString(value: unknown, label: string): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`${label} must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+function resolveConfigPath(value: string, baseDir: string): string {
+  if (value === "~" || value.startsWith("~/")) return path.join(os.homedir(), value.slice(1));
+  return path.resolve(baseDir, value);
+}
+
+function parseGroup(value: unknown, index: number, baseDir: string): ClientGroup {
+  if (!isObject(value)) {
+    throw new Error(`Group ${index} must be an object with a \`name\` and \`clients\``);
+  }
+  if (typeof value.name !== "string" || !/^[a-zA-Z0-9._-]+$/.test(value.name)) {
+    throw new Error(`Group ${index} needs a \`name\` of letters, digits, ".", "_" or "-"`);
+  }
+  const label = `Group ${value.name}`;
+  if (!Array.isArray(value.clients) || value.clients.length === 0 || value.clients.some((item) => typeof item !== "string")) {
+    throw new Error(`${label} \`clients\` must be a non-empty list of client IDs`);
+  }
+  const token = optionalString(value.token, `${label} \`token\``);
+  const credentialsFile = optionalString(value.credentialsFile, `${label} \`credentialsFile\``);
+  if (token && credentialsFile) {
+    throw new Error(`${label} sets both \`token\` and \`credentialsFile\`; use one`);
+  }
+  const apiUrl = optionalString(value.apiUrl, `${label} \`apiUrl\``);
+  if (apiUrl && !/^https?:\/\//.test(apiUrl)) {
+    throw new Error(`${label} needs an http(s) \`apiUrl\``);
+  }
+  return {
+    name: value.name,
+    clients: (value.clients as string[]).map((clientId) => sanitizeClientId(clientId)),
+    account: {
+      token,
+      credentialsFile: credentialsFile ? resolveConfigPath(credentialsFile, baseDir) : null,
+      apiUrl: apiUrl ? apiUrl.replace(/\/+$/, "") : null
+    }
+  };
+}
+
+/** Relative `credentialsFile` paths resolve against `baseDir`, normally the config file's directory. */
+export function parseGroupConfig(data: unknown, baseDir = process.cwd()): GroupConfig {
+  if (!isObject(data) || !Array.isArray(data.groups) || data.groups.length === 0) {
+    throw new Error("Group config must be a JSON object with a non-empty `groups` array");
+  }
+  const groups = data.groups.map((item, index) => parseGroup(item, index, baseDir));
+  const owners = new Map<string, string>();
+  for (const group of groups) {
+    if (groups.filter((other) => other.name === group.name).length > 1) {
+      throw new Error(`Group ${group.name} is defined more than once`);
+    }
+    for (const clientId of group.clients) {
+      const owner = owners.get(clientId);
+      if (owner && owner !== group.name) {
+        throw new Error(`Client ${clientId} is in both group ${owner} and group ${group.name}`);
+      }
+      owners.set(clientId, group.name);
+    }
+  }
+  return { groups };
+}
+
+export async function loadGroupConfig(filePath: string): Promise<GroupConfig> {
+  const absolute = path.resolve(filePath);
+  const content = await fs.readFile(absolute, "utf8");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error(`Group config is not valid JSON: ${absolute}`);
+  }
+  return parseGroupConfig(parsed, path.dirname(absolute));
+}
+
+export function groupOfClient(config: GroupConfig, clientId: string): ClientGroup | null {
+  return config.groups.find((group) => group.clients.includes(clientId)) ?? null;
+}
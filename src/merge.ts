@@ -1,3 +1,6 @@
+import { canonicalModelId, canonicalProviderId, type AliasMap } from "./aliases.js";
+import { repriceRow, type PricingTable, type RepriceMode } from "./pricing.js";
+
 export interface TokenCounts {
   input: number;
   output: number;
@@ -15,6 +18,10 @@ export interface SourceContribution {
   messages: number;
 }
 
+export interface ContributionRow extends SourceContribution {
+  date: string;
+}
+
 export interface DailyContribution {
   date: string;
   totals: {
@@ -55,12 +62,117 @@ export interface TokenContributionData {
     maxCostInSingleDay: number;
     sources: string[];
     models: string[];
+    /** Rows whose cost came from the local pricing table; set only on combined payloads built with `pricing`. */
+    repricedRows?: number;
   };
   years: YearSummary[];
   contributions: DailyContribution[];
 }
 
-const TOKEN_FIELDS: (keyof TokenCounts)[] = ["input", "output", "cacheRead", "cacheWrite", "reasoning"];
+export const MERGE_STRATEGIES = ["sum", "max", "latest", "priority"] as const;
+
+export type MergeStrategy = (typeof MERGE_STRATEGIES)[number];
+
+export interface MergeInput {
+  payload: TokenContributionData;
+  clientId?: string | null;
+  capturedAt?: string | null;
+  label?: string;
+}
+
+export interface CombineOptions {
+  /**
+   * How rows sharing `date + source + modelId + providerId` across inputs are merged:
+   * - `sum`: add every input's row (default; double counts overlapping machines)
+   * - `max`: keep the row with the most tokens
+   * - `latest`: keep the row from the most recently captured input
+   * - `priority`: keep the row from the client listed first in `clientPriority`
+   */
+  strategy?: MergeStrategy;
+  clientPriority?: string[];
+  /** Rewrites `modelId`/`providerId` before rows are keyed, so aliases of one model merge into one row. */
+  aliases?: AliasMap;
+  /** Local rates used to backfill zero-cost rows (`fill`, default) or recompute every priced row (`all`). */
+  pricing?: PricingTable;
+  repriceMode?: RepriceMode;
+  filter?: RowFilter;
+}
+
+/**
+ * Row-level selection applied before merging. Dates are inclusive `YYYY-MM-DD`;
+ * model filters match the canonical (post-alias) `modelId`.
+ */
+export interface RowFilter {
+  since?: string;
+  until?: string;
+  includeSources?: string[];
+  excludeSources?: string[];
+  includeModels?: string[];
+  excludeModels?: string[];
+}
+
+export interface DeduplicatedRow {
+  date: string;
+  source: string;
+  modelId: string;
+  providerId: string;
+  keptFrom: string;
+  droppedFrom: string[];
+}
+
+export interface RepricedRow {
+  date: string;
+  source: string;
+  modelId: string;
+  providerId: string;
+  previousCost: number;
+  cost: number;
+}
+
+export interface MergeReport {
+  strategy: MergeStrategy;
+  inputs: string[];
+  deduplicatedRows: DeduplicatedRow[];
+  repricedRows: RepricedRow[];
+}
+
+export interface ProvenanceContributor {
+  clientId: string;
+  tokens: number;
+  cost: number;
+  messages: number;
+  tokenShare: number;
+  costShare: number;
+}
+
+export interface ProvenanceDay {
+  date: string;
+  clients: ProvenanceContributor[];
+  sources: {
+    source: string;
+    modelId: string;
+    providerId: string;
+    contributors: ProvenanceContributor[];
+  }[];
+}
+
+/** Per-day, per-row record of which clients contributed to a combined payload. */
+export interface ProvenanceDocument {
+  schemaVersion: string;
+  generatedAt: string;
+  strategy: MergeStrategy;
+  clients: string[];
+  days: ProvenanceDay[];
+}
+
+export interface CombineResult {
+  payload: TokenContributionData;
+  report: MergeReport;
+  provenance: ProvenanceDocument;
+}
+
+const PROVENANCE_SCHEMA = "tk-proxy-provenance.v1";
+export const TOKEN_FIELDS: (keyof TokenCounts)[] = ["input", "output", "cacheRead", "cacheWrite", "reasoning"];
 
 function asNumber(value: unknown): number {
   const num = Number(value);
@@ -103,48 +215,350 @@ export function extractPayloadFromJson(data: unknown): TokenContributionData | n
   if (isTokenContributionData(data)) return data;
   if (isObject(data) && isTokenContributionData(data.submitPayload)) return data.submitPayload;
   if (isObject(data) && isTokenContributionData(data.parsedStdout)) return data.parsedStdout;
+  // Server client captures and submission records wrap the payload.
+  if (isObject(data) && isTokenContributionData(data.payload)) return data.payload;
   return null;
 }
 
-function collectRows(payloads: TokenContributionData[]): Map<string, Map<string, SourceContribution>> {
+export function extractMergeInputFromJson(data: unknown, label?: string): MergeInput | null {
+  const payload = extractPayloadFromJson(data);
+  if (!payload) return null;
+  let clientId: string | null = null;
+  let capturedAt: string | null = null;
+  if (isObject(data) && !isTokenContributionData(data)) {
+    if (typeof data.clientId === "string") {
+      clientId = data.clientId;
+    } else if (isObject(data.host) && typeof data.host.hostname === "string") {
+      clientId = data.host.hostname;
+    }
+    if (typeof data.capturedAt === "string") {
+      capturedAt = data.capturedAt;
+    } else if (typeof data.createdAt === "string") {
+      capturedAt = data.createdAt;
+    }
+  }
+  return { payload, clientId, capturedAt, label };
+}
+
+export function parseMergeStrategy(value: string): MergeStrategy {
+  const normalized = value.trim().toLowerCase();
+  const strategy = MERGE_STRATEGIES.find((item) => item === normalized);
+  if (!strategy) {
+    throw new Error(`Invalid merge strategy: ${value} (expected one of ${MERGE_STRATEGIES.join(", ")})`);
+  }
+  return strategy;
+}
+
+function inputLabel(input: MergeInput, index: number): string {
+  return input.label ?? input.clientId ?? `input-${index + 1}`;
+}
+
+function rowKey(source: string, modelId: string, providerId: string): string {
+  return `${source}\u0001${modelId}\u0001${providerId}`;
+}
+
+function matchesDate(filter: RowFilter, date: string): boolean {
+  if (filter.since && date < filter.since) return false;
+  if (filter.until && date > filter.until) return false;
+  return true;
+}
+
+function matchesList(value: string, include: string[] | undefined, exclude: string[] | undefined): boolean {
+  if (include && include.length > 0 && !include.includes(value)) return false;
+  if (exclude && exclude.includes(value)) return false;
+  return true;
+}
+
+function matchesRow(filter: RowFilter, source: string, modelId: string): boolean {
+  return matchesList(source, filter.includeSources, filter.excludeSources) && matchesList(modelId, filter.includeModels, filter.excludeModels);
+}
+
+export function isEmptyRowFilter(filter: RowFilter): boolean {
+  return (
+    !filter.since &&
+    !filter.until &&
+    !filter.includeSources?.length &&
+    !filter.excludeSources?.length &&
+    !filter.includeModels?.length &&
+    !filter.excludeModels?.length
+  );
+}
+
+function collectRows(payload: TokenContributionData, options: CombineOptions): Map<string, Map<string, SourceContribution>> {
+  const { aliases, filter } = options;
   const byDate = new Map<string, Map<string, SourceContribution>>();
-  for (const payload of payloads) {
-    for (const day of payload.contributions ?? []) {
-      const date = String(day.date ?? "");
-      if (!date) continue;
-      let dayMap = byDate.get(date);
-      if (!dayMap) {
-        dayMap = new Map<string, SourceContribution>();
-        byDate.set(date, dayMap);
-      }
+  for (const day of payload.contributions ?? []) {
+    const date = String(day.date ?? "");
+    if (!date) continue;
+    if (filter && !matchesDate(filter, date)) continue;
+    let dayMap = byDate.get(date);
+    if (!dayMap) {
+      dayMap = new Map<string, SourceContribution>();
+      byDate.set(date, dayMap);
+    }
 
-      for (const sourceEntry of day.sources ?? []) {
-        const source = String(sourceEntry.source ?? "unknown");
-        const modelId = String(sourceEntry.modelId ?? "unknown");
-        const providerId = String(sourceEntry.providerId ?? "unknown");
-        const key = `${source}\u0001${modelId}\u0001${providerId}`;
-        let row = dayMap.get(key);
-        if (!row) {
-          row = {
-            source,
-            modelId,
-            providerId,
-            tokens: normalizeTokens(),
-            cost: 0,
-            messages: 0
-          };
-          dayMap.set(key, row);
-        }
-
-        addTokens(row.tokens, normalizeTokens(sourceEntry.tokens));
-        row.cost += asNumber(sourceEntry.cost);
-        row.messages += asNumber(sourceEntry.messages);
+    for (const sourceEntry of day.sources ?? []) {
+      const source = String(sourceEntry.source ?? "unknown");
+      const modelId = canonicalModelId(aliases, String(sourceEntry.modelId ?? "unknown"));
+      const providerId = canonicalProviderId(aliases, String(sourceEntry.providerId ?? "unknown"));
+      if (filter && !matchesRow(filter, source, modelId)) continue;
+      const key = rowKey(source, modelId, providerId);
+      let row = dayMap.get(key);
+      if (!row) {
+        row = {
+          source,
+          modelId,
+          providerId,
+          tokens: normalizeTokens(),
+          cost: 0,
+          messages: 0
+        };
+        dayMap.set(key, row);
       }
+
+      addTokens(row.tokens, normalizeTokens(sourceEntry.tokens));
+      row.cost += asNumber(sourceEntry.cost);
+      row.messages += asNumber(sourceEntry.messages);
     }
+    if (filter && dayMap.size === 0) byDate.delete(date);
   }
+
   return byDate;
 }
 
+/** Replaces the cost of `row` with the local rate when `options.pricing` covers it, and records the change in `repriced`. */
+function applyPricing(date: string, row: SourceContribution, options: CombineOptions, repriced: Map<string, RepricedRow>): void {
+  if (!options.pricing) return;
+  const cost = repriceRow(row, options.pricing, options.repriceMode ?? "fill");
+  if (cost === null) return;
+  const entryKey = `${date}\u0001${rowKey(row.source, row.modelId, row.providerId)}`;
+  const entry = repriced.get(entryKey) ?? {
+    date,
+    source: row.source,
+    modelId: row.modelId,
+    providerId: row.providerId,
+    previousCost: 0,
+    cost: 0
+  };
+  entry.previousCost += row.cost;
+  entry.cost += cost;
+  repriced.set(entryKey, entry);
+  row.cost = cost;
+}
+
+/**
+ * Flattens a payload into one row per `date + source + modelId + providerId`, with
+ * duplicate rows summed and aliases/pricing from `options` applied, sorted by date
+ * then row key.
+ */
+export function flattenRows(payload: TokenContributionData, options: CombineOptions = {}): ContributionRow[] {
+  const rows: ContributionRow[] = [];
+  const byDate = collectRows(payload, options);
+  const repriced = new Map<string, RepricedRow>();
+  for (const date of [...byDate.keys()].sort()) {
+    const dayRows = [...(byDate.get(date)?.values() ?? [])].sort(compareRows);
+    for (const row of dayRows) {
+      applyPricing(date, row, options, repriced);
+      rows.push({ date, ...row });
+    }
+  }
+  return rows;
+}
+
+function compareRows(a: SourceContribution, b: SourceContribution): number {
+  if (a.source !== b.source) return a.source.localeCompare(b.source);
+  if (a.modelId !== b.modelId) return a.modelId.localeCompare(b.modelId);
+  return a.providerId.localeCompare(b.providerId);
+}
+
+function cloneRow(row: SourceContribution): SourceContribution {
+  return { ...row, tokens: { ...row.tokens } };
+}
+
+function timestampOf(value: string | null | undefined): number {
+  const parsed = Date.parse(String(value ?? ""));
+  return Number.isFinite(parsed) ? parsed : Number.NEGATIVE_INFINITY;
+}
+
+interface RowCandidate {
+  inputIndex: number;
+  row: SourceContribution;
+}
+
+function pickCandidate(candidates: RowCandidate[], inputs: MergeInput[], options: CombineOptions): RowCandidate {
+  const strategy = options.strategy ?? "sum";
+  const priority = options.clientPriority ?? [];
+  const capturedAt = (candidate: RowCandidate): number => {
+    const input = inputs[candidate.inputIndex];
+    return timestampOf(input.capturedAt ?? input.payload.meta?.generatedAt);
+  };
+  const rank = (candidate: RowCandidate): number => {
+    const index = priority.indexOf(inputs[candidate.inputIndex].clientId ?? "");
+    return index === -1 ? Number.POSITIVE_INFINITY : index;
+  };
+
+  let best = candidates[0];
+  for (const candidate of candidates.slice(1)) {
+    if (strategy === "max") {
+      const delta = sumTokenValues(candidate.row.tokens) - sumTokenValues(best.row.tokens);
+      if (delta > 0 || (delta === 0 && candidate.row.cost > best.row.cost)) best = candidate;
+      continue;
+    }
+    if (strategy === "priority") {
+      const delta = rank(candidate) - rank(best);
+      if (delta < 0 || (delta === 0 && capturedAt(candidate) >= capturedAt(best))) best = candidate;
+      continue;
+    }
+    if (capturedAt(candidate) >= capturedAt(best)) best = candidate;
+  }
+  return best;
+}
+
+interface MergedRows {
+  byDate: Map<string, Map<string, SourceContribution>>;
+  contributorsByDate: Map<string, Map<string, RowCandidate[]>>;
+  deduplicatedRows: DeduplicatedRow[];
+  repricedRows: RepricedRow[];
+}
+
+function foldCandidates(candidates: RowCandidate[]): SourceContribution {
+  const merged = cloneRow(candidates[0].row);
+  for (const candidate of candidates.slice(1)) {
+    addTokens(merged.tokens, candidate.row.tokens);
+    merged.cost += candidate.row.cost;
+    merged.messages += candidate.row.messages;
+  }
+  return merged;
+}
+
+function mergeInputRows(inputs: MergeInput[], options: CombineOptions): MergedRows {
+  const strategy = options.strategy ?? "sum";
+  const candidatesByDate = new Map<string, Map<string, RowCandidate[]>>();
+  inputs.forEach((input, inputIndex) => {
+    for (const [date, dayRows] of collectRows(input.payload, options)) {
+      let dayCandidates = candidatesByDate.get(date);
+      if (!dayCandidates) {
+        dayCandidates = new Map<string, RowCandidate[]>();
+        candidatesByDate.set(date, dayCandidates);
+      }
+      for (const [key, row] of dayRows) {
+        const list = dayCandidates.get(key) ?? [];
+        list.push({ inputIndex, row });
+        dayCandidates.set(key, list);
+      }
+    }
+  });
+
+  const byDate = new Map<string, Map<string, SourceContribution>>();
+  const contributorsByDate = new Map<string, Map<string, RowCandidate[]>>();
+  const deduplicatedRows: DeduplicatedRow[] = [];
+  // Pricing runs on the rows that survive the strategy, so the report matches the payload.
+  const repriced = new Map<string, RepricedRow>();
+  const labelOf = (inputIndex: number): string => inputLabel(inputs[inputIndex], inputIndex);
+  for (const date of [...candidatesByDate.keys()].sort()) {
+    const dayMap = new Map<string, SourceContribution>();
+    const dayContributors = new Map<string, RowCandidate[]>();
+    byDate.set(date, dayMap);
+    contributorsByDate.set(date, dayContributors);
+    for (const [key, candidates] of candidatesByDate.get(date) ?? []) {
+      if (strategy === "sum") {
+        for (const candidate of candidates) applyPricing(date, candidate.row, options, repriced);
+        dayMap.set(key, foldCandidates(candidates));
+        dayContributors.set(key, candidates);
+        continue;
+      }
+
+      const kept = pickCandidate(candidates, inputs, options);
+      applyPricing(date, kept.row, options, repriced);
+      dayMap.set(key, cloneRow(kept.row));
+      dayContributors.set(key, [kept]);
+      if (candidates.length > 1) {
+        deduplicatedRows.push({
+          date,
+          source: kept.row.source,
+          modelId: kept.row.modelId,
+          providerId: kept.row.providerId,
+          keptFrom: labelOf(kept.inputIndex),
+          droppedFrom: candidates.filter((item) => item !== kept).map((item) => labelOf(item.inputIndex))
+        });
+      }
+    }
+  }
+  const repricedRows = [...repriced.values()].sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      a.source.localeCompare(b.source) ||
+      a.modelId.localeCompare(b.modelId) ||
+      a.providerId.localeCompare(b.providerId)
+  );
+  return { byDate, contributorsByDate, deduplicatedRows, repricedRows };
+}
+
+function shareOf(part: number, total: number): number {
+  return total > 0 ? part / total : 0;
+}
+
+function summarizeContributors(entries: { clientId: string; tokens: number; cost: number; messages: number }[]): ProvenanceContributor[] {
+  const byClient = new Map<string, { tokens: number; cost: number; messages: number }>();
+  for (const entry of entries) {
+    const current = byClient.get(entry.clientId) ?? { tokens: 0, cost: 0, messages: 0 };
+    current.tokens += entry.tokens;
+    current.cost += entry.cost;
+    current.messages += entry.messages;
+    byClient.set(entry.clientId, current);
+  }
+  const totalTokens = [...byClient.values()].reduce((sum, item) => sum + item.tokens, 0);
+  const totalCost = [...byClient.values()].reduce((sum, item) => sum + item.cost, 0);
+  return [...byClient.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([clientId, item]) => ({
+      clientId,
+      tokens: item.tokens,
+      cost: item.cost,
+      messages: item.messages,
+      tokenShare: shareOf(item.tokens, totalTokens),
+      costShare: shareOf(item.cost, totalCost)
+    }));
+}
+
+function buildProvenance(
+  inputs: MergeInput[],
+  strategy: MergeStrategy,
+  contributions: DailyContribution[],
+  contributorsByDate: Map<string, Map<string, RowCandidate[]>>
+): ProvenanceDocument {
+  const clientOf = (inputIndex: number): string => inputs[inputIndex].clientId ?? inputLabel(inputs[inputIndex], inputIndex);
+  const days: ProvenanceDay[] = contributions.map((day) => {
+    const dayContributors = contributorsByDate.get(day.date);
+    const dayEntries: { clientId: string; tokens: number; cost: number; messages: number }[] = [];
+    const sources = day.sources.map((row) => {
+      const candidates = dayContributors?.get(rowKey(row.source, row.modelId, row.providerId)) ?? [];
+      const entries = candidates.map((candidate) => ({
+        clientId: clientOf(candidate.inputIndex),
+        tokens: sumTokenValues(candidate.row.tokens),
+        cost: candidate.row.cost,
+        messages: candidate.row.messages
+      }));
+      dayEntries.push(...entries);
+      return {
+        source: row.source,
+        modelId: row.modelId,
+        providerId: row.providerId,
+        contributors: summarizeContributors(entries)
+      };
+    });
+    return { date: day.date, clients: summarizeContributors(dayEntries), sources };
+  });
+
+  return {
+    schemaVersion: PROVENANCE_SCHEMA,
+    generatedAt: new Date().toISOString(),
+    strategy,
+    clients: [...new Set(inputs.map((_, index) => clientOf(index)))].sort(),
+    days
+  };
+}
+
 function getIntensity(cost: number, maxCost: number): number {
   if (cost <= 0 || maxCost <= 0) return 0;
   const ratio = cost / maxCost;
@@ -185,11 +599,7 @@ function buildContributions(byDate: Map<string, Map<string, SourceContribution>>
   let maxCostInSingleDay = 0;
 
   for (const date of sortedDates) {
-    const rows = [...(byDate.get(date)?.values() ?? [])].sort((a, b) => {
-      if (a.source !== b.source) return a.source.localeCompare(b.source);
-      if (a.modelId !== b.modelId) return a.modelId.localeCompare(b.modelId);
-      return a.providerId.localeCompare(b.providerId);
-    });
+    const rows = [...(byDate.get(date)?.values() ?? [])].sort(compareRows);
 
     const tokenBreakdown = normalizeTokens();
     let dayCost = 0;
@@ -227,17 +637,10 @@ function buildContributions(byDate: Map<string, Map<string, SourceContribution>>
   return { contributions, maxCostInSingleDay };
 }
 
-export function combinePayloads(payloads: TokenContributionData[]): TokenContributionData {
-  if (!Array.isArray(payloads) || payloads.length === 0) {
-    throw new Error("No payloads provided for combine.");
-  }
-
-  const byDate = collectRows(payloads);
-  const { contributions, maxCostInSingleDay } = buildContributions(byDate);
-  if (contributions.length === 0) {
-    throw new Error("No contribution rows found in the provided payloads.");
-  }
-
+function summarizeContributions(
+  contributions: DailyContribution[],
+  maxCostInSingleDay: number
+): { dateRange: TokenContributionData["meta"]["dateRange"]; summary: TokenContributionData["summary"]; years: YearSummary[] } {
   const totalTokens = contributions.reduce((sum, item) => sum + item.totals.tokens, 0);
   const totalCost = contributions.reduce((sum, item) => sum + item.totals.cost, 0);
   const activeDays = contributions.length;
@@ -250,16 +653,10 @@ export function combinePayloads(payloads: TokenContributionData[]): TokenContrib
     }
   }
 
-  const dateRange = {
-    start: contributions[0].date,
-    end: contributions[contributions.length - 1].date
-  };
-
   return {
-    meta: {
-      generatedAt: new Date().toISOString(),
-      version: "tk-proxy-1.0.0",
-      dateRange
+    dateRange: {
+      start: contributions[0]?.date ?? "",
+      end: contributions[contributions.length - 1]?.date ?? ""
     },
     summary: {
       totalTokens,
@@ -271,7 +668,89 @@ export function combinePayloads(payloads: TokenContributionData[]): TokenContrib
       sources: [...sourceSet].sort(),
       models: [...modelSet].sort()
     },
-    years: computeYearSummaries(contributions),
+    years: computeYearSummaries(contributions)
+  };
+}
+
+/**
+ * Recomputes every derived field (day totals, token breakdown, intensity, summary,
+ * years and `meta.dateRange`) from the payload's own source rows, the same way
+ * `combinePayloads` does. Rows, `meta.generatedAt` and `meta.version` are kept as-is.
+ */
+export function recomputeDerivedFields(payload: TokenContributionData): TokenContributionData {
+  const contributions: DailyContribution[] = [...(payload.contributions ?? [])]
+    .sort((a, b) => String(a.date).localeCompare(String(b.date)))
+    .map((day) => {
+      const tokenBreakdown = normalizeTokens();
+      let cost = 0;
+      let messages = 0;
+      for (const row of day.sources ?? []) {
+        addTokens(tokenBreakdown, normalizeTokens(row.tokens));
+        cost += asNumber(row.cost);
+        messages += asNumber(row.messages);
+      }
+      return {
+        ...day,
+        totals: { tokens: sumTokenValues(tokenBreakdown), cost, messages },
+        intensity: 0,
+        tokenBreakdown,
+        sources: day.sources ?? []
+      };
+    });
+
+  const maxCostInSingleDay = contributions.reduce((max, day) => Math.max(max, day.totals.cost), 0);
+  for (const day of contributions) {
+    day.intensity = getIntensity(day.totals.cost, maxCostInSingleDay);
+  }
+  const { dateRange, summary, years } = summarizeContributions(contributions, maxCostInSingleDay);
+  return {
+    ...payload,
+    meta: { ...payload.meta, dateRange },
+    summary,
+    years,
     contributions
   };
 }
+
+export function combinePayloads(payloads: TokenContributionData[], options: CombineOptions = {}): TokenContributionData {
+  if (!Array.isArray(payloads) || payloads.length === 0) {
+    throw new Error("No payloads provided for combine.");
+  }
+  return combineInputs(payloads.map((payload) => ({ payload })), options).payload;
+}
+
+export function combineInputs(inputs: MergeInput[], options: CombineOptions = {}): CombineResult {
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    throw new Error("No payloads provided for combine.");
+  }
+
+  const strategy = options.strategy ?? "sum";
+  const { byDate, contributorsByDate, deduplicatedRows, repricedRows } = mergeInputRows(inputs, options);
+  const { contributions, maxCostInSingleDay } = buildContributions(byDate);
+  if (contributions.length === 0) {
+    throw new Error("No contribution rows found in the provided payloads.");
+  }
+
+  const { dateRange, summary, years } = summarizeContributions(contributions, maxCostInSingleDay);
+  const payload: TokenContributionData = {
+    meta: {
+      generatedAt: new Date().toISOString(),
+      version: "tk-proxy-1.0.0",
+      dateRange
+    },
+    summary: options.pricing ? { ...summary, repricedRows: repricedRows.length } : summary,
+    years,
+    contributions
+  };
+
+  return {
+    payload,
+    report: {
+      strategy,
+      inputs: inputs.map((input, index) => inputLabel(input, index)),
+      deduplicatedRows,
+      repricedRows
+    },
+    provenance: buildProvenance(inputs, strategy, contributions, contributorsByDate)
+  };
+}
@@ -0,0 +1,148 @@
+import { TOKEN_FIELDS, type TokenContributionData } from "./merge.js";
+
+/** Upper bounds (seconds) of the request latency histogram buckets. */
+export const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export interface MetricsSnapshot {
+  now: Date;
+  clients: { clientId: string; receivedAt: string }[];
+  lastSubmittedAt: string | null;
+  lastSubmitError: string | null;
+  /** Combined totals per source, as the next daily submit would send them. */
+  sourceTotals: { source: string; tokens: number; cost: number }[];
+}
+
+export function sourceTotalsOf(payload: TokenContributionData): MetricsSnapshot["sourceTotals"] {
+  const totals = new Map<string, { source: string; tokens: number; cost: number }>();
+  for (const day of payload.contributions) {
+    for (const row of day.sources) {
+      const entry = totals.get(row.source) ?? { source: row.source, tokens: 0, cost: 0 };
+      for (const field of TOKEN_FIELDS) entry.tokens += row.tokens[field] ?? 0;
+      entry.cost += row.cost;
+      totals.set(row.source, entry);
+    }
+  }
+  return [...totals.values()].sort((a, b) => a.source.localeCompare(b.source));
+}
+
+interface Histogram {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+type Labels = Record<string, string>;
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return Number.isNaN(value) ? "NaN" : String(value);
+}
+
+function seconds(timestamp: string | null): number | null {
+  if (!timestamp) return null;
+  const parsed = Date.parse(timestamp);
+  return Number.isFinite(parsed) ? parsed / 1000 : null;
+}
+
+class MetricWriter {
+  private readonly lines: string[] = [];
+
+  family(name: string, type: "counter" | "gauge" | "histogram", help: string): void {
+    this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  }
+
+  sample(name: string, labels: Labels, value: number): void {
+    this.lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+
+  toString(): string {
+    return `${this.lines.join("\n")}\n`;
+  }
+}
+
+/** In-process counters and histograms for the server, rendered in Prometheus text exposition format. */
+export class ServerMetrics {
+  private readonly uploads = new Map<string, number>();
+  private readonly uploadFailures = new Map<string, { clientId: string; status: string; count: number }>();
+  private readonly requests = new Map<string, { route: string; method: string; histogram: Histogram }>();
+
+  recordUpload(clientId: string): void {
+    this.uploads.set(clientId, (this.uploads.get(clientId) ?? 0) + 1);
+  }
+
+  recordUploadFailure(clientId: string, status: number): void {
+    const key = `${clientId}\u0001${status}`;
+    const entry = this.uploadFailures.get(key) ?? { clientId, status: String(status), count: 0 };
+    entry.count += 1;
+    this.uploadFailures.set(key, entry);
+  }
+
+  observeRequest(route: string, method: string, durationSeconds: number): void {
+    const key = `${route}\u0001${method}`;
+    let entry = this.requests.get(key);
+    if (!entry) {
+      entry = { route, method, histogram: { buckets: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 } };
+      this.requests.set(key, entry);
+    }
+    LATENCY_BUCKETS.forEach((bound, index) => {
+      if (durationSeconds <= bound) entry.histogram.buckets[index] += 1;
+    });
+    entry.histogram.sum += durationSeconds;
+    entry.histogram.count += 1;
+  }
+
+  render(snapshot: MetricsSnapshot): string {
+    const out = new MetricWriter();
+    const nowSeconds = snapshot.now.getTime() / 1000;
+
+    out.family("tk_proxy_uploads_total", "counter", "Accepted client uploads (including quarantined ones) since server start.");
+    for (const [clientId, count] of [...this.uploads.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      out.sample("tk_proxy_uploads_total", { client: clientId }, count);
+    }
+
+    out.family("tk_proxy_upload_failures_total", "counter", "Rejected client uploads by HTTP status since server start.");
+    for (const entry of [...this.uploadFailures.values()].sort((a, b) => a.clientId.localeCompare(b.clientId) || a.status.localeCompare(b.status))) {
+      out.sample("tk_proxy_upload_failures_total", { client: entry.clientId, status: entry.status }, entry.count);
+    }
+
+    out.family("tk_proxy_client_last_upload_age_seconds", "gauge", "Seconds since the active capture of each client was received.");
+    for (const client of snapshot.clients) {
+      const receivedAt = seconds(client.receivedAt);
+      if (receivedAt !== null) out.sample("tk_proxy_client_last_upload_age_seconds", { client: client.clientId }, nowSeconds - receivedAt);
+    }
+
+    out.family("tk_proxy_last_submit_success_timestamp_seconds", "gauge", "Unix time of the last successful daily submit, 0 if none.");
+    out.sample("tk_proxy_last_submit_success_timestamp_seconds", {}, seconds(snapshot.lastSubmittedAt) ?? 0);
+    out.family("tk_proxy_last_submit_error", "gauge", "1 if the last daily submit attempt failed, else 0.");
+    out.sample("tk_proxy_last_submit_error", {}, snapshot.lastSubmitError ? 1 : 0);
+
+    out.family("tk_proxy_combined_tokens", "gauge", "Combined tokens per source across active client captures.");
+    for (const item of snapshot.sourceTotals) out.sample("tk_proxy_combined_tokens", { source: item.source }, item.tokens);
+    out.family("tk_proxy_combined_cost_usd", "gauge", "Combined cost in USD per source across active client captures.");
+    for (const item of snapshot.sourceTotals) out.sample("tk_proxy_combined_cost_usd", { source: item.source }, item.cost);
+
+    out.family("tk_proxy_http_request_duration_seconds", "histogram", "HTTP request latency by route and method.");
+    for (const entry of [...this.requests.values()].sort((a, b) => a.route.localeCompare(b.route) || a.method.localeCompare(b.method))) {
+      const labels = { route: entry.route, method: entry.method };
+      LATENCY_BUCKETS.forEach((bound, index) => {
+        out.sample("tk_proxy_http_request_duration_seconds_bucket", { ...labels, le: String(bound) }, entry.histogram.buckets[index]);
+      });
+      out.sample("tk_proxy_http_request_duration_seconds_bucket", { ...labels, le: "+Inf" }, entry.histogram.count);
+      out.sample("tk_proxy_http_request_duration_seconds_sum", labels, entry.histogram.sum);
+      out.sample("tk_proxy_http_request_duration_seconds_count", labels, entry.histogram.count);
+    }
+
+    return out.toString();
+  }
+}
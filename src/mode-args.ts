@@ -1,17 +1,45 @@
 import os from "node:os";
 import { randomBytes } from "node:crypto";
-import { parseDurationMs } from "./schedule.js";
+import type { RetentionPolicy } from "./capture-store.js";
+import { parseMergeStrategy, type MergeStrategy, type RowFilter } from "./merge.js";
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from "./outbox.js";
+import { parseRepriceMode, type RepriceMode } from "./pricing.js";
+import { DEFAULT_UPLOAD_LIMITS, parseRateLimit, type UploadLimits } from "./rate-limit.js";
+import type { ReadinessPolicy } from "./readiness.js";
+import { DEFAULT_REGRESSION_THRESHOLD, type RegressionGuardOptions } from "./regression.js";
+import { assertTimeZone, parseCron } from "./cron.js";
+import { dailyUtcSchedule, parseDurationMs, type SubmitSchedule } from "./schedule.js";
+import { parseStorageKind, type StorageKind } from "./storage.js";
+import type { ClientTlsOptions, ServerTlsOptions } from "./tls.js";
+import { parseValidationMode, type ValidationMode } from "./validate.js";
 
 export interface ServerModeArgs {
   host: string;
   port: number;
   dataDir: string;
-  submitHourUtc: number;
+  schedule: SubmitSchedule;
   authToken: string | null;
   authTokenGenerated: boolean;
   noAuth: boolean;
   checkIntervalMs: number;
   dryRunSubmit: boolean;
+  mergeStrategy: MergeStrategy;
+  clientPriority: string[];
+  aliasesFile: string | null;
+  pricingFile: string | null;
+  repriceMode: RepriceMode;
+  validationMode: ValidationMode;
+  filter: RowFilter;
+  retention: RetentionPolicy;
+  regressionGuard: RegressionGuardOptions;
+  retryPolicy: RetryPolicy;
+  webhooksFile: string | null;
+  staleAfterMs: number;
+  tls: ServerTlsOptions | null;
+  readiness: ReadinessPolicy | null;
+  groupsFile: string | null;
+  storage: StorageKind | null;
+  uploadLimits: UploadLimits;
 }
 
 export interface ClientModeArgs {
@@ -23,8 +51,48 @@ export interface ClientModeArgs {
   noAuth: boolean;
   once: boolean;
   requestTimeoutMs: number;
+  tls: ClientTlsOptions;
 }
 
+export interface TokenAdminArgs {
+  action: "list" | "issue" | "revoke";
+  target: string | null;
+  dataDir: string;
+}
+
+export interface MigrateStorageArgs {
+  sourceDir: string;
+  /** Defaults to the source dir, which then switches to SQLite in place. */
+  targetDir: string;
+}
+
+export interface HistoryAdminArgs {
+  action: "list" | "rollback" | "pin" | "unpin" | "prune" | "quarantine" | "approve" | "reject";
+  /** Required for every action except `quarantine`, where it narrows the listing. */
+  clientId: string | null;
+  captureId: string | null;
+  dataDir: string;
+  retention: RetentionPolicy;
+}
+
+/** Admin actions sent to a running server over HTTP (`--admin <server-url> <action>`). */
+export interface AdminCommandArgs {
+  serverUrl: string;
+  action: "submit" | "delete" | "rename" | "merge" | "reset-submitted";
+  /** Client IDs for delete/rename/merge, or the optional date for reset-submitted. */
+  targets: string[];
+  dryRun: boolean;
+  /** Client group to submit; required when the server has groups configured. */
+  group: string | null;
+  authToken: string | null;
+  noAuth: boolean;
+  requestTimeoutMs: number;
+  tls: ClientTlsOptions;
+}
+
+const HISTORY_ACTIONS: HistoryAdminArgs["action"][] = ["list", "rollback", "pin", "unpin", "prune", "quarantine", "approve", "reject"];
+const ADMIN_ACTIONS: AdminCommandArgs["action"][] = ["submit", "delete", "rename", "merge", "reset-submitted"];
+
 function parseInteger(value: string, flag: string): number {
   const parsed = Number(value);
   if (!Number.isInteger(parsed)) {
@@ -33,16 +101,127 @@ function parseInteger(value: string, flag: string): number {
   return parsed;
 }
 
+function parseFraction(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+    throw new Error(`${flag} must be a number between 0 and 1: ${value}`);
+  }
+  return parsed;
+}
+
+function parsePositiveInteger(value: string, flag: string): number {
+  const parsed = parseInteger(value, flag);
+  if (parsed < 1) {
+    throw new Error(`${flag} must be at least 1: ${value}`);
+  }
+  return parsed;
+}
+
+function applyRetentionFlag(retention: RetentionPolicy, flag: string, value: string): void {
+  if (flag === "--history-keep") {
+    retention.keepCount = parsePositiveInteger(value, flag);
+  } else {
+    retention.keepDays = parsePositiveInteger(value, flag);
+  }
+}
+
+function defaultRetention(): RetentionPolicy {
+  return { keepCount: 30, keepDays: null };
+}
+
+const CLIENT_TLS_FLAGS = ["--ca-cert", "--client-cert", "--client-key"];
+
+function applyClientTlsFlag(tls: ClientTlsOptions, flag: string, value: string): void {
+  if (flag === "--ca-cert") {
+    tls.caFile = value;
+  } else if (flag === "--client-cert") {
+    tls.certFile = value;
+  } else {
+    tls.keyFile = value;
+  }
+}
+
+function validateClientTls(tls: ClientTlsOptions, serverUrl: string): void {
+  if (Boolean(tls.certFile) !== Boolean(tls.keyFile)) {
+    throw new Error("--client-cert and --client-key must be used together");
+  }
+  if ((tls.caFile || tls.certFile) && !/^https:/i.test(serverUrl)) {
+    throw new Error(`--ca-cert and --client-cert require an https:// server URL: ${serverUrl}`);
+  }
+}
+
+export function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export const ROW_FILTER_FLAGS = ["--since", "--until", "--include-source", "--exclude-source", "--include-model", "--exclude-model"];
+
+function parseFilterDate(value: string, flag: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(`${value}T00:00:00.000Z`))) {
+    throw new Error(`Invalid date for ${flag}: ${value} (expected YYYY-MM-DD)`);
+  }
+  return value;
+}
+
+/** Applies one of `ROW_FILTER_FLAGS` to `filter`; list flags accept comma-separated values and may repeat. */
+export function applyRowFilterFlag(filter: RowFilter, flag: string, value: string): void {
+  if (flag === "--since") {
+    filter.since = parseFilterDate(value, flag);
+  } else if (flag === "--until") {
+    filter.until = parseFilterDate(value, flag);
+  } else if (flag === "--include-source") {
+    filter.includeSources = [...(filter.includeSources ?? []), ...parseList(value)];
+  } else if (flag === "--exclude-source") {
+    filter.excludeSources = [...(filter.excludeSources ?? []), ...parseList(value)];
+  } else if (flag === "--include-model") {
+    filter.includeModels = [...(filter.includeModels ?? []), ...parseList(value)];
+  } else if (flag === "--exclude-model") {
+    filter.excludeModels = [...(filter.excludeModels ?? []), ...parseList(value)];
+  } else {
+    throw new Error(`Unknown filter option: ${flag}`);
+  }
+  if (filter.since && filter.until && filter.since > filter.until) {
+    throw new Error(`--since ${filter.since} is after --until ${filter.until}`);
+  }
+}
+
 export function parseServerModeArgs(argv: string[]): ServerModeArgs {
   let host = "0.0.0.0";
   let port = 8787;
   let dataDir = ".tk-proxy";
-  let submitHourUtc = 2;
+  let submitHourUtc: number | null = null;
+  let submitCron: string | null = null;
+  let timeZone: string | null = null;
   let authToken = process.env.TK_PROXY_AUTH_TOKEN ?? "";
   let authTokenGenerated = false;
   let noAuth = false;
   let checkIntervalMs = parseDurationMs("10m");
   let dryRunSubmit = false;
+  let mergeStrategy: MergeStrategy = "sum";
+  let clientPriority: string[] = [];
+  let aliasesFile: string | null = null;
+  let pricingFile: string | null = null;
+  let repriceMode: RepriceMode = "fill";
+  let validationMode: ValidationMode = "lenient";
+  const filter: RowFilter = {};
+  const retention = defaultRetention();
+  const regressionGuard: RegressionGuardOptions = { enabled: true, threshold: DEFAULT_REGRESSION_THRESHOLD };
+  const retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+  let webhooksFile: string | null = null;
+  let groupsFile: string | null = null;
+  let storage: StorageKind | null = null;
+  const uploadLimits: UploadLimits = { ...DEFAULT_UPLOAD_LIMITS };
+  let staleAfterMs = parseDurationMs("24h");
+  let tlsCertFile: string | null = null;
+  let tlsKeyFile: string | null = null;
+  let tlsClientCaFile: string | null = null;
+  let expectedClients: string[] = [];
+  let readyQuorum: number | null = null;
+  let readyWindowMs: number | null = null;
+  let readyMaxWaitMs: number | null = null;
 
   for (let i = 1; i < argv.length; i += 1) {
     const token = argv[i];
@@ -74,6 +253,20 @@ export function parseServerModeArgs(argv: string[]): ServerModeArgs {
       i += 1;
       continue;
     }
+    if (token === "--submit-cron") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --submit-cron");
+      submitCron = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--timezone") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --timezone");
+      timeZone = assertTimeZone(value);
+      i += 1;
+      continue;
+    }
     if (token === "--auth-token") {
       const value = argv[i + 1];
       if (!value) throw new Error("Missing value for --auth-token");
@@ -96,15 +289,213 @@ export function parseServerModeArgs(argv: string[]): ServerModeArgs {
       dryRunSubmit = true;
       continue;
     }
+    if (token === "--merge-strategy") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --merge-strategy");
+      mergeStrategy = parseMergeStrategy(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--client-priority") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --client-priority");
+      clientPriority = parseList(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--aliases") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --aliases");
+      aliasesFile = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--pricing") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --pricing");
+      pricingFile = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--reprice") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --reprice");
+      repriceMode = parseRepriceMode(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--validation") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --validation");
+      validationMode = parseValidationMode(value);
+      i += 1;
+      continue;
+    }
+    if (ROW_FILTER_FLAGS.includes(token)) {
+      const value = argv[i + 1];
+      if (!value) throw new Error(`Missing value for ${token}`);
+      applyRowFilterFlag(filter, token, value);
+      i += 1;
+      continue;
+    }
+    if (token === "--history-keep" || token === "--history-keep-days") {
+      const value = argv[i + 1];
+      if (!value) throw new Error(`Missing value for ${token}`);
+      applyRetentionFlag(retention, token, value);
+      i += 1;
+      continue;
+    }
+    if (token === "--regression-threshold") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --regression-threshold");
+      regressionGuard.threshold = parseFraction(value, "--regression-threshold");
+      i += 1;
+      continue;
+    }
+    if (token === "--no-regression-guard") {
+      regressionGuard.enabled = false;
+      continue;
+    }
+    if (token === "--submit-max-attempts") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --submit-max-attempts");
+      retryPolicy.maxAttempts = parsePositiveInteger(value, "--submit-max-attempts");
+      i += 1;
+      continue;
+    }
+    if (token === "--submit-retry-base") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --submit-retry-base");
+      retryPolicy.baseDelayMs = parseDurationMs(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--submit-retry-max") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --submit-retry-max");
+      retryPolicy.maxDelayMs = parseDurationMs(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--groups") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --groups");
+      groupsFile = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--storage") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --storage");
+      storage = parseStorageKind(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--webhooks") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --webhooks");
+      webhooksFile = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--client-rate-limit" || token === "--ip-rate-limit") {
+      const value = argv[i + 1];
+      if (!value) throw new Error(`Missing value for ${token}`);
+      uploadLimits[token === "--client-rate-limit" ? "perClient" : "perIp"] = parseRateLimit(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--min-upload-interval") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --min-upload-interval");
+      uploadLimits.minIntervalMs = value.trim().toLowerCase() === "off" ? 0 : parseDurationMs(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--stale-after") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --stale-after");
+      staleAfterMs = parseDurationMs(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--expected-clients") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --expected-clients");
+      expectedClients = parseList(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--ready-quorum") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --ready-quorum");
+      readyQuorum = parseInteger(value, "--ready-quorum");
+      i += 1;
+      continue;
+    }
+    if (token === "--ready-window") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --ready-window");
+      readyWindowMs = parseDurationMs(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--ready-max-wait") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --ready-max-wait");
+      readyMaxWaitMs = parseDurationMs(value);
+      i += 1;
+      continue;
+    }
+    if (token === "--tls-cert") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --tls-cert");
+      tlsCertFile = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--tls-key") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --tls-key");
+      tlsKeyFile = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--tls-client-ca") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --tls-client-ca");
+      tlsClientCaFile = value;
+      i += 1;
+      continue;
+    }
     throw new Error(`Unknown --server option: ${token}`);
   }
 
-  if (submitHourUtc < 0 || submitHourUtc > 23) {
+  if (submitHourUtc !== null && (submitHourUtc < 0 || submitHourUtc > 23)) {
     throw new Error(`--submit-hour-utc must be between 0 and 23: ${submitHourUtc}`);
   }
+  if (submitHourUtc !== null && (submitCron || timeZone)) {
+    throw new Error("--submit-hour-utc cannot be combined with --submit-cron or --timezone");
+  }
+  const schedule = submitCron || timeZone ? { cron: parseCron(submitCron ?? "0 2 * * *"), timeZone: timeZone ?? "UTC" } : dailyUtcSchedule(submitHourUtc ?? 2);
   if (port < 1 || port > 65535) {
     throw new Error(`--port must be between 1 and 65535: ${port}`);
   }
+  if (mergeStrategy === "priority" && clientPriority.length === 0) {
+    throw new Error("--merge-strategy priority requires --client-priority <id1,id2,...>");
+  }
+  if (Boolean(tlsCertFile) !== Boolean(tlsKeyFile)) {
+    throw new Error("--tls-cert and --tls-key must be used together");
+  }
+  if (tlsClientCaFile && !tlsCertFile) {
+    throw new Error("--tls-client-ca requires --tls-cert and --tls-key");
+  }
+  if (expectedClients.length === 0 && (readyQuorum !== null || readyWindowMs !== null || readyMaxWaitMs !== null)) {
+    throw new Error("--ready-quorum, --ready-window and --ready-max-wait require --expected-clients <id1,id2,...>");
+  }
+  if (readyQuorum !== null && (readyQuorum < 1 || readyQuorum > expectedClients.length)) {
+    throw new Error(`--ready-quorum must be between 1 and the number of expected clients (${expectedClients.length}): ${readyQuorum}`);
+  }
 
   if (noAuth) {
     authToken = "";
@@ -121,12 +512,37 @@ export function parseServerModeArgs(argv: string[]): ServerModeArgs {
     host,
     port,
     dataDir,
-    submitHourUtc,
+    schedule,
     authToken: noAuth ? null : authToken,
     authTokenGenerated,
     noAuth,
     checkIntervalMs,
-    dryRunSubmit
+    dryRunSubmit,
+    mergeStrategy,
+    clientPriority,
+    aliasesFile,
+    pricingFile,
+    repriceMode,
+    validationMode,
+    filter,
+    retention,
+    regressionGuard,
+    retryPolicy,
+    webhooksFile,
+    staleAfterMs,
+    tls: tlsCertFile && tlsKeyFile ? { certFile: tlsCertFile, keyFile: tlsKeyFile, clientCaFile: tlsClientCaFile } : null,
+    readiness:
+      expectedClients.length > 0
+        ? {
+            expectedClients,
+            quorum: readyQuorum,
+            windowMs: readyWindowMs ?? parseDurationMs("24h"),
+            maxWaitMs: readyMaxWaitMs ?? parseDurationMs("6h")
+          }
+        : null,
+    groupsFile,
+    storage,
+    uploadLimits
   };
 }
 
@@ -143,6 +559,7 @@ export function parseClientModeArgs(argv: string[]): ClientModeArgs {
   let noAuth = false;
   let once = false;
   let requestTimeoutMs = parseDurationMs("30s");
+  const tls: ClientTlsOptions = { caFile: null, certFile: null, keyFile: null };
 
   for (let i = 2; i < argv.length; i += 1) {
     const token = argv[i];
@@ -189,9 +606,17 @@ export function parseClientModeArgs(argv: string[]): ClientModeArgs {
       i += 1;
       continue;
     }
+    if (CLIENT_TLS_FLAGS.includes(token)) {
+      const value = argv[i + 1];
+      if (!value) throw new Error(`Missing value for ${token}`);
+      applyClientTlsFlag(tls, token, value);
+      i += 1;
+      continue;
+    }
     throw new Error(`Unknown --client option: ${token}`);
   }
 
+  validateClientTls(tls, serverUrl);
   if (!noAuth && !authToken) {
     throw new Error("Missing auth token. Set --auth-token or TK_PROXY_AUTH_TOKEN");
   }
@@ -204,6 +629,173 @@ export function parseClientModeArgs(argv: string[]): ClientModeArgs {
     authToken: noAuth ? null : authToken,
     noAuth,
     once,
-    requestTimeoutMs
+    requestTimeoutMs,
+    tls
   };
 }
+
+export function parseTokenAdminArgs(argv: string[]): TokenAdminArgs {
+  const action = argv[1];
+  if (action !== "list" && action !== "issue" && action !== "revoke") {
+    throw new Error("Usage: --tokens <list|issue <clientId>|revoke <tokenId|clientId>> [--data-dir <dir>]");
+  }
+
+  let target: string | null = null;
+  let dataDir = ".tk-proxy";
+  for (let i = 2; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === "--data-dir") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --data-dir");
+      dataDir = value;
+      i += 1;
+      continue;
+    }
+    if (!token.startsWith("-") && target === null && action !== "list") {
+      target = token;
+      continue;
+    }
+    throw new Error(`Unknown --tokens option: ${token}`);
+  }
+
+  if (action === "issue" && !target) {
+    throw new Error("Missing client ID. Usage: --tokens issue <clientId>");
+  }
+  if (action === "revoke" && !target) {
+    throw new Error("Missing token ID or client ID. Usage: --tokens revoke <tokenId|clientId>");
+  }
+  return { action, target, dataDir };
+}
+
+export function parseMigrateStorageArgs(argv: string[]): MigrateStorageArgs {
+  const sourceDir = argv[1];
+  if (!sourceDir || sourceDir.startsWith("-")) {
+    throw new Error("Usage: --migrate-storage <source-dir> [--data-dir <target-dir>]");
+  }
+
+  let targetDir = sourceDir;
+  for (let i = 2; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === "--data-dir") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --data-dir");
+      targetDir = value;
+      i += 1;
+      continue;
+    }
+    throw new Error(`Unknown --migrate-storage option: ${token}`);
+  }
+  return { sourceDir, targetDir };
+}
+
+export function parseHistoryAdminArgs(argv: string[]): HistoryAdminArgs {
+  const usage = "Usage: --history <list|rollback|pin|unpin|prune|quarantine|approve|reject> <clientId> [captureId] [--data-dir <dir>]";
+  const action = HISTORY_ACTIONS.find((item) => item === argv[1]);
+  if (!action) throw new Error(usage);
+
+  const positional: string[] = [];
+  let dataDir = ".tk-proxy";
+  const retention = defaultRetention();
+  for (let i = 2; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === "--data-dir") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --data-dir");
+      dataDir = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--history-keep" || token === "--history-keep-days") {
+      const value = argv[i + 1];
+      if (!value) throw new Error(`Missing value for ${token}`);
+      applyRetentionFlag(retention, token, value);
+      i += 1;
+      continue;
+    }
+    if (!token.startsWith("-")) {
+      positional.push(token);
+      continue;
+    }
+    throw new Error(`Unknown --history option: ${token}`);
+  }
+
+  const needsCapture = action === "rollback" || action === "pin" || action === "approve" || action === "reject";
+  const [clientId, captureId] = positional;
+  if ((!clientId && action !== "quarantine") || (needsCapture && !captureId) || positional.length > (needsCapture ? 2 : 1)) {
+    throw new Error(usage);
+  }
+  return { action, clientId: clientId ?? null, captureId: captureId ?? null, dataDir, retention };
+}
+
+export function parseAdminCommandArgs(argv: string[]): AdminCommandArgs {
+  const usage =
+    "Usage: --admin <server-url> <submit [--dry-run] [--group <name>]|delete <clientId>|rename <from> <to>|merge <from> <into>|reset-submitted [yyyy-mm-dd]>";
+  const serverUrl = argv[1];
+  const action = ADMIN_ACTIONS.find((item) => item === argv[2]);
+  if (!serverUrl || serverUrl.startsWith("-") || !action) throw new Error(usage);
+
+  const targets: string[] = [];
+  let dryRun = false;
+  let group: string | null = null;
+  let authToken = process.env.TK_PROXY_AUTH_TOKEN ?? "";
+  let noAuth = false;
+  let requestTimeoutMs = parseDurationMs("30s");
+  const tls: ClientTlsOptions = { caFile: null, certFile: null, keyFile: null };
+  for (let i = 3; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === "--dry-run" && action === "submit") {
+      dryRun = true;
+      continue;
+    }
+    if (token === "--group" && action === "submit") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --group");
+      group = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--auth-token") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --auth-token");
+      authToken = value;
+      i += 1;
+      continue;
+    }
+    if (token === "--no-auth") {
+      noAuth = true;
+      continue;
+    }
+    if (token === "--request-timeout") {
+      const value = argv[i + 1];
+      if (!value) throw new Error("Missing value for --request-timeout");
+      requestTimeoutMs = parseDurationMs(value);
+      i += 1;
+      continue;
+    }
+    if (CLIENT_TLS_FLAGS.includes(token)) {
+      const value = argv[i + 1];
+      if (!value) throw new Error(`Missing value for ${token}`);
+      applyClientTlsFlag(tls, token, value);
+      i += 1;
+      continue;
+    }
+    if (!token.startsWith("-")) {
+      targets.push(token);
+      continue;
+    }
+    throw new Error(`Unknown --admin option: ${token}`);
+  }
+
+  const expected = action === "submit" ? [0, 0] : action === "delete" ? [1, 1] : action === "reset-submitted" ? [0, 1] : [2, 2];
+  if (targets.length < expected[0] || targets.length > expected[1]) {
+    throw new Error(usage);
+  }
+  if (action === "reset-submitted" && targets[0]) {
+    parseFilterDate(targets[0], "reset-submitted");
+  }
+  validateClientTls(tls, serverUrl);
+  if (!noAuth && !authToken) {
+    throw new Error("Missing auth token. Set --auth-token or TK_PROXY_AUTH_TOKEN");
+  }
+  return { serverUrl, action, targets, dryRun, group, authToken: noAuth ? null : authToken, noAuth, requestTimeoutMs, tls };
+}
@@ -0,0 +1,112 @@
+import fs from "node:fs/promises";
+import type { CombineResult } from "./merge.js";
+import { outboxFile, readJsonFile, writeJsonAtomic } from "./data-dir.js";
+import type { ReadinessReport } from "./readiness.js";
+import type { SubmissionSlot } from "./schedule.js";
+import { TokscaleSubmitError } from "./tokscale.js";
+
+const OUTBOX_SCHEMA = "tk-proxy-outbox.v1";
+
+export interface SubmitAttempt {
+  at: string;
+  /** HTTP status from tokscale, or null when no response arrived (network error, missing credentials). */
+  status: number | null;
+  error: string | null;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  /** Delay after the first failed attempt; doubled after each further failure. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * A daily submission waiting to reach tokscale. The combined payload is frozen when the
+ * entry is created, so retries send exactly what the first attempt sent.
+ */
+export interface OutboxEntry {
+  schemaVersion: string;
+  date: string;
+  /** Submission record key of the slot; absent on entries queued before records were keyed by slot. */
+  slotKey?: string;
+  createdAt: string;
+  state: "pending" | "failed";
+  attempts: SubmitAttempt[];
+  nextAttemptAt: string | null;
+  combined: CombineResult;
+  /** Readiness gate decision for the slot that created the entry; absent for manual submits. */
+  readiness?: ReadinessReport;
+  /** Client group the entry belongs to; absent when no groups are configured. */
+  group?: string;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 8,
+  baseDelayMs: 5 * 60 * 1000,
+  maxDelayMs: 6 * 60 * 60 * 1000
+};
+
+export function createOutboxEntry(
+  slot: SubmissionSlot,
+  combined: CombineResult,
+  now: Date,
+  extras: Pick<OutboxEntry, "readiness" | "group"> = {}
+): OutboxEntry {
+  return {
+    schemaVersion: OUTBOX_SCHEMA,
+    date: slot.date,
+    slotKey: slot.key,
+    createdAt: now.toISOString(),
+    state: "pending",
+    attempts: [],
+    nextAttemptAt: now.toISOString(),
+    combined,
+    ...(extras.readiness ? { readiness: extras.readiness } : {}),
+    ...(extras.group ? { group: extras.group } : {})
+  };
+}
+
+/**
+ * 4xx responses mean tokscale rejected the payload or credentials, so sending it again
+ * will not help; 408 and 429 are the exceptions. 5xx and network errors are retried.
+ */
+export function classifySubmitError(error: unknown): { status: number | null; retryable: boolean } {
+  if (error instanceof TokscaleSubmitError) {
+    const status = error.status;
+    return { status, retryable: status >= 500 || status === 408 || status === 429 };
+  }
+  return { status: null, retryable: true };
+}
+
+export function retryDelayMs(policy: RetryPolicy, failedAttempts: number): number {
+  return Math.min(policy.baseDelayMs * 2 ** Math.max(0, failedAttempts - 1), policy.maxDelayMs);
+}
+
+/** Returns the entry with a failed attempt appended and its next attempt scheduled, or marked failed. */
+export function recordFailedAttempt(
+  entry: OutboxEntry,
+  attempt: SubmitAttempt,
+  retryable: boolean,
+  policy: RetryPolicy,
+  now: Date
+): OutboxEntry {
+  const attempts = [...entry.attempts, attempt];
+  if (!retryable || attempts.length >= policy.maxAttempts) {
+    return { ...entry, attempts, state: "failed", nextAttemptAt: null };
+  }
+  const nextAttemptAt = new Date(now.getTime() + retryDelayMs(policy, attempts.length)).toISOString();
+  return { ...entry, attempts, state: "pending", nextAttemptAt };
+}
+
+export async function readOutbox(dataDir: string, group: string | null = null): Promise<OutboxEntry | null> {
+  return readJsonFile<OutboxEntry>(outboxFile(dataDir, group));
+}
+
+export async function writeOutbox(dataDir: string, entry: OutboxEntry): Promise<void> {
+  await writeJsonAtomic(outboxFile(dataDir, entry.group ?? null), entry);
+}
+
+export async function clearOutbox(dataDir: string, group: string | null = null): Promise<void> {
+  await fs.rm(outboxFile(dataDir, group), { force: true });
+}
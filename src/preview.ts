@@ -0,0 +1,59 @@
+import { sanitizeClientId } from "./data-dir.js";
+import type { RowFilter } from "./merge.js";
+import { applyRowFilterFlag, parseList } from "./mode-args.js";
+
+/** Query of `GET /v1/combined`; list parameters accept comma-separated values and may repeat. */
+export interface CombinedQuery {
+  filter: RowFilter;
+  includeClients: string[];
+  excludeClients: string[];
+  summaryOnly: boolean;
+}
+
+const FILTER_PARAMS: Record<string, string> = {
+  since: "--since",
+  until: "--until",
+  includeSource: "--include-source",
+  excludeSource: "--exclude-source",
+  includeModel: "--include-model",
+  excludeModel: "--exclude-model"
+};
+
+const PARAM_BY_FLAG = new Map(Object.entries(FILTER_PARAMS).map(([param, flag]) => [flag, param]));
+
+function parseBoolean(value: string, name: string): boolean {
+  if (value === "" || value === "1" || value === "true") return true;
+  if (value === "0" || value === "false") return false;
+  throw new Error(`${name} must be true or false: ${value}`);
+}
+
+export function parseCombinedQuery(params: URLSearchParams): CombinedQuery {
+  const query: CombinedQuery = { filter: {}, includeClients: [], excludeClients: [], summaryOnly: false };
+  for (const [name, value] of params) {
+    const flag = FILTER_PARAMS[name];
+    if (flag) {
+      try {
+        applyRowFilterFlag(query.filter, flag, value);
+      } catch (error) {
+        // Filter errors name CLI flags; report the query parameter instead.
+        throw new Error((error as Error).message.replace(/--[a-z-]+/g, (match) => PARAM_BY_FLAG.get(match) ?? match));
+      }
+    } else if (name === "includeClient") {
+      query.includeClients.push(...parseList(value).map(sanitizeClientId));
+    } else if (name === "excludeClient") {
+      query.excludeClients.push(...parseList(value).map(sanitizeClientId));
+    } else if (name === "summaryOnly") {
+      query.summaryOnly = parseBoolean(value, name);
+    } else {
+      throw new Error(`Unknown query parameter: ${name}`);
+    }
+  }
+  return query;
+}
+
+export function selectCaptures<T extends { clientId: string }>(captures: T[], query: CombinedQuery): T[] {
+  return captures.filter(
+    (capture) =>
+      (query.includeClients.length === 0 || query.includeClients.includes(capture.clientId)) && !query.excludeClients.includes(capture.clientId)
+  );
+}
@@ -0,0 +1,100 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { SourceContribution, TokenCounts } from "./merge.js";
+
+export const REPRICE_MODES = ["fill", "all"] as const;
+
+export type RepriceMode = (typeof REPRICE_MODES)[number];
+
+/** USD per one million tokens for each token type. */
+export type TokenRates = Partial<Record<keyof TokenCounts, number>>;
+
+export interface PricingTable {
+  /**
+   * Rates keyed by `modelId` or by `providerId:modelId`; the provider-qualified
+   * key wins when both exist.
+   */
+  models: Record<string, TokenRates>;
+}
+
+const RATE_FIELDS: (keyof TokenCounts)[] = ["input", "output", "cacheRead", "cacheWrite", "reasoning"];
+const TOKENS_PER_RATE_UNIT = 1_000_000;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+export function parseRepriceMode(value: string): RepriceMode {
+  const normalized = value.trim().toLowerCase();
+  const mode = REPRICE_MODES.find((item) => item === normalized);
+  if (!mode) {
+    throw new Error(`Invalid reprice mode: ${value} (expected one of ${REPRICE_MODES.join(", ")})`);
+  }
+  return mode;
+}
+
+export function parsePricingTable(data: unknown): PricingTable {
+  if (!isObject(data) || !isObject(data.models)) {
+    throw new Error("Pricing table must be a JSON object with a `models` object");
+  }
+  // No prototype, so a `__proto__` key is stored as an entry like any other model ID.
+  const models: Record<string, TokenRates> = Object.create(null);
+  for (const [key, value] of Object.entries(data.models)) {
+    if (!isObject(value)) {
+      throw new Error(`Pricing entry models.${key} must be an object of per-token-type rates`);
+    }
+    const rates: TokenRates = {};
+    for (const [field, rate] of Object.entries(value)) {
+      if (!RATE_FIELDS.includes(field as keyof TokenCounts)) {
+        throw new Error(`Unknown token type in pricing entry models.${key}: ${field}`);
+      }
+      if (typeof rate !== "number" || !Number.isFinite(rate) || rate < 0) {
+        throw new Error(`Pricing rate models.${key}.${field} must be a non-negative number`);
+      }
+      rates[field as keyof TokenCounts] = rate;
+    }
+    models[key] = rates;
+  }
+  return { models };
+}
+
+export async function loadPricingTable(filePath: string): Promise<PricingTable> {
+  const absolute = path.resolve(filePath);
+  const content = await fs.readFile(absolute, "utf8");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error(`Pricing table is not valid JSON: ${absolute}`);
+  }
+  return parsePricingTable(parsed);
+}
+
+/** Own entries only, so model IDs like `constructor` or `__proto__` never pick up `Object.prototype` members. */
+export function findRates(table: PricingTable, modelId: string, providerId: string): TokenRates | null {
+  for (const key of [`${providerId}:${modelId}`, modelId]) {
+    if (Object.hasOwn(table.models, key)) return table.models[key];
+  }
+  return null;
+}
+
+export function computeCost(tokens: TokenCounts, rates: TokenRates): number {
+  let cost = 0;
+  for (const field of RATE_FIELDS) {
+    // Reasoning tokens are billed as output unless the table prices them separately.
+    const rate = rates[field] ?? (field === "reasoning" ? rates.output : undefined) ?? 0;
+    cost += (tokens[field] * rate) / TOKENS_PER_RATE_UNIT;
+  }
+  return cost;
+}
+
+/**
+ * Returns the repriced cost for a row, or null when the row is left as-is
+ * (no rates for its model, or `fill` mode and the row already has a cost).
+ */
+export function repriceRow(row: SourceContribution, table: PricingTable, mode: RepriceMode): number | null {
+  if (mode === "fill" && row.cost > 0) return null;
+  const rates = findRates(table, row.modelId, row.providerId);
+  if (!rates) return null;
+  return computeCost(row.tokens, rates);
+}
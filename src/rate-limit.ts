@@ -0,0 +1,196 @@
+import { parseDurationMs } from "./schedule.js";
+
+/** At most `max` requests within any `windowMs` span. */
+export interface RateLimit {
+  max: number;
+  windowMs: number;
+}
+
+export interface UploadLimits {
+  /** Upload requests per client ID; null disables the limit. */
+  perClient: RateLimit | null;
+  /** Upload requests per remote address, counted before authentication; null disables the limit. */
+  perIp: RateLimit | null;
+  /** Minimum time between two accepted uploads of one client; 0 disables it. */
+  minIntervalMs: number;
+}
+
+export const DEFAULT_UPLOAD_LIMITS: UploadLimits = {
+  perClient: { max: 30, windowMs: 60 * 60 * 1000 },
+  perIp: { max: 120, windowMs: 60 * 60 * 1000 },
+  minIntervalMs: 60 * 1000
+};
+
+export type RateLimitReason = "ip" | "client" | "interval";
+
+export class RateLimitError extends Error {
+  readonly reason: RateLimitReason;
+  /** Whole seconds until the same request would be allowed, for the `Retry-After` header. */
+  readonly retryAfterSeconds: number;
+
+  constructor(message: string, reason: RateLimitReason, retryAfterMs: number) {
+    super(message);
+    this.name = "RateLimitError";
+    this.reason = reason;
+    this.retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  }
+}
+
+/** Parses `<count>/<duration>` such as `30/1h`; `off` disables the limit. */
+export function parseRateLimit(value: string): RateLimit | null {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "off") return null;
+  const match = normalized.match(/^([0-9]+)\/(.+)$/);
+  const max = match ? Number(match[1]) : NaN;
+  if (!match || !Number.isInteger(max) || max < 1) {
+    throw new Error(`Invalid rate limit: ${value} (expected <count>/<duration> like 30/1h, or off)`);
+  }
+  return { max, windowMs: parseDurationMs(match[2]) };
+}
+
+interface WindowStatus {
+  /** Requests counted in the current window. */
+  recent: number;
+  /** Rejected requests since the key was last idle for a whole window. */
+  rejected: number;
+}
+
+export interface UploadRateLimitStatus {
+  perClient: RateLimit | null;
+  perIp: RateLimit | null;
+  minIntervalMs: number;
+  /** Rejected uploads since server start, by the limit that rejected them. */
+  rejected: Record<RateLimitReason, number>;
+  clients: (WindowStatus & { clientId: string; lastAcceptedAt: string | null })[];
+  ips: (WindowStatus & { ip: string })[];
+}
+
+interface Window {
+  /** Timestamps of counted requests, oldest first. */
+  hits: number[];
+  rejected: number;
+}
+
+/** Formats a duration in the largest whole unit `parseDurationMs` accepts, e.g. `1h` or `90m`. */
+function formatDuration(ms: number): string {
+  for (const [unit, factor] of [
+    ["d", 24 * 60 * 60 * 1000],
+    ["h", 60 * 60 * 1000],
+    ["m", 60 * 1000]
+  ] as const) {
+    if (ms >= factor && ms % factor === 0) return `${ms / factor}${unit}`;
+  }
+  return `${Math.ceil(ms / 1000)}s`;
+}
+
+function describe(limit: RateLimit): string {
+  return `limit ${limit.max} per ${formatDuration(limit.windowMs)}`;
+}
+
+/**
+ * Sliding-window upload limits kept in memory; counters start empty after a restart.
+ * Rejected requests are not counted, so a client that waits for `Retry-After` gets through.
+ */
+export class UploadRateLimiter {
+  private readonly clients = new Map<string, Window>();
+  private readonly ips = new Map<string, Window>();
+  private readonly lastAccepted = new Map<string, number>();
+  private readonly rejected: Record<RateLimitReason, number> = { ip: 0, client: 0, interval: 0 };
+
+  private readonly limits: UploadLimits;
+
+  constructor(limits: UploadLimits) {
+    this.limits = limits;
+  }
+
+  /** Counts an upload request from `ip`, or throws when the address is over its limit. */
+  checkIp(ip: string, now = Date.now()): void {
+    const limit = this.limits.perIp;
+    if (!limit) return;
+    const window = this.windowOf(this.ips, ip, limit, now);
+    if (window.hits.length >= limit.max) {
+      this.reject(window, "ip");
+      throw new RateLimitError(`Too many uploads from ${ip} (${describe(limit)})`, "ip", window.hits[0] + limit.windowMs - now);
+    }
+    window.hits.push(now);
+  }
+
+  /** Counts an upload request for `clientId`, or throws when the client is over its limit or uploading too soon. */
+  checkClient(clientId: string, now = Date.now()): void {
+    const limit = this.limits.perClient;
+    const window = this.windowOf(this.clients, clientId, limit, now);
+    if (limit && window.hits.length >= limit.max) {
+      this.reject(window, "client");
+      throw new RateLimitError(`Too many uploads for client ${clientId} (${describe(limit)})`, "client", window.hits[0] + limit.windowMs - now);
+    }
+    const last = this.lastAccepted.get(clientId);
+    if (last !== undefined && now - last < this.limits.minIntervalMs) {
+      this.reject(window, "interval");
+      throw new RateLimitError(
+        `Client ${clientId} already uploaded ${formatDuration(now - last)} ago; accepted uploads must be ${formatDuration(this.limits.minIntervalMs)} apart`,
+        "interval",
+        last + this.limits.minIntervalMs - now
+      );
+    }
+    if (limit) window.hits.push(now);
+  }
+
+  /** Starts the minimum interval of `clientId` from a stored upload. */
+  recordAccepted(clientId: string, now = Date.now()): void {
+    this.lastAccepted.set(clientId, now);
+  }
+
+  /** Forgets keys with nothing left in their window, so one-off addresses do not pile up. */
+  prune(now = Date.now()): void {
+    for (const [map, limit] of [
+      [this.clients, this.limits.perClient],
+      [this.ips, this.limits.perIp]
+    ] as const) {
+      for (const key of [...map.keys()]) {
+        if (this.windowOf(map, key, limit, now).hits.length === 0) map.delete(key);
+      }
+    }
+    for (const [clientId, last] of this.lastAccepted) {
+      if (now - last >= this.limits.minIntervalMs) this.lastAccepted.delete(clientId);
+    }
+  }
+
+  status(now = Date.now()): UploadRateLimitStatus {
+    const windowStatus = (map: Map<string, Window>, key: string, limit: RateLimit | null): WindowStatus => {
+      const window = map.has(key) ? this.windowOf(map, key, limit, now) : { hits: [], rejected: 0 };
+      return { recent: window.hits.length, rejected: window.rejected };
+    };
+    const clientIds = [...new Set([...this.clients.keys(), ...this.lastAccepted.keys()])].sort();
+    return {
+      perClient: this.limits.perClient,
+      perIp: this.limits.perIp,
+      minIntervalMs: this.limits.minIntervalMs,
+      rejected: { ...this.rejected },
+      clients: clientIds.map((clientId) => {
+        const last = this.lastAccepted.get(clientId);
+        return {
+          clientId,
+          ...windowStatus(this.clients, clientId, this.limits.perClient),
+          lastAcceptedAt: last !== undefined ? new Date(last).toISOString() : null
+        };
+      }),
+      ips: [...this.ips.keys()].sort().map((ip) => ({ ip, ...windowStatus(this.ips, ip, this.limits.perIp) }))
+    };
+  }
+
+  /** Returns the window of `key`, dropping hits that fell out of it. Without a limit nothing is counted. */
+  private windowOf(map: Map<string, Window>, key: string, limit: RateLimit | null, now: number): Window {
+    let window = map.get(key);
+    if (!window) {
+      window = { hits: [], rejected: 0 };
+      map.set(key, window);
+    }
+    while (limit && window.hits.length > 0 && window.hits[0] <= now - limit.windowMs) window.hits.shift();
+    return window;
+  }
+
+  private reject(window: Window, reason: RateLimitReason): void {
+    window.rejected += 1;
+    this.rejected[reason] += 1;
+  }
+}
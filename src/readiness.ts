@@ -0,0 +1,60 @@
+export interface ReadinessPolicy {
+  /** Client IDs that should upload before each scheduled submit. */
+  expectedClients: string[];
+  /** How many expected clients must be fresh; null means all of them. */
+  quorum: number | null;
+  /** A client is fresh when its active capture was received at most this long before the slot. */
+  windowMs: number;
+  /** How long past the slot to wait for missing clients before submitting anyway. */
+  maxWaitMs: number;
+}
+
+export interface ReadinessCapture {
+  clientId: string;
+  receivedAt: string;
+  pinnedAt?: string | null;
+}
+
+export interface ReadinessReport {
+  policy: "all" | "quorum";
+  /** Number of fresh expected clients needed to submit. */
+  required: number;
+  /** Uploads received before this instant do not count. */
+  cutoff: string;
+  /** After this instant the submit goes ahead whatever is missing. */
+  deadline: string;
+  evaluatedAt: string;
+  /** `deadline` means the submit went ahead at the deadline with clients still missing. */
+  decision: "ready" | "waiting" | "deadline";
+  ready: string[];
+  missing: string[];
+}
+
+/**
+ * Decides whether the submit for `slot` may run. A pinned client counts as ready: its
+ * submitted data is fixed on purpose, so waiting for a fresh upload would not change it.
+ */
+export function evaluateReadiness(policy: ReadinessPolicy, captures: ReadinessCapture[], slot: Date, now: Date): ReadinessReport {
+  const cutoff = slot.getTime() - policy.windowMs;
+  const deadline = slot.getTime() + policy.maxWaitMs;
+  const byClient = new Map(captures.map((capture) => [capture.clientId, capture]));
+  const ready: string[] = [];
+  const missing: string[] = [];
+  for (const clientId of policy.expectedClients) {
+    const capture = byClient.get(clientId);
+    const fresh = capture && (capture.pinnedAt || Date.parse(capture.receivedAt) >= cutoff);
+    (fresh ? ready : missing).push(clientId);
+  }
+  const required = policy.quorum ?? policy.expectedClients.length;
+  const decision = ready.length >= required ? "ready" : now.getTime() >= deadline ? "deadline" : "waiting";
+  return {
+    policy: policy.quorum === null ? "all" : "quorum",
+    required,
+    cutoff: new Date(cutoff).toISOString(),
+    deadline: new Date(deadline).toISOString(),
+    evaluatedAt: now.toISOString(),
+    decision,
+    ready,
+    missing
+  };
+}
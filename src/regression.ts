@@ -0,0 +1,80 @@
+import type { TokenContributionData } from "./merge.js";
+
+export interface RegressionGuardOptions {
+  enabled: boolean;
+  /** Largest tolerated drop of total tokens or total cost, as a fraction of the previous total. */
+  threshold: number;
+}
+
+export interface RegressionTotals {
+  tokens: number;
+  cost: number;
+  activeDays: number;
+}
+
+export interface RegressionCheck {
+  regressed: boolean;
+  reasons: string[];
+  /** Dates with activity in the previous payload that the new payload no longer contains. */
+  missingDays: string[];
+  previous: RegressionTotals;
+  next: RegressionTotals;
+}
+
+export const DEFAULT_REGRESSION_THRESHOLD = 0.1;
+
+function totalsOf(payload: TokenContributionData): RegressionTotals {
+  let tokens = 0;
+  let cost = 0;
+  let activeDays = 0;
+  for (const day of payload.contributions ?? []) {
+    tokens += day.totals?.tokens ?? 0;
+    cost += day.totals?.cost ?? 0;
+    if ((day.totals?.tokens ?? 0) > 0) activeDays += 1;
+  }
+  return { tokens, cost, activeDays };
+}
+
+function dropRatio(previous: number, next: number): number {
+  if (previous <= 0) return 0;
+  return (previous - next) / previous;
+}
+
+function formatPercent(ratio: number): string {
+  return `${(ratio * 100).toFixed(1)}%`;
+}
+
+/**
+ * Compares a new upload against the client's previous payload. Token usage only grows
+ * over time, so days vanishing or totals shrinking usually mean lost local history.
+ */
+export function detectRegression(previous: TokenContributionData, next: TokenContributionData, threshold: number): RegressionCheck {
+  const nextDates = new Set((next.contributions ?? []).map((day) => day.date));
+  const missingDays = (previous.contributions ?? [])
+    .filter((day) => (day.totals?.tokens ?? 0) > 0 && !nextDates.has(day.date))
+    .map((day) => day.date)
+    .sort();
+  const previousTotals = totalsOf(previous);
+  const nextTotals = totalsOf(next);
+
+  const reasons: string[] = [];
+  if (missingDays.length > 0) {
+    reasons.push(`${missingDays.length} previously reported day(s) missing (${missingDays[0]}..${missingDays[missingDays.length - 1]})`);
+  }
+  const tokenDrop = dropRatio(previousTotals.tokens, nextTotals.tokens);
+  if (tokenDrop > threshold) {
+    reasons.push(`total tokens dropped ${formatPercent(tokenDrop)} (${previousTotals.tokens} -> ${nextTotals.tokens})`);
+  }
+  const costDrop = dropRatio(previousTotals.cost, nextTotals.cost);
+  if (costDrop > threshold) {
+    reasons.push(`total cost dropped ${formatPercent(costDrop)} (${previousTotals.cost.toFixed(2)} -> ${nextTotals.cost.toFixed(2)})`);
+  }
+
+  return {
+    regressed: reasons.length > 0,
+    reasons,
+    missingDays,
+    previous: previousTotals,
+    next: nextTotals
+  };
+}
@@ -1,3 +1,5 @@
+import { formatZonedTime, latestCronSlot, nextCronSlot, parseCron, type CronExpression } from "./cron.js";
+
 const DURATION_FACTORS_MS: Record<string, number> = {
   s: 1000,
   m: 60 * 1000,
@@ -19,19 +21,55 @@ export function parseDurationMs(value: string): number {
   return amount * DURATION_FACTORS_MS[unit];
 }
 
-export function utcDateString(now: Date): string {
-  return now.toISOString().slice(0, 10);
+export interface SubmitSchedule {
+  cron: CronExpression;
+  /** IANA time zone the cron expression is evaluated in. */
+  timeZone: string;
+}
+
+/** Where a submit is filed: `key` names its submission record, `date` is the schedule-zone day shown for it. */
+export interface SubmissionSlot {
+  key: string;
+  date: string;
 }
 
-export function shouldRunDailySubmit(now: Date, lastSubmittedDate: string | null, submitHourUtc: number): boolean {
+/**
+ * Files a submit under the schedule-zone date and time of `at` (the slot, or the request time of
+ * a manual submit), e.g. `2026-02-17T090000`, so several slots on one day keep separate records.
+ */
+export function submissionSlot(schedule: SubmitSchedule, at: Date): SubmissionSlot {
+  const { date, time } = formatZonedTime(at, schedule.timeZone);
+  return { key: `${date}T${time}`, date };
+}
+
+export function dailyUtcSchedule(submitHourUtc: number): SubmitSchedule {
   if (!Number.isInteger(submitHourUtc) || submitHourUtc < 0 || submitHourUtc > 23) {
     throw new Error(`submitHourUtc must be an integer between 0 and 23: ${submitHourUtc}`);
   }
-  if (now.getUTCHours() < submitHourUtc) {
-    return false;
-  }
-  const today = utcDateString(now);
-  return lastSubmittedDate !== today;
+  return { cron: parseCron(`0 ${submitHourUtc} * * *`), timeZone: "UTC" };
+}
+
+/**
+ * Returns the slot a submit should run for, or null when the latest slot at or before `now`
+ * was already claimed. Missed slots collapse into one catch-up submit for the latest of them.
+ * Without a claimed slot nothing is due: a fresh state counts every earlier slot as claimed,
+ * so the server seeds it with its start time.
+ */
+export function dueSubmitSlot(schedule: SubmitSchedule, now: Date, lastScheduledSlot: string | null): Date | null {
+  if (!lastScheduledSlot) return null;
+  const slot = latestCronSlot(schedule.cron, schedule.timeZone, now);
+  if (!slot || slot.getTime() <= Date.parse(lastScheduledSlot)) return null;
+  return slot;
+}
+
+/** A `lastScheduledSlot` value that makes the latest slot at or before `now` due again. */
+export function reopenLatestSlot(schedule: SubmitSchedule, now: Date): string | null {
+  const slot = latestCronSlot(schedule.cron, schedule.timeZone, now);
+  return slot ? new Date(slot.getTime() - 1).toISOString() : null;
+}
+
+export function nextSubmitSlot(schedule: SubmitSchedule, now: Date): Date | null {
+  return nextCronSlot(schedule.cron, schedule.timeZone, now);
 }
 
 export function computeWaitWithJitterMs(baseMs: number, jitterMs: number, random: () => number = Math.random): number {
@@ -1,23 +1,98 @@
-import fs from "node:fs/promises";
 import path from "node:path";
 import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
-import { combinePayloads, extractPayloadFromJson, type TokenContributionData } from "./merge.js";
-import { shouldRunDailySubmit, utcDateString } from "./schedule.js";
+import { createServer as createHttpsServer } from "node:https";
+import {
+  combineInputs,
+  combinePayloads,
+  extractPayloadFromJson,
+  isEmptyRowFilter,
+  type CombineResult,
+  type MergeStrategy,
+  type RowFilter,
+  type TokenContributionData
+} from "./merge.js";
+import { renderDashboard, renderLoginPage } from "./dashboard.js";
+import { loadAliasMap } from "./aliases.js";
+import {
+  approveQuarantinedCapture,
+  deleteClient,
+  listCaptureHistory,
+  listQuarantinedCaptures,
+  moveClient,
+  readClientCaptureFiles,
+  readClientCaptureSummaries,
+  rejectQuarantinedCapture,
+  rollbackClientCapture,
+  storeClientCapture,
+  unpinClientCapture,
+  type RetentionPolicy,
+  type StoredClientCapture
+} from "./capture-store.js";
+import { issueClientToken, rebindClientTokens, resolveClientToken, revokeClientTokens, secretsMatch } from "./credentials.js";
+import { ensureDataDir, sanitizeClientId } from "./data-dir.js";
+import { groupOfClient, loadGroupConfig, type ClientGroup, type GroupConfig } from "./groups.js";
+import { ServerMetrics, sourceTotalsOf } from "./metrics.js";
+import { parseCombinedQuery, selectCaptures } from "./preview.js";
+import { loadPricingTable, type RepriceMode } from "./pricing.js";
+import type { RegressionGuardOptions } from "./regression.js";
+import { RateLimitError, UploadRateLimiter, type UploadLimits } from "./rate-limit.js";
+import { evaluateReadiness, type ReadinessPolicy, type ReadinessReport } from "./readiness.js";
+import { dueSubmitSlot, nextSubmitSlot, reopenLatestSlot, submissionSlot, type SubmissionSlot, type SubmitSchedule } from "./schedule.js";
+import { DashboardSessions } from "./sessions.js";
+import {
+  classifySubmitError,
+  clearOutbox,
+  createOutboxEntry,
+  readOutbox,
+  recordFailedAttempt,
+  writeOutbox,
+  type OutboxEntry,
+  type RetryPolicy
+} from "./outbox.js";
+import { prepareStorage, storageFor, summarizeCapture, type CaptureSummary, type StorageKind } from "./storage.js";
+import { readSubmissionHistory, writeSubmissionRecord, type SubmitResult } from "./submissions.js";
+import { loadServerTlsMaterial, type ServerTlsOptions } from "./tls.js";
 import { submitToTokscale } from "./tokscale.js";
+import { dispatchWebhookEvent, loadWebhookConfig, type WebhookEventName } from "./webhooks.js";
+import { assertValidPayload, PayloadValidationError, type ValidationMode } from "./validate.js";
 
-const CAPTURE_SCHEMA = "tk-proxy-client-capture.v1";
 const STATE_SCHEMA = "tk-proxy-server-state.v1";
 const MAX_REQUEST_BYTES = 10 * 1024 * 1024;
+const SESSION_COOKIE = "tk_proxy_session";
+const DASHBOARD_SUBMISSIONS = 30;
 
 export interface ServerOptions {
   host: string;
   port: number;
   dataDir: string;
-  submitHourUtc: number;
+  schedule: SubmitSchedule;
   authToken: string | null;
   noAuth: boolean;
   checkIntervalMs: number;
   dryRunSubmit: boolean;
+  mergeStrategy: MergeStrategy;
+  clientPriority: string[];
+  aliasesFile: string | null;
+  pricingFile: string | null;
+  repriceMode: RepriceMode;
+  validationMode: ValidationMode;
+  filter: RowFilter;
+  retention: RetentionPolicy;
+  regressionGuard: RegressionGuardOptions;
+  retryPolicy: RetryPolicy;
+  webhooksFile: string | null;
+  /** A client whose active capture is older than this fires a `client.stale` webhook. */
+  staleAfterMs: number;
+  /** Serve HTTPS instead of HTTP; certificates are re-read on SIGHUP. */
+  tls: ServerTlsOptions | null;
+  /** Holds each scheduled submit until enough expected clients have uploaded; null submits on schedule. */
+  readiness: ReadinessPolicy | null;
+  /** Client groups submitted to separate tokscale accounts; null submits every client to the local login. */
+  groupsFile: string | null;
+  /** Backend to require for the data dir; null uses whichever the data dir already holds. */
+  storage: StorageKind | null;
+  /** Per-client and per-address limits on `POST /v1/captures`. */
+  uploadLimits: UploadLimits;
 }
 
 interface CaptureUploadBody {
@@ -27,112 +102,127 @@ interface CaptureUploadBody {
   sourceHost?: unknown;
 }
 
-interface StoredClientCapture {
-  schemaVersion: string;
-  clientId: string;
-  capturedAt: string;
-  receivedAt: string;
-  sourceHost: string | null;
-  payload: TokenContributionData;
-}
-
-interface ServerState {
-  schemaVersion: string;
+interface SubmitStatus {
   lastSubmittedDate: string | null;
   lastSubmittedAt: string | null;
   lastSubmitError: string | null;
   lastSubmissionId: string | null;
 }
 
+interface ServerState extends SubmitStatus {
+  schemaVersion: string;
+  /** Instant of the last schedule slot a submit was started for; each slot runs at most once. */
+  lastScheduledSlot: string | null;
+  /** Submit status per client group; the top-level fields track the ungrouped submit. */
+  groups: Record<string, SubmitStatus>;
+}
+
+function emptySubmitStatus(): SubmitStatus {
+  return { lastSubmittedDate: null, lastSubmittedAt: null, lastSubmitError: null, lastSubmissionId: null };
+}
+
 function defaultState(): ServerState {
   return {
     schemaVersion: STATE_SCHEMA,
-    lastSubmittedDate: null,
-    lastSubmittedAt: null,
-    lastSubmitError: null,
-    lastSubmissionId: null
+    ...emptySubmitStatus(),
+    lastScheduledSlot: null,
+    groups: {}
   };
 }
 
-function toErrorMessage(error: unknown): string {
-  if (error instanceof Error) return error.message;
-  return String(error);
+function submitStatusOf(state: ServerState, group: string | null): SubmitStatus {
+  if (group) return state.groups[group] ?? emptySubmitStatus();
+  const { lastSubmittedDate, lastSubmittedAt, lastSubmitError, lastSubmissionId } = state;
+  return { lastSubmittedDate, lastSubmittedAt, lastSubmitError, lastSubmissionId };
 }
 
-function sanitizeClientId(clientId: string): string {
-  const normalized = clientId.trim();
-  if (!normalized) throw new Error("clientId must not be empty");
-  return normalized.replace(/[^a-zA-Z0-9._-]/g, "_");
+function withSubmitStatus(state: ServerState, group: string | null, patch: Partial<SubmitStatus>): ServerState {
+  if (!group) return { ...state, ...patch };
+  return { ...state, groups: { ...state.groups, [group]: { ...submitStatusOf(state, group), ...patch } } };
 }
 
-function clientsDir(dataDir: string): string {
-  return path.join(dataDir, "clients");
+/** Status shown by metrics and the dashboard: the ungrouped submit, or a rollup of every group. */
+function overallSubmitStatus(state: ServerState, groupConfig: GroupConfig | null): SubmitStatus {
+  if (!groupConfig) return submitStatusOf(state, null);
+  const statuses = groupConfig.groups.map((group) => ({ name: group.name, ...submitStatusOf(state, group.name) }));
+  const latest = statuses
+    .filter((status) => status.lastSubmittedAt)
+    .sort((a, b) => (b.lastSubmittedAt as string).localeCompare(a.lastSubmittedAt as string))[0];
+  const errors = statuses.filter((status) => status.lastSubmitError).map((status) => `${status.name}: ${status.lastSubmitError}`);
+  return {
+    lastSubmittedDate: latest?.lastSubmittedDate ?? null,
+    lastSubmittedAt: latest?.lastSubmittedAt ?? null,
+    lastSubmitError: errors.length > 0 ? errors.join("; ") : null,
+    lastSubmissionId: latest?.lastSubmissionId ?? null
+  };
 }
 
-function stateFile(dataDir: string): string {
-  return path.join(dataDir, "state.json");
+function forGroup(group: ClientGroup | null): string {
+  return group ? ` (group ${group.name})` : "";
 }
 
-function submissionsDir(dataDir: string): string {
-  return path.join(dataDir, "submissions");
+function toErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
 }
 
-async function ensureDataDir(dataDir: string): Promise<void> {
-  await fs.mkdir(dataDir, { recursive: true });
-  await fs.mkdir(clientsDir(dataDir), { recursive: true });
-  await fs.mkdir(submissionsDir(dataDir), { recursive: true });
+async function readState(dataDir: string): Promise<ServerState> {
+  const parsed = await (await storageFor(dataDir)).readState<Partial<ServerState>>();
+  if (parsed && typeof parsed === "object") {
+    return {
+      schemaVersion: STATE_SCHEMA,
+      lastSubmittedDate: parsed.lastSubmittedDate ?? null,
+      lastSubmittedAt: parsed.lastSubmittedAt ?? null,
+      lastSubmitError: parsed.lastSubmitError ?? null,
+      lastSubmissionId: parsed.lastSubmissionId ?? null,
+      // State written before slots existed: every slot up to the last submit already ran.
+      lastScheduledSlot: parsed.lastScheduledSlot !== undefined ? parsed.lastScheduledSlot : (parsed.lastSubmittedAt ?? null),
+      groups: parsed.groups ?? {}
+    };
+  }
+  return defaultState();
 }
 
-async function writeJsonAtomic(filePath: string, data: unknown): Promise<void> {
-  const absolute = path.resolve(filePath);
-  await fs.mkdir(path.dirname(absolute), { recursive: true });
-  const tempPath = `${absolute}.tmp-${process.pid}-${Date.now()}`;
-  await fs.writeFile(tempPath, `${JSON.stringify(data, null, 2)}\n`, "utf8");
-  await fs.rename(tempPath, absolute);
+async function writeState(dataDir: string, state: ServerState): Promise<void> {
+  await (await storageFor(dataDir)).writeState(state);
 }
 
-async function readState(dataDir: string): Promise<ServerState> {
-  try {
-    const content = await fs.readFile(stateFile(dataDir), "utf8");
-    const parsed = JSON.parse(content) as Partial<ServerState>;
-    if (parsed && typeof parsed === "object") {
-      return {
-        schemaVersion: STATE_SCHEMA,
-        lastSubmittedDate: parsed.lastSubmittedDate ?? null,
-        lastSubmittedAt: parsed.lastSubmittedAt ?? null,
-        lastSubmitError: parsed.lastSubmitError ?? null,
-        lastSubmissionId: parsed.lastSubmissionId ?? null
-      };
-    }
-    return defaultState();
-  } catch (error) {
-    const code = (error as NodeJS.ErrnoException).code;
-    if (code === "ENOENT") return defaultState();
-    throw error;
-  }
+function sendHtml(res: ServerResponse, statusCode: number, html: string): void {
+  res.statusCode = statusCode;
+  res.setHeader("content-type", "text/html; charset=utf-8");
+  res.setHeader("content-length", Buffer.byteLength(html));
+  res.setHeader("cache-control", "no-store");
+  res.end(html);
 }
 
-async function writeState(dataDir: string, state: ServerState): Promise<void> {
-  await writeJsonAtomic(stateFile(dataDir), state);
+function redirect(res: ServerResponse, location: string, cookie?: string): void {
+  res.statusCode = 303;
+  res.setHeader("location", location);
+  if (cookie) res.setHeader("set-cookie", cookie);
+  res.end();
 }
 
-async function readClientCaptureFiles(dataDir: string): Promise<StoredClientCapture[]> {
-  const dir = clientsDir(dataDir);
-  const entries = await fs.readdir(dir, { withFileTypes: true });
-  const captures: StoredClientCapture[] = [];
-  for (const entry of entries) {
-    if (!entry.isFile() || !entry.name.endsWith(".json")) continue;
-    const filePath = path.join(dir, entry.name);
-    try {
-      const content = await fs.readFile(filePath, "utf8");
-      const parsed = JSON.parse(content) as StoredClientCapture;
-      if (parsed && parsed.clientId && parsed.payload) captures.push(parsed);
-    } catch {
-      continue;
-    }
+/** Sets (or with null clears) the dashboard session cookie; `Secure` whenever the server speaks TLS. */
+function sessionCookie(sessionId: string | null, options: ServerOptions, maxAgeMs = 0): string {
+  const attributes = `Path=/dashboard; HttpOnly; SameSite=Strict${options.tls ? "; Secure" : ""}`;
+  return sessionId
+    ? `${SESSION_COOKIE}=${encodeURIComponent(sessionId)}; ${attributes}; Max-Age=${Math.floor(maxAgeMs / 1000)}`
+    : `${SESSION_COOKIE}=; ${attributes}; Max-Age=0`;
+}
+
+/**
+ * Checks a dashboard token; returns an error message for the login page, or null only once
+ * the token authenticated with admin access (any token, or none, with auth disabled).
+ */
+async function dashboardLoginError(token: string | null, options: ServerOptions): Promise<string | null> {
+  if (!token && !options.noAuth) return "Enter a token.";
+  let auth: AuthContext;
+  try {
+    auth = await authenticateToken(token, options);
+  } catch {
+    return "Invalid token.";
   }
-  captures.sort((a, b) => a.clientId.localeCompare(b.clientId));
-  return captures;
+  return auth.role === "admin" ? null : "Client upload tokens cannot open the dashboard.";
 }
 
 function sendJson(res: ServerResponse, statusCode: number, data: unknown): void {
@@ -164,27 +254,71 @@ function getBearerToken(req: IncomingMessage): string | null {
   return match?.[1] ?? null;
 }
 
-function assertAuthorized(req: IncomingMessage, token: string | null, noAuth: boolean): void {
-  if (noAuth) return;
-  if (!token) {
+type AuthContext = { role: "admin" } | { role: "client"; clientId: string; tokenId: string };
+
+function getSessionId(req: IncomingMessage): string | null {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const [name, ...rest] = part.trim().split("=");
+    if (name === SESSION_COOKIE && rest.length > 0) return decodeURIComponent(rest.join("="));
+  }
+  return null;
+}
+
+async function authenticate(req: IncomingMessage, options: ServerOptions): Promise<AuthContext> {
+  if (options.noAuth) return { role: "admin" };
+  return authenticateToken(getBearerToken(req), options);
+}
+
+async function authenticateToken(provided: string | null, options: ServerOptions): Promise<AuthContext> {
+  if (options.noAuth) return { role: "admin" };
+  if (!provided) {
     throw new Error("Unauthorized");
   }
-  const provided = getBearerToken(req);
-  if (!provided || provided !== token) {
+  if (options.authToken && secretsMatch(provided, options.authToken)) {
+    return { role: "admin" };
+  }
+  const record = await resolveClientToken(options.dataDir, provided);
+  if (!record) {
     throw new Error("Unauthorized");
   }
+  return { role: "client", clientId: record.clientId, tokenId: record.id };
 }
 
-function parseUpload(body: string): { clientId: string; capturedAt: string; payload: TokenContributionData; sourceHost: string | null } {
+function assertAdmin(auth: AuthContext): void {
+  if (auth.role !== "admin") {
+    throw new Error("Forbidden");
+  }
+}
+
+function parseJsonObject(body: string): Record<string, unknown> {
   let parsed: unknown;
   try {
     parsed = JSON.parse(body);
   } catch {
     throw new Error("Request body must be valid JSON");
   }
-  if (!parsed || typeof parsed !== "object") {
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
     throw new Error("Request body must be a JSON object");
   }
+  return parsed as Record<string, unknown>;
+}
+
+function remoteAddressOf(req: IncomingMessage): string {
+  return (req.socket.remoteAddress ?? "unknown").replace(/^::ffff:/, "");
+}
+
+function uploadClientIdOf(parsed: Record<string, unknown>): string | null {
+  try {
+    return typeof parsed.clientId === "string" ? sanitizeClientId(parsed.clientId) : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseUpload(
+  parsed: Record<string, unknown>,
+  validationMode: ValidationMode
+): { clientId: string; capturedAt: string; payload: TokenContributionData; sourceHost: string | null } {
   const upload = parsed as CaptureUploadBody;
   const clientIdRaw = typeof upload.clientId === "string" ? upload.clientId : "";
   if (!clientIdRaw.trim()) {
@@ -194,6 +328,7 @@ function parseUpload(body: string): { clientId: string; capturedAt: string; payl
   if (!payload) {
     throw new Error("payload is required and must be a tokscale contribution payload");
   }
+  assertValidPayload(payload, "payload", validationMode);
   const capturedAt = typeof upload.capturedAt === "string" && upload.capturedAt.trim() ? upload.capturedAt : new Date().toISOString();
   const sourceHost = typeof upload.sourceHost === "string" && upload.sourceHost.trim() ? upload.sourceHost.trim() : null;
   return {
@@ -204,101 +339,375 @@ function parseUpload(body: string): { clientId: string; capturedAt: string; payl
   };
 }
 
-async function writeClientCapture(dataDir: string, data: { clientId: string; capturedAt: string; payload: TokenContributionData; sourceHost: string | null }): Promise<void> {
-  const record: StoredClientCapture = {
-    schemaVersion: CAPTURE_SCHEMA,
-    clientId: data.clientId,
-    capturedAt: data.capturedAt,
-    receivedAt: new Date().toISOString(),
-    sourceHost: data.sourceHost,
-    payload: data.payload
-  };
-  const filePath = path.join(clientsDir(dataDir), `${data.clientId}.json`);
-  await writeJsonAtomic(filePath, record);
+/** Collapses request paths to a bounded set of route labels for metrics. */
+function routeLabel(requestUrl: string | undefined): string {
+  const pathname = (requestUrl ?? "/").split("?")[0];
+  const known = [
+    "/healthz",
+    "/status",
+    "/metrics",
+    "/dashboard",
+    "/dashboard/login",
+    "/dashboard/logout",
+    "/v1/captures",
+    "/v1/enroll",
+    "/v1/combined",
+    "/v1/submit",
+    "/v1/reset-submitted"
+  ];
+  if (known.includes(pathname)) return pathname;
+  const clientAction = pathname.match(/^\/v1\/clients\/[^/]+\/(history|rollback|unpin|delete|rename|merge)$/);
+  if (clientAction) return `/v1/clients/:clientId/${clientAction[1]}`;
+  const quarantineAction = pathname.match(/^\/v1\/clients\/[^/]+\/quarantine\/[^/]+\/(approve|reject)$/);
+  if (quarantineAction) return `/v1/clients/:clientId/quarantine/:captureId/${quarantineAction[1]}`;
+  return "other";
 }
 
-async function writeSubmissionRecord(
-  dataDir: string,
-  date: string,
-  payload: TokenContributionData,
-  submitResult: { mode: "dry-run" | "submit"; response: unknown }
-): Promise<void> {
-  const filePath = path.join(submissionsDir(dataDir), `${date}.json`);
-  await writeJsonAtomic(filePath, {
-    schemaVersion: "tk-proxy-submission.v1",
-    submittedDate: date,
-    createdAt: new Date().toISOString(),
-    result: submitResult,
-    payload
-  });
+async function combineCaptures(captures: StoredClientCapture[], options: ServerOptions): Promise<CombineResult> {
+  const aliases = options.aliasesFile ? await loadAliasMap(options.aliasesFile) : undefined;
+  const pricing = options.pricingFile ? await loadPricingTable(options.pricingFile) : undefined;
+  return combineInputs(
+    captures.map((item) => ({ payload: item.payload, clientId: item.clientId, capturedAt: item.capturedAt })),
+    {
+      strategy: options.mergeStrategy,
+      clientPriority: options.clientPriority,
+      aliases,
+      pricing,
+      repriceMode: options.repriceMode,
+      filter: options.filter
+    }
+  );
 }
 
 export async function runServer(options: ServerOptions): Promise<void> {
-  await ensureDataDir(options.dataDir);
+  const storage = await prepareStorage(options.dataDir, options.storage);
+  if (storage.kind === "sqlite") console.log(`[server] using SQLite storage in ${options.dataDir}`);
+  else await ensureDataDir(options.dataDir);
   let state = await readState(options.dataDir);
+  if (state.lastScheduledSlot === null) {
+    // A fresh state has missed nothing: slots before the server first started count as claimed.
+    state = { ...state, lastScheduledSlot: new Date().toISOString() };
+    await writeState(options.dataDir, state);
+  }
   let submitInProgress = false;
+  const metrics = new ServerMetrics();
+  const uploadLimiter = new UploadRateLimiter(options.uploadLimits);
+  const dashboardSessions = new DashboardSessions();
+  const startDashboardSession = (): string => sessionCookie(dashboardSessions.create(), options, dashboardSessions.ttlMs);
+  const webhooks = options.webhooksFile ? await loadWebhookConfig(options.webhooksFile) : null;
+  const groupConfig = options.groupsFile ? await loadGroupConfig(options.groupsFile) : null;
+  /** One submit per client group, or a single ungrouped submit of every client. */
+  const submitGroups: (ClientGroup | null)[] = groupConfig ? groupConfig.groups : [null];
+  /** receivedAt of the capture each stale client was last reported for, so each stale period fires once. */
+  const staleNotified = new Map<string, string>();
+
+  const notify = (event: WebhookEventName, message: string, data: Record<string, unknown>): void => {
+    if (!webhooks) return;
+    void dispatchWebhookEvent(options.dataDir, webhooks, { event, occurredAt: new Date().toISOString(), message, data }).catch((error) => {
+      console.error(`[server] webhook ${event} failed: ${toErrorMessage(error)}`);
+    });
+  };
+
+  const checkStaleClients = async (): Promise<void> => {
+    if (!webhooks) return;
+    const now = Date.now();
+    for (const capture of await readClientCaptureSummaries(options.dataDir)) {
+      const ageMs = now - Date.parse(capture.receivedAt);
+      if (!(ageMs > options.staleAfterMs) || staleNotified.get(capture.clientId) === capture.receivedAt) continue;
+      staleNotified.set(capture.clientId, capture.receivedAt);
+      const ageHours = Math.floor(ageMs / (60 * 60 * 1000));
+      notify("client.stale", `Client ${capture.clientId} has not uploaded for ${ageHours}h (last ${capture.receivedAt})`, {
+        clientId: capture.clientId,
+        receivedAt: capture.receivedAt,
+        ageSeconds: Math.floor(ageMs / 1000)
+      });
+    }
+  };
+  /** Last readiness decision for a due slot; while `waiting`, the slot stays unclaimed. */
+  let lastReadiness: ReadinessReport | null = null;
+  let previewCache: { key: string; result: CombineResult } | null = null;
+
+  const previewKey = (captures: CaptureSummary[]): string =>
+    captures.map((item) => `${item.clientId}:${item.captureId ?? item.receivedAt}`).join("|");
+  /**
+   * Combines the active captures like the daily submit, reusing the last result until a capture
+   * changes. Payloads are only read when `captures` no longer match the cached result.
+   */
+  const combinedPreview = async (captures: CaptureSummary[]): Promise<CombineResult | null> => {
+    if (captures.length === 0) return null;
+    if (previewCache?.key !== previewKey(captures)) {
+      const full = await readClientCaptureFiles(options.dataDir);
+      if (full.length === 0) return null;
+      previewCache = { key: previewKey(full.map(summarizeCapture)), result: await combineCaptures(full, options) };
+    }
+    return previewCache.result;
+  };
+
+  let retryTimer: NodeJS.Timeout | null = null;
+  let retryAt = Infinity;
+  /** Keeps the earliest requested retry; `maybeSubmit` re-arms the timer for groups that are not due yet. */
+  const scheduleRetry = (delayMs: number): void => {
+    const at = Date.now() + Math.max(0, delayMs);
+    if (retryTimer && retryAt <= at) return;
+    if (retryTimer) clearTimeout(retryTimer);
+    retryAt = at;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      void maybeSubmit();
+    }, at - Date.now());
+    retryTimer.unref();
+  };
+
+  const recordSubmitError = async (message: string, group: ClientGroup | null): Promise<void> => {
+    state = withSubmitStatus(state, group?.name ?? null, { lastSubmitError: `[${new Date().toISOString()}] ${message}` });
+    await writeState(options.dataDir, state);
+  };
+
+  /** Sends the outbox entry once; on failure records the attempt, schedules the retry and returns the updated entry. */
+  const attemptSubmit = async (entry: OutboxEntry, group: ClientGroup | null): Promise<OutboxEntry | null> => {
+    const { date, combined } = entry;
+    const payload = combined.payload;
+    const groupData = group ? { group: group.name } : {};
+    const at = new Date();
+    try {
+      const submission = await submitToTokscale(payload, group?.account);
+      const attempts = [...entry.attempts, { at: at.toISOString(), status: submission.status, error: null }];
+      await writeSubmissionRecord(
+        options.dataDir,
+        { key: entry.slotKey ?? date, date },
+        combined,
+        { mode: "submit", response: submission.response },
+        { attempts, readiness: entry.readiness, group: group?.name }
+      );
+      await clearOutbox(options.dataDir, group?.name ?? null);
+      state = withSubmitStatus(state, group?.name ?? null, {
+        lastSubmittedDate: date,
+        lastSubmittedAt: new Date().toISOString(),
+        lastSubmitError: null,
+        lastSubmissionId: submission.response.submissionId ?? null
+      });
+      await writeState(options.dataDir, state);
+      console.log(`[server] submit complete for ${date}${forGroup(group)} after ${attempts.length} attempt(s)`);
+      notify("submit.success", `Submitted ${date}${forGroup(group)}: ${payload.summary.totalTokens} tokens, $${payload.summary.totalCost.toFixed(2)}`, {
+        date,
+        ...groupData,
+        mode: "submit",
+        submissionId: submission.response.submissionId ?? null,
+        totalTokens: payload.summary.totalTokens,
+        totalCost: payload.summary.totalCost,
+        clients: combined.report.inputs,
+        attempts: attempts.length
+      });
+      return null;
+    } catch (error) {
+      const message = toErrorMessage(error);
+      const { status, retryable } = classifySubmitError(error);
+      const updated = recordFailedAttempt(entry, { at: at.toISOString(), status, error: message }, retryable, options.retryPolicy, at);
+      await writeOutbox(options.dataDir, updated);
+      await recordSubmitError(message, group);
+      const attemptNote = `attempt ${updated.attempts.length}/${options.retryPolicy.maxAttempts}`;
+      if (updated.state === "failed") {
+        console.error(`[server] submit for ${date}${forGroup(group)} failed permanently (${attemptNote}): ${message}`);
+      } else {
+        console.error(`[server] submit for ${date}${forGroup(group)} failed (${attemptNote}), retrying at ${updated.nextAttemptAt}: ${message}`);
+        scheduleRetry(Date.parse(updated.nextAttemptAt as string) - Date.now());
+      }
+      notify("submit.failure", `Daily submit for ${date}${forGroup(group)} failed (${attemptNote}): ${message}`, {
+        date,
+        ...groupData,
+        error: message,
+        status,
+        attempt: updated.attempts.length,
+        willRetry: updated.state === "pending",
+        nextAttemptAt: updated.nextAttemptAt
+      });
+      return updated;
+    }
+  };
+
+  const combineForSubmit = async (group: ClientGroup | null): Promise<CombineResult> => {
+    const captures = (await readClientCaptureFiles(options.dataDir)).filter((capture) => !group || group.clients.includes(capture.clientId));
+    if (captures.length === 0) {
+      throw new Error(group ? `No client captures available for group ${group.name}` : "No client captures available");
+    }
+    return combineCaptures(captures, options);
+  };
+
+  const recordDryRun = async (slot: SubmissionSlot, combined: CombineResult, group: ClientGroup | null, readiness?: ReadinessReport): Promise<void> => {
+    const { date } = slot;
+    const payload = combined.payload;
+    await writeSubmissionRecord(
+      options.dataDir,
+      slot,
+      combined,
+      {
+        mode: "dry-run",
+        response: {
+          summary: payload.summary
+        }
+      },
+      { readiness, group: group?.name }
+    );
+    state = withSubmitStatus(state, group?.name ?? null, {
+      lastSubmittedDate: date,
+      lastSubmittedAt: new Date().toISOString(),
+      lastSubmitError: null,
+      lastSubmissionId: null
+    });
+    await writeState(options.dataDir, state);
+    console.log(`[server] dry-run submit complete for ${date}${forGroup(group)}`);
+    notify("submit.success", `Dry-run submit for ${date}${forGroup(group)}: ${payload.summary.totalTokens} tokens, $${payload.summary.totalCost.toFixed(2)}`, {
+      date,
+      ...(group ? { group: group.name } : {}),
+      mode: "dry-run",
+      totalTokens: payload.summary.totalTokens,
+      totalCost: payload.summary.totalCost,
+      clients: combined.report.inputs
+    });
+  };
+
+  const reportSubmitFailure = async (error: unknown, group: ClientGroup | null): Promise<void> => {
+    const message = toErrorMessage(error);
+    await recordSubmitError(message, group);
+    console.error(`[server] submit failed${forGroup(group)}: ${message}`);
+    notify("submit.failure", `Daily submit failed${forGroup(group)}: ${message}`, { ...(group ? { group: group.name } : {}), error: message });
+  };
+
+  /** Combines one group's captures for a due slot and queues them in its outbox, or records a dry run. */
+  const queueSlotSubmit = async (group: ClientGroup | null, slot: Date, now: Date, readiness?: ReadinessReport): Promise<void> => {
+    const submission = submissionSlot(options.schedule, slot);
+    const combined = await combineForSubmit(group);
+    if (options.dryRunSubmit) {
+      await recordDryRun(submission, combined, group, readiness);
+      return;
+    }
+    const previous = await readOutbox(options.dataDir, group?.name ?? null);
+    // Each payload is a full snapshot, so a newer slot supersedes any entry still queued.
+    if (previous) {
+      console.log(`[server] outbox entry for ${previous.date}${forGroup(group)} (${previous.state}) superseded by slot ${slot.toISOString()}`);
+    }
+    await writeOutbox(options.dataDir, createOutboxEntry(submission, combined, now, { readiness, group: group?.name }));
+  };
 
   const maybeSubmit = async (): Promise<void> => {
     if (submitInProgress) return;
-    const now = new Date();
-    if (!shouldRunDailySubmit(now, state.lastSubmittedDate, options.submitHourUtc)) return;
-
     submitInProgress = true;
     try {
-      const captures = await readClientCaptureFiles(options.dataDir);
-      if (captures.length === 0) {
-        throw new Error("No client captures available");
+      const now = new Date();
+      let slot = dueSubmitSlot(options.schedule, now, state.lastScheduledSlot);
+      let readiness: ReadinessReport | undefined;
+
+      if (slot && options.readiness) {
+        readiness = evaluateReadiness(options.readiness, await readClientCaptureSummaries(options.dataDir), slot, now);
+        const changed = lastReadiness?.deadline !== readiness.deadline || lastReadiness.missing.join() !== readiness.missing.join();
+        lastReadiness = readiness;
+        if (readiness.decision === "waiting") {
+          if (changed) {
+            console.log(
+              `[server] slot ${slot.toISOString()} waiting for ${readiness.missing.join(", ")} ` +
+                `(${readiness.ready.length}/${readiness.required} ready, deadline ${readiness.deadline})`
+            );
+          }
+          // Left unclaimed so the next check, or the next upload, evaluates it again.
+          slot = null;
+        } else if (readiness.decision === "deadline") {
+          console.warn(`[server] slot ${slot.toISOString()} reached its deadline; submitting without ${readiness.missing.join(", ")}`);
+        }
       }
-      const payload = combinePayloads(captures.map((item) => item.payload));
-      const date = utcDateString(now);
 
-      if (options.dryRunSubmit) {
-        await writeSubmissionRecord(options.dataDir, date, payload, {
-          mode: "dry-run",
-          response: {
-            summary: payload.summary
+      if (slot) {
+        let queued = 0;
+        for (const group of submitGroups) {
+          try {
+            await queueSlotSubmit(group, slot, now, readiness);
+            queued += 1;
+          } catch (error) {
+            await reportSubmitFailure(error, group);
           }
-        });
-        state = {
-          ...state,
-          lastSubmittedDate: date,
-          lastSubmittedAt: new Date().toISOString(),
-          lastSubmitError: null,
-          lastSubmissionId: null
-        };
-        await writeState(options.dataDir, state);
-        console.log(`[server] dry-run submit complete for ${date}`);
-        return;
+        }
+        // Claimed only after the outboxes hold their entries, so a crash in between cannot skip the slot.
+        // When no group could be combined, the slot stays unclaimed and is tried again.
+        if (queued > 0) {
+          state = { ...state, lastScheduledSlot: slot.toISOString() };
+          await writeState(options.dataDir, state);
+        }
+        if (options.dryRunSubmit) return;
       }
 
-      const submission = await submitToTokscale(payload);
-      await writeSubmissionRecord(options.dataDir, date, payload, {
-        mode: "submit",
-        response: submission.response
-      });
-      state = {
-        ...state,
-        lastSubmittedDate: date,
-        lastSubmittedAt: new Date().toISOString(),
-        lastSubmitError: null,
-        lastSubmissionId: submission.response.submissionId ?? null
-      };
-      await writeState(options.dataDir, state);
-      console.log(`[server] submit complete for ${date}`);
+      for (const group of submitGroups) {
+        const entry = await readOutbox(options.dataDir, group?.name ?? null);
+        if (!entry || entry.state !== "pending") continue;
+        const dueAt = Date.parse(entry.nextAttemptAt ?? "");
+        if (dueAt > now.getTime()) {
+          scheduleRetry(dueAt - now.getTime());
+          continue;
+        }
+        await attemptSubmit(entry, group);
+      }
     } catch (error) {
-      const message = `[${new Date().toISOString()}] ${toErrorMessage(error)}`;
-      state = {
-        ...state,
-        lastSubmitError: message
-      };
-      await writeState(options.dataDir, state);
-      console.error(`[server] submit failed: ${message}`);
+      for (const group of submitGroups) await reportSubmitFailure(error, group);
     } finally {
       submitInProgress = false;
     }
   };
 
-  const server = createServer(async (req, res) => {
+  /** Picks the group an admin submit targets; a name is required exactly when groups are configured. */
+  const resolveGroup = (name: string | null): ClientGroup | null => {
+    if (!groupConfig) {
+      if (name) throw new Error("No client groups are configured");
+      return null;
+    }
+    const names = groupConfig.groups.map((group) => group.name).join(", ");
+    if (!name) throw new Error(`group is required when client groups are configured (one of: ${names})`);
+    const group = groupConfig.groups.find((item) => item.name === name);
+    if (!group) throw new Error(`Unknown group: ${name} (one of: ${names})`);
+    return group;
+  };
+
+  /**
+   * Admin-triggered submit that ignores the schedule. With `preview` the combined payload is
+   * only returned; otherwise it replaces any queued outbox entry and is sent right away.
+   */
+  const submitNow = async (
+    preview: boolean,
+    groupName: string | null
+  ): Promise<{ date: string; mode: "preview" | SubmitResult["mode"]; combined: CombineResult; failure: OutboxEntry | null }> => {
+    if (submitInProgress) {
+      throw new Error("A submit is already in progress");
+    }
+    const group = resolveGroup(groupName);
+    submitInProgress = true;
+    try {
+      const now = new Date();
+      const submission = submissionSlot(options.schedule, now);
+      const { date } = submission;
+      const combined = await combineForSubmit(group);
+      if (preview) return { date, mode: "preview", combined, failure: null };
+      if (options.dryRunSubmit) {
+        await recordDryRun(submission, combined, group);
+        return { date, mode: "dry-run", combined, failure: null };
+      }
+      const entry = createOutboxEntry(submission, combined, now, { group: group?.name });
+      await writeOutbox(options.dataDir, entry);
+      console.log(`[server] manual submit for ${date}${forGroup(group)} requested`);
+      return { date, mode: "submit", combined, failure: await attemptSubmit(entry, group) };
+    } finally {
+      submitInProgress = false;
+    }
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const startedAt = process.hrtime.bigint();
+    const route = routeLabel(req.url);
+    let uploadClientId: string | null = null;
+    res.once("finish", () => {
+      const method = ["GET", "POST", "HEAD"].includes(req.method ?? "") ? (req.method as string) : "OTHER";
+      metrics.observeRequest(route, method, Number(process.hrtime.bigint() - startedAt) / 1e9);
+      if (route === "/v1/captures" && res.statusCode >= 400) {
+        metrics.recordUploadFailure(uploadClientId ?? "unknown", res.statusCode);
+      }
+    });
+
     try {
       const method = req.method ?? "GET";
       const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
@@ -308,59 +717,472 @@ export async function runServer(options: ServerOptions): Promise<void> {
         return;
       }
 
+      if (method === "GET" && url.pathname === "/dashboard") {
+        const queryToken = url.searchParams.get("token");
+        if (queryToken !== null) {
+          const error = await dashboardLoginError(queryToken, options);
+          if (error) {
+            sendHtml(res, 401, renderLoginPage(error));
+            return;
+          }
+          redirect(res, "/dashboard", options.noAuth ? undefined : startDashboardSession());
+          return;
+        }
+        if (!options.noAuth && !dashboardSessions.isValid(getSessionId(req))) {
+          // Without a session, a bearer token (e.g. from a script) still opens the page; a plain visit gets the login form.
+          const bearerToken = getBearerToken(req);
+          const error = bearerToken ? await dashboardLoginError(bearerToken, options) : null;
+          if (!bearerToken || error) {
+            sendHtml(res, 401, renderLoginPage(error));
+            return;
+          }
+        }
+
+        const captures = await readClientCaptureSummaries(options.dataDir);
+        const quarantined = await listQuarantinedCaptures(options.dataDir);
+        const combined = await combinedPreview(captures);
+        sendHtml(
+          res,
+          200,
+          renderDashboard({
+            generatedAt: new Date().toISOString(),
+            authEnabled: !options.noAuth,
+            payload: combined?.payload ?? null,
+            clients: captures.map((capture) => ({
+              clientId: capture.clientId,
+              capturedAt: capture.capturedAt,
+              receivedAt: capture.receivedAt,
+              sourceHost: capture.sourceHost,
+              pinned: Boolean(capture.pinnedAt),
+              quarantined: quarantined.filter((item) => item.clientId === capture.clientId).length
+            })),
+            submissions: await readSubmissionHistory(options.dataDir, DASHBOARD_SUBMISSIONS),
+            lastSubmitError: overallSubmitStatus(state, groupConfig).lastSubmitError
+          })
+        );
+        return;
+      }
+
+      if (method === "POST" && url.pathname === "/dashboard/login") {
+        const form = new URLSearchParams(await readRequestBody(req, MAX_REQUEST_BYTES));
+        const token = form.get("token")?.trim() ?? "";
+        const error = await dashboardLoginError(token, options);
+        if (error) {
+          sendHtml(res, 401, renderLoginPage(error));
+          return;
+        }
+        redirect(res, "/dashboard", options.noAuth ? undefined : startDashboardSession());
+        return;
+      }
+
+      if (method === "POST" && url.pathname === "/dashboard/logout") {
+        dashboardSessions.end(getSessionId(req));
+        redirect(res, "/dashboard", sessionCookie(null, options));
+        return;
+      }
+
+      if (method === "GET" && url.pathname === "/metrics") {
+        assertAdmin(await authenticate(req, options));
+        const captures = await readClientCaptureSummaries(options.dataDir);
+        const combined = await combinedPreview(captures);
+        const body = metrics.render({
+          now: new Date(),
+          clients: captures,
+          ...overallSubmitStatus(state, groupConfig),
+          sourceTotals: combined ? sourceTotalsOf(combined.payload) : []
+        });
+        res.statusCode = 200;
+        res.setHeader("content-type", "text/plain; version=0.0.4; charset=utf-8");
+        res.setHeader("content-length", Buffer.byteLength(body));
+        res.end(body);
+        return;
+      }
+
       if (method === "GET" && url.pathname === "/status") {
-        assertAuthorized(req, options.authToken, options.noAuth);
-        const captures = await readClientCaptureFiles(options.dataDir);
+        assertAdmin(await authenticate(req, options));
+        const captures = await readClientCaptureSummaries(options.dataDir);
+        const quarantined = await listQuarantinedCaptures(options.dataDir);
+        const outboxSummary = (outbox: OutboxEntry | null) =>
+          outbox
+            ? {
+                date: outbox.date,
+                state: outbox.state,
+                createdAt: outbox.createdAt,
+                nextAttemptAt: outbox.nextAttemptAt,
+                maxAttempts: options.retryPolicy.maxAttempts,
+                attempts: outbox.attempts
+              }
+            : null;
+        const overall = overallSubmitStatus(state, groupConfig);
+        const nextSlotAt = nextSubmitSlot(options.schedule, new Date());
         sendJson(res, 200, {
           ok: true,
           now: new Date().toISOString(),
           authEnabled: !options.noAuth,
-          submitHourUtc: options.submitHourUtc,
-          lastSubmittedDate: state.lastSubmittedDate,
-          lastSubmittedAt: state.lastSubmittedAt,
-          lastSubmitError: state.lastSubmitError,
-          lastSubmissionId: state.lastSubmissionId,
+          storage: storage.kind,
+          schedule: {
+            cron: options.schedule.cron.source,
+            timeZone: options.schedule.timeZone,
+            lastScheduledSlot: state.lastScheduledSlot,
+            nextSlotAt: nextSlotAt?.toISOString() ?? null
+          },
+          mergeStrategy: options.mergeStrategy,
+          lastSubmittedDate: overall.lastSubmittedDate,
+          lastSubmittedAt: overall.lastSubmittedAt,
+          lastSubmitError: overall.lastSubmitError,
+          lastSubmissionId: overall.lastSubmissionId,
+          readiness: options.readiness
+            ? {
+                expectedClients: options.readiness.expectedClients,
+                quorum: options.readiness.quorum,
+                windowMs: options.readiness.windowMs,
+                maxWaitMs: options.readiness.maxWaitMs,
+                last: lastReadiness,
+                next: nextSlotAt ? evaluateReadiness(options.readiness, captures, nextSlotAt, new Date()) : null
+              }
+            : null,
+          outbox: groupConfig ? null : outboxSummary(await readOutbox(options.dataDir)),
+          groups: groupConfig
+            ? await Promise.all(
+                groupConfig.groups.map(async (group) => ({
+                  name: group.name,
+                  clients: group.clients,
+                  apiUrl: group.account.apiUrl,
+                  credentials: group.account.token ? "token" : (group.account.credentialsFile ?? "default"),
+                  ...submitStatusOf(state, group.name),
+                  outbox: outboxSummary(await readOutbox(options.dataDir, group.name))
+                }))
+              )
+            : null,
+          uploadLimits: uploadLimiter.status(),
+          ungroupedClients: groupConfig ? captures.map((capture) => capture.clientId).filter((clientId) => !groupOfClient(groupConfig, clientId)) : [],
           clients: captures.map((capture) => ({
             clientId: capture.clientId,
+            captureId: capture.captureId ?? null,
+            pinned: Boolean(capture.pinnedAt),
             capturedAt: capture.capturedAt,
             receivedAt: capture.receivedAt,
             sourceHost: capture.sourceHost
-          }))
+          })),
+          quarantine: quarantined.map((capture) => {
+            const base = `/v1/clients/${encodeURIComponent(capture.clientId)}/quarantine/${encodeURIComponent(capture.captureId as string)}`;
+            return {
+              clientId: capture.clientId,
+              captureId: capture.captureId,
+              receivedAt: capture.receivedAt,
+              previousCaptureId: capture.quarantine.previousCaptureId,
+              reasons: capture.quarantine.reasons,
+              missingDays: capture.quarantine.missingDays.length,
+              previous: capture.quarantine.previous,
+              next: capture.quarantine.next,
+              actions: {
+                approve: `POST ${base}/approve`,
+                reject: `POST ${base}/reject`
+              }
+            };
+          })
+        });
+        return;
+      }
+
+      if (method === "GET" && url.pathname === "/v1/combined") {
+        assertAdmin(await authenticate(req, options));
+        const query = parseCombinedQuery(url.searchParams);
+        const captures = await readClientCaptureSummaries(options.dataDir);
+        const selected = selectCaptures(captures, query);
+        if (selected.length === 0) {
+          throw new Error(captures.length === 0 ? "No client captures available" : "No client captures match the client filter");
+        }
+        // Server options (strategy, aliases, pricing, filters) apply first, exactly as in the daily submit;
+        // the query filter only narrows that result.
+        const combined =
+          selected.length === captures.length
+            ? await combinedPreview(captures)
+            : await combineCaptures(selectCaptures(await readClientCaptureFiles(options.dataDir), query), options);
+        if (!combined) throw new Error("No client captures available");
+        const payload = isEmptyRowFilter(query.filter) ? combined.payload : combinePayloads([combined.payload], { filter: query.filter });
+        sendJson(res, 200, {
+          ok: true,
+          clients: selected.map((capture) => capture.clientId),
+          filter: query.filter,
+          merge: combined.report,
+          dateRange: payload.meta.dateRange,
+          summary: payload.summary,
+          ...(query.summaryOnly ? {} : { payload })
         });
         return;
       }
 
       if (method === "POST" && url.pathname === "/v1/captures") {
-        assertAuthorized(req, options.authToken, options.noAuth);
-        const body = await readRequestBody(req, MAX_REQUEST_BYTES);
-        const upload = parseUpload(body);
-        await writeClientCapture(options.dataDir, upload);
+        uploadLimiter.checkIp(remoteAddressOf(req));
+        const auth = await authenticate(req, options);
+        if (auth.role === "client") uploadClientId = auth.clientId;
+        const parsed = parseJsonObject(await readRequestBody(req, MAX_REQUEST_BYTES));
+        uploadClientId ??= uploadClientIdOf(parsed);
+        if (uploadClientId) uploadLimiter.checkClient(uploadClientId);
+        const upload = parseUpload(parsed, options.validationMode);
+        if (auth.role === "client" && auth.clientId !== upload.clientId) {
+          throw new Error("Forbidden");
+        }
+        const { record, pinned, quarantine } = await storeClientCapture(
+          options.dataDir,
+          upload,
+          options.retention,
+          options.regressionGuard
+        );
+        uploadLimiter.recordAccepted(record.clientId);
+        metrics.recordUpload(record.clientId);
+        if (groupConfig && !groupOfClient(groupConfig, record.clientId)) {
+          console.warn(`[server] client ${record.clientId} is not in any group; its uploads are not submitted`);
+        }
+        if (lastReadiness?.decision === "waiting" && lastReadiness.missing.includes(record.clientId)) {
+          void maybeSubmit();
+        }
+        if (quarantine) {
+          console.warn(`[server] quarantined upload ${record.captureId} from ${record.clientId}: ${quarantine.reasons.join("; ")}`);
+          notify("upload.quarantined", `Quarantined upload from ${record.clientId}: ${quarantine.reasons.join("; ")}`, {
+            clientId: record.clientId,
+            captureId: record.captureId,
+            reasons: quarantine.reasons,
+            missingDays: quarantine.missingDays.length,
+            previous: quarantine.previous,
+            next: quarantine.next
+          });
+        }
         sendJson(res, 202, {
           ok: true,
-          clientId: upload.clientId,
-          receivedAt: new Date().toISOString()
+          clientId: record.clientId,
+          captureId: record.captureId,
+          receivedAt: record.receivedAt,
+          pinned,
+          quarantined: quarantine !== null,
+          reasons: quarantine?.reasons ?? []
         });
         return;
       }
 
+      const clientRoute = url.pathname.match(/^\/v1\/clients\/([^/]+)\/(history|rollback|unpin|delete|rename|merge)$/);
+      if (clientRoute) {
+        assertAdmin(await authenticate(req, options));
+        const clientId = sanitizeClientId(decodeURIComponent(clientRoute[1]));
+        const action = clientRoute[2];
+        if (method === "GET" && action === "history") {
+          sendJson(res, 200, { ok: true, clientId, captures: await listCaptureHistory(options.dataDir, clientId) });
+          return;
+        }
+        if (method === "POST" && action === "rollback") {
+          const body = parseJsonObject(await readRequestBody(req, MAX_REQUEST_BYTES));
+          if (typeof body.captureId !== "string" || !body.captureId.trim()) {
+            throw new Error("captureId is required");
+          }
+          const record = await rollbackClientCapture(options.dataDir, clientId, body.captureId, { pin: body.pin === true });
+          console.log(`[server] client ${clientId} rolled back to ${record.captureId}${record.pinnedAt ? " (pinned)" : ""}`);
+          sendJson(res, 200, { ok: true, clientId, captureId: record.captureId, pinned: Boolean(record.pinnedAt) });
+          return;
+        }
+        if (method === "POST" && action === "unpin") {
+          const record = await unpinClientCapture(options.dataDir, clientId);
+          console.log(`[server] client ${clientId} unpinned, active capture ${record.captureId}`);
+          sendJson(res, 200, { ok: true, clientId, captureId: record.captureId, pinned: false });
+          return;
+        }
+        if (method === "POST" && action === "delete") {
+          const removed = await deleteClient(options.dataDir, clientId);
+          const revoked = await revokeClientTokens(options.dataDir, clientId);
+          staleNotified.delete(clientId);
+          console.log(
+            `[server] deleted client ${clientId} (${removed.history} history, ${removed.quarantined} quarantined, ${revoked.length} token(s) revoked)`
+          );
+          sendJson(res, 200, {
+            ok: true,
+            clientId,
+            deleted: true,
+            history: removed.history,
+            quarantined: removed.quarantined,
+            revokedTokens: revoked.map((record) => record.id)
+          });
+          return;
+        }
+        if (method === "POST" && (action === "rename" || action === "merge")) {
+          const body = parseJsonObject(await readRequestBody(req, MAX_REQUEST_BYTES));
+          const field = action === "rename" ? "to" : "into";
+          const target = body[field];
+          if (typeof target !== "string" || !target.trim()) {
+            throw new Error(`${field} is required`);
+          }
+          const moved = await moveClient(options.dataDir, clientId, target, { merge: action === "merge" });
+          const rebound = await rebindClientTokens(options.dataDir, clientId, moved.clientId);
+          staleNotified.delete(clientId);
+          console.log(`[server] ${action === "rename" ? "renamed client" : "merged client"} ${clientId} ${field} ${moved.clientId}`);
+          sendJson(res, 200, {
+            ok: true,
+            from: clientId,
+            clientId: moved.clientId,
+            captureId: moved.captureId,
+            history: moved.history,
+            quarantined: moved.quarantined,
+            reboundTokens: rebound.map((record) => record.id)
+          });
+          return;
+        }
+      }
+
+      if (method === "POST" && url.pathname === "/v1/submit") {
+        assertAdmin(await authenticate(req, options));
+        const raw = await readRequestBody(req, MAX_REQUEST_BYTES);
+        const body = raw.trim() ? parseJsonObject(raw) : {};
+        if (body.group !== undefined && (typeof body.group !== "string" || !body.group.trim())) {
+          throw new Error("group must be a non-empty string");
+        }
+        const group = typeof body.group === "string" ? body.group.trim() : null;
+        const { date, mode, combined, failure } = await submitNow(body.dryRun === true, group);
+        const result = {
+          date,
+          ...(group ? { group } : {}),
+          mode,
+          totalTokens: combined.payload.summary.totalTokens,
+          totalCost: combined.payload.summary.totalCost,
+          activeDays: combined.payload.summary.activeDays,
+          clients: combined.report.inputs
+        };
+        if (failure) {
+          const lastAttempt = failure.attempts[failure.attempts.length - 1];
+          sendJson(res, 502, {
+            error: lastAttempt?.error ?? "Submit failed",
+            ...result,
+            outbox: { state: failure.state, nextAttemptAt: failure.nextAttemptAt, attempts: failure.attempts }
+          });
+          return;
+        }
+        sendJson(res, 200, { ok: true, ...result, submissionId: mode === "submit" ? submitStatusOf(state, group).lastSubmissionId : null });
+        return;
+      }
+
+      if (method === "POST" && url.pathname === "/v1/reset-submitted") {
+        assertAdmin(await authenticate(req, options));
+        const raw = await readRequestBody(req, MAX_REQUEST_BYTES);
+        const body = raw.trim() ? parseJsonObject(raw) : {};
+        const date = body.date ?? null;
+        if (date !== null && (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+          throw new Error("date must be YYYY-MM-DD or null");
+        }
+        const previous = overallSubmitStatus(state, groupConfig).lastSubmittedDate;
+        // The schedule is shared, so re-running the latest slot resubmits every group.
+        state = { ...state, lastScheduledSlot: reopenLatestSlot(options.schedule, new Date()) };
+        let clearedOutbox = false;
+        for (const group of submitGroups) {
+          const name = group?.name ?? null;
+          state = withSubmitStatus(state, name, { lastSubmittedDate: date });
+          // A failed outbox entry would otherwise keep blocking the resubmit for its date.
+          if ((await readOutbox(options.dataDir, name))?.state === "failed") {
+            await clearOutbox(options.dataDir, name);
+            clearedOutbox = true;
+          }
+        }
+        await writeState(options.dataDir, state);
+        console.log(`[server] lastSubmittedDate reset from ${previous ?? "none"} to ${date ?? "none"}`);
+        sendJson(res, 200, { ok: true, previous, lastSubmittedDate: date, clearedOutbox });
+        return;
+      }
+
+      if (method === "POST" && url.pathname === "/v1/enroll") {
+        assertAdmin(await authenticate(req, options));
+        const body = parseJsonObject(await readRequestBody(req, MAX_REQUEST_BYTES));
+        if (typeof body.clientId !== "string" || !body.clientId.trim()) {
+          throw new Error("clientId is required");
+        }
+        const { record, token } = await issueClientToken(options.dataDir, body.clientId);
+        console.log(`[server] issued token ${record.id} for client ${record.clientId}`);
+        sendJson(res, 201, {
+          ok: true,
+          clientId: record.clientId,
+          tokenId: record.id,
+          token
+        });
+        return;
+      }
+
+      const quarantineRoute = url.pathname.match(/^\/v1\/clients\/([^/]+)\/quarantine\/([^/]+)\/(approve|reject)$/);
+      if (method === "POST" && quarantineRoute) {
+        assertAdmin(await authenticate(req, options));
+        const clientId = sanitizeClientId(decodeURIComponent(quarantineRoute[1]));
+        const captureId = decodeURIComponent(quarantineRoute[2]);
+        if (quarantineRoute[3] === "approve") {
+          const { record, pinned } = await approveQuarantinedCapture(options.dataDir, clientId, captureId, options.retention);
+          console.log(`[server] approved quarantined upload ${record.captureId} from ${clientId}`);
+          sendJson(res, 200, { ok: true, clientId, captureId, approved: true, pinned });
+          return;
+        }
+        await rejectQuarantinedCapture(options.dataDir, clientId, captureId);
+        console.log(`[server] rejected quarantined upload ${captureId} from ${clientId}`);
+        sendJson(res, 200, { ok: true, clientId, captureId, rejected: true });
+        return;
+      }
+
       sendJson(res, 404, { error: "Not found" });
     } catch (error) {
       const message = toErrorMessage(error);
-      const status = message === "Unauthorized" ? 401 : 400;
+      if (error instanceof PayloadValidationError) {
+        sendJson(res, 400, { error: message, issues: error.issues });
+        return;
+      }
+      if (error instanceof RateLimitError) {
+        res.setHeader("retry-after", String(error.retryAfterSeconds));
+        sendJson(res, 429, { error: message, reason: error.reason, retryAfterSeconds: error.retryAfterSeconds });
+        return;
+      }
+      const status = message === "Unauthorized" ? 401 : message === "Forbidden" ? 403 : 400;
       sendJson(res, status, { error: message });
     }
-  });
+  };
+
+  const httpsServer = options.tls ? createHttpsServer(await loadServerTlsMaterial(options.tls), handleRequest) : null;
+  const server = httpsServer ?? createServer(handleRequest);
+  const reloadTls = (): void => {
+    if (!httpsServer || !options.tls) return;
+    loadServerTlsMaterial(options.tls).then(
+      (material) => {
+        httpsServer.setSecureContext(material);
+        console.log("[server] reloaded TLS certificate");
+      },
+      (error) => console.error(`[server] TLS reload failed, keeping the previous certificate: ${toErrorMessage(error)}`)
+    );
+  };
+  if (httpsServer) process.on("SIGHUP", reloadTls);
 
   await new Promise<void>((resolve, reject) => {
     server.once("error", reject);
     server.listen(options.port, options.host, () => resolve());
   });
 
-  console.log(`[server] listening on http://${options.host}:${options.port}`);
-  void maybeSubmit();
-  const timer = setInterval(() => {
-    void maybeSubmit();
-  }, options.checkIntervalMs);
+  console.log(
+    `[server] listening on ${httpsServer ? "https" : "http"}://${options.host}:${options.port}${options.tls?.clientCaFile ? " (client certificates required)" : ""}`
+  );
+  let slotTimer: NodeJS.Timeout | null = null;
+  /**
+   * Wakes the submit loop exactly at the next slot, or at the deadline of a slot waiting for
+   * clients, when that falls before the next regular check.
+   */
+  const armSlotTimer = (): void => {
+    if (slotTimer) clearTimeout(slotTimer);
+    slotTimer = null;
+    const next = nextSubmitSlot(options.schedule, new Date());
+    const deadline = lastReadiness?.decision === "waiting" ? Date.parse(lastReadiness.deadline) : NaN;
+    const wakeAt = Math.min(next ? next.getTime() : Infinity, deadline > Date.now() ? deadline : Infinity);
+    const delayMs = wakeAt - Date.now();
+    if (delayMs > options.checkIntervalMs) return;
+    slotTimer = setTimeout(() => {
+      void maybeSubmit().finally(armSlotTimer);
+    }, delayMs);
+    slotTimer.unref();
+  };
+  const tick = (): void => {
+    uploadLimiter.prune();
+    void maybeSubmit().finally(armSlotTimer);
+    void checkStaleClients().catch((error) => console.error(`[server] stale client check failed: ${toErrorMessage(error)}`));
+  };
+  tick();
+  const timer = setInterval(tick, options.checkIntervalMs);
 
   await new Promise<void>((resolve) => {
     const stop = () => resolve();
@@ -369,5 +1191,8 @@ export async function runServer(options: ServerOptions): Promise<void> {
   });
 
   clearInterval(timer);
+  if (retryTimer) clearTimeout(retryTimer);
+  if (slotTimer) clearTimeout(slotTimer);
+  process.off("SIGHUP", reloadTls);
   await new Promise<void>((resolve) => server.close(() => resolve()));
 }
@@ -0,0 +1,49 @@
+import { randomBytes } from "node:crypto";
+
+export const DASHBOARD_SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Dashboard sign-ins kept in memory: the session cookie holds a random ID, never the
+ * admin token itself. Sessions end after `ttlMs`, on logout, or when the server restarts.
+ */
+export class DashboardSessions {
+  private readonly expiresAt = new Map<string, number>();
+  readonly ttlMs: number;
+
+  constructor(ttlMs = DASHBOARD_SESSION_TTL_MS) {
+    this.ttlMs = ttlMs;
+  }
+
+  /** Starts a session and returns its ID for the cookie. */
+  create(now = Date.now()): string {
+    this.prune(now);
+    const id = randomBytes(32).toString("base64url");
+    this.expiresAt.set(id, now + this.ttlMs);
+    return id;
+  }
+
+  isValid(id: string | null, now = Date.now()): boolean {
+    if (!id) return false;
+    const expiresAt = this.expiresAt.get(id);
+    if (expiresAt === undefined) return false;
+    if (expiresAt <= now) {
+      this.expiresAt.delete(id);
+      return false;
+    }
+    return true;
+  }
+
+  end(id: string | null): void {
+    if (id) this.expiresAt.delete(id);
+  }
+
+  get size(): number {
+    return this.expiresAt.size;
+  }
+
+  private prune(now: number): void {
+    for (const [id, expiresAt] of this.expiresAt) {
+      if (expiresAt <= now) this.expiresAt.delete(id);
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { recomputeDerivedFields, type DailyContribution, type SourceContribution, type TokenContributionData } from "./merge.js";
+
+export const SPLIT_KEYS = ["source", "provider", "year", "month"] as const;
+
+export type SplitKey = (typeof SPLIT_KEYS)[number];
+
+export function parseSplitKey(value: string): SplitKey {
+  const normalized = value.trim().toLowerCase();
+  const key = SPLIT_KEYS.find((item) => item === normalized);
+  if (!key) {
+    throw new Error(`Invalid split key: ${value} (expected one of ${SPLIT_KEYS.join(", ")})`);
+  }
+  return key;
+}
+
+function groupOf(by: SplitKey, date: string, row: SourceContribution): string {
+  if (by === "source") return row.source;
+  if (by === "provider") return row.providerId;
+  if (by === "year") return date.slice(0, 4);
+  return date.slice(0, 7);
+}
+
+/**
+ * Splits a payload into one standalone payload per group. Rows are copied unchanged;
+ * each part gets its own day totals, intensity, summary and years recomputed.
+ */
+export function splitPayload(payload: TokenContributionData, by: SplitKey): Map<string, TokenContributionData> {
+  const groups = new Map<string, Map<string, DailyContribution>>();
+  for (const day of payload.contributions ?? []) {
+    for (const row of day.sources ?? []) {
+      const group = groupOf(by, day.date, row);
+      let days = groups.get(group);
+      if (!days) {
+        days = new Map<string, DailyContribution>();
+        groups.set(group, days);
+      }
+      let target = days.get(day.date);
+      if (!target) {
+        target = { ...day, sources: [] };
+        days.set(day.date, target);
+      }
+      target.sources.push(row);
+    }
+  }
+
+  const parts = new Map<string, TokenContributionData>();
+  for (const group of [...groups.keys()].sort()) {
+    const contributions = [...(groups.get(group)?.values() ?? [])];
+    parts.set(group, recomputeDerivedFields({ ...payload, contributions }));
+  }
+  return parts;
+}
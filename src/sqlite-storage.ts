@@ -0,0 +1,190 @@
+import type { DatabaseSync } from "node:sqlite";
+import type { StoredClientCapture } from "./capture-store.js";
+import type { ProvenanceDocument } from "./merge.js";
+import type { CaptureKind, CaptureSummary, Storage } from "./storage.js";
+import type { SubmissionRecord } from "./submissions.js";
+
+/**
+ * Listings read the summary columns and `meta` (the capture without its payload);
+ * `payload` is only parsed when a capture is merged or read on its own.
+ */
+const CAPTURE_COLUMNS = `received_at TEXT NOT NULL,
+  captured_at TEXT NOT NULL,
+  total_tokens REAL NOT NULL,
+  total_cost REAL NOT NULL,
+  active_days INTEGER NOT NULL,
+  meta TEXT NOT NULL,
+  payload TEXT NOT NULL`;
+const CAPTURE_FIELDS = "received_at, captured_at, total_tokens, total_cost, active_days, meta, payload";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS clients (
+  client_id TEXT PRIMARY KEY,
+  ${CAPTURE_COLUMNS}
+);
+CREATE TABLE IF NOT EXISTS captures (
+  kind TEXT NOT NULL CHECK (kind IN ('history', 'quarantine')),
+  client_id TEXT NOT NULL,
+  capture_id TEXT NOT NULL,
+  ${CAPTURE_COLUMNS},
+  PRIMARY KEY (kind, client_id, capture_id)
+);
+CREATE TABLE IF NOT EXISTS submissions (
+  grp TEXT NOT NULL,
+  slot_key TEXT NOT NULL,
+  record TEXT NOT NULL,
+  provenance TEXT,
+  PRIMARY KEY (grp, slot_key)
+);
+CREATE TABLE IF NOT EXISTS state (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  data TEXT NOT NULL
+);
+`;
+
+type Row = Record<string, unknown>;
+
+/** Column values for a capture, in `CAPTURE_FIELDS` order. */
+function captureValues(record: StoredClientCapture): (string | number)[] {
+  const { payload, ...meta } = record;
+  return [
+    record.receivedAt,
+    record.capturedAt,
+    payload.summary?.totalTokens ?? 0,
+    payload.summary?.totalCost ?? 0,
+    payload.summary?.activeDays ?? 0,
+    JSON.stringify(meta),
+    JSON.stringify(payload)
+  ];
+}
+
+function parseCapture(row: Row): StoredClientCapture | null {
+  try {
+    const capture = { ...(JSON.parse(String(row.meta)) as Omit<StoredClientCapture, "payload">), payload: JSON.parse(String(row.payload)) };
+    return capture.clientId && capture.payload ? capture : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseSummary(row: Row): CaptureSummary | null {
+  try {
+    const meta = JSON.parse(String(row.meta)) as Omit<StoredClientCapture, "payload">;
+    if (!meta.clientId) return null;
+    return { ...meta, totalTokens: Number(row.total_tokens), totalCost: Number(row.total_cost), activeDays: Number(row.active_days) };
+  } catch {
+    return null;
+  }
+}
+
+function parseRows<T>(rows: Row[], parse: (row: Row) => T | null): T[] {
+  return rows.map(parse).filter((item): item is T => item !== null);
+}
+
+/** Ungrouped submissions are stored under the empty group name so the primary key stays non-null. */
+function groupKey(group: string | null): string {
+  return group ?? "";
+}
+
+async function loadDatabaseSync(): Promise<typeof DatabaseSync> {
+  try {
+    return (await import("node:sqlite")).DatabaseSync;
+  } catch {
+    throw new Error(`SQLite storage needs Node.js 22.13 or newer; node:sqlite is not available in ${process.version}`);
+  }
+}
+
+/**
+ * Opens (and creates if needed) the SQLite database of a data dir. Rows hold the same JSON
+ * the file layout would, with each capture's payload split from its metadata.
+ */
+export async function openSqliteStorage(file: string): Promise<Storage> {
+  const DatabaseSyncClass = await loadDatabaseSync();
+  const db = new DatabaseSyncClass(file);
+  let open = true;
+  db.exec("PRAGMA journal_mode = WAL; PRAGMA synchronous = NORMAL; PRAGMA busy_timeout = 5000;");
+  db.exec(SCHEMA);
+
+  const statements = {
+    readActive: db.prepare("SELECT meta, payload FROM clients WHERE client_id = ?"),
+    listActive: db.prepare("SELECT meta, payload FROM clients"),
+    readActiveSummary: db.prepare("SELECT meta, total_tokens, total_cost, active_days FROM clients WHERE client_id = ?"),
+    listActiveSummaries: db.prepare("SELECT meta, total_tokens, total_cost, active_days FROM clients"),
+    writeActive: db.prepare(`INSERT OR REPLACE INTO clients (client_id, ${CAPTURE_FIELDS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`),
+    deleteActive: db.prepare("DELETE FROM clients WHERE client_id = ?"),
+    listCaptureClients: db.prepare("SELECT DISTINCT client_id FROM captures WHERE kind = ?"),
+    listCaptures: db.prepare("SELECT meta, payload FROM captures WHERE kind = ? AND client_id = ?"),
+    listCaptureSummaries: db.prepare("SELECT meta, total_tokens, total_cost, active_days FROM captures WHERE kind = ? AND client_id = ?"),
+    readCapture: db.prepare("SELECT meta, payload FROM captures WHERE kind = ? AND client_id = ? AND capture_id = ?"),
+    writeCapture: db.prepare(`INSERT OR REPLACE INTO captures (kind, client_id, capture_id, ${CAPTURE_FIELDS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`),
+    deleteCapture: db.prepare("DELETE FROM captures WHERE kind = ? AND client_id = ? AND capture_id = ?"),
+    deleteCaptures: db.prepare("DELETE FROM captures WHERE kind = ? AND client_id = ?"),
+    writeSubmission: db.prepare("INSERT OR REPLACE INTO submissions (grp, slot_key, record, provenance) VALUES (?, ?, ?, ?)"),
+    listSubmissions: db.prepare("SELECT grp, slot_key FROM submissions"),
+    readSubmission: db.prepare("SELECT record, provenance FROM submissions WHERE grp = ? AND slot_key = ?"),
+    readState: db.prepare("SELECT data FROM state WHERE id = 1"),
+    writeState: db.prepare("INSERT OR REPLACE INTO state (id, data) VALUES (1, ?)")
+  };
+
+  return {
+    kind: "sqlite",
+    async readActiveCapture(clientId) {
+      const row = statements.readActive.get(clientId);
+      return row ? parseCapture(row) : null;
+    },
+    async readActiveCaptureSummary(clientId) {
+      const row = statements.readActiveSummary.get(clientId);
+      return row ? parseSummary(row) : null;
+    },
+    listActiveCaptures: async () => parseRows(statements.listActive.all(), parseCapture),
+    listActiveCaptureSummaries: async () => parseRows(statements.listActiveSummaries.all(), parseSummary),
+    async writeActiveCapture(record) {
+      statements.writeActive.run(record.clientId, ...captureValues(record));
+    },
+    async deleteActiveCapture(clientId) {
+      statements.deleteActive.run(clientId);
+    },
+    listCaptureClients: async (kind: CaptureKind) => statements.listCaptureClients.all(kind).map((row) => String(row.client_id)),
+    listCaptures: async (kind, clientId) => parseRows(statements.listCaptures.all(kind, clientId), parseCapture),
+    listCaptureSummaries: async (kind, clientId) => parseRows(statements.listCaptureSummaries.all(kind, clientId), parseSummary),
+    async readCapture(kind, clientId, captureId) {
+      const row = statements.readCapture.get(kind, clientId, captureId);
+      return row ? parseCapture(row) : null;
+    },
+    async writeCapture(kind, record) {
+      statements.writeCapture.run(kind, record.clientId, record.captureId as string, ...captureValues(record));
+    },
+    async deleteCapture(kind, clientId, captureId) {
+      statements.deleteCapture.run(kind, clientId, captureId);
+    },
+    async deleteCaptures(kind, clientId) {
+      statements.deleteCaptures.run(kind, clientId);
+    },
+    async writeSubmission(group, key, record, provenance) {
+      statements.writeSubmission.run(groupKey(group), key, JSON.stringify(record), provenance ? JSON.stringify(provenance) : null);
+    },
+    listSubmissions: async () =>
+      statements.listSubmissions.all().map((row) => ({ group: row.grp ? String(row.grp) : null, key: String(row.slot_key) })),
+    async readSubmission(group, key) {
+      const row = statements.readSubmission.get(groupKey(group), key);
+      if (!row) return null;
+      return {
+        record: JSON.parse(String(row.record)) as SubmissionRecord,
+        provenance: row.provenance === null ? null : (JSON.parse(String(row.provenance)) as ProvenanceDocument)
+      };
+    },
+    async readState<T>() {
+      const row = statements.readState.get();
+      return row ? (JSON.parse(String(row.data)) as T) : null;
+    },
+    async writeState(state) {
+      statements.writeState.run(JSON.stringify(state));
+    },
+    async close() {
+      // Tracked here because `DatabaseSync#isOpen` only exists from Node.js 22.15.
+      if (!open) return;
+      open = false;
+      db.close();
+    }
+  };
+}
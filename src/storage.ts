@@ -0,0 +1,309 @@
+import type { Dirent } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { StoredClientCapture } from "./capture-store.js";
+import {
+  clientsDir,
+  historyDir,
+  outboxFile,
+  quarantineDir,
+  readJsonFile,
+  stateFile,
+  storageDbFile,
+  submissionsDir,
+  tokensFile,
+  webhookLogFile,
+  writeJsonAtomic
+} from "./data-dir.js";
+import type { ProvenanceDocument } from "./merge.js";
+import { openSqliteStorage } from "./sqlite-storage.js";
+import type { SubmissionRecord } from "./submissions.js";
+
+const STORAGE_KINDS = ["json", "sqlite"] as const;
+
+export type StorageKind = (typeof STORAGE_KINDS)[number];
+/** Capture history and quarantine hold many captures per client; `clients` holds one active capture each. */
+export type CaptureKind = "history" | "quarantine";
+
+/** A stored capture without its payload, plus the payload totals that listings show. */
+export type CaptureSummary = Omit<StoredClientCapture, "payload"> & {
+  totalTokens: number;
+  totalCost: number;
+  activeDays: number;
+};
+
+export interface StoredSubmission {
+  record: SubmissionRecord;
+  provenance: ProvenanceDocument | null;
+}
+
+/**
+ * Where a data dir keeps client captures, submission records and server state. Tokens,
+ * the outbox and the webhook log stay plain files with either backend.
+ */
+export interface Storage {
+  readonly kind: StorageKind;
+  readActiveCapture(clientId: string): Promise<StoredClientCapture | null>;
+  readActiveCaptureSummary(clientId: string): Promise<CaptureSummary | null>;
+  /** Active captures of every client; unreadable entries are skipped. */
+  listActiveCaptures(): Promise<StoredClientCapture[]>;
+  /** Like `listActiveCaptures`, for callers that do not merge payloads. */
+  listActiveCaptureSummaries(): Promise<CaptureSummary[]>;
+  writeActiveCapture(record: StoredClientCapture): Promise<void>;
+  deleteActiveCapture(clientId: string): Promise<void>;
+  /** Client IDs with at least one capture of this kind. */
+  listCaptureClients(kind: CaptureKind): Promise<string[]>;
+  listCaptures(kind: CaptureKind, clientId: string): Promise<StoredClientCapture[]>;
+  listCaptureSummaries(kind: CaptureKind, clientId: string): Promise<CaptureSummary[]>;
+  readCapture(kind: CaptureKind, clientId: string, captureId: string): Promise<StoredClientCapture | null>;
+  writeCapture(kind: CaptureKind, record: StoredClientCapture): Promise<void>;
+  deleteCapture(kind: CaptureKind, clientId: string, captureId: string): Promise<void>;
+  deleteCaptures(kind: CaptureKind, clientId: string): Promise<void>;
+  /** Submission records are keyed by slot (see `submissionSlot`); records written before that use their date. */
+  writeSubmission(group: string | null, key: string, record: SubmissionRecord, provenance: ProvenanceDocument | null): Promise<void>;
+  listSubmissions(): Promise<{ group: string | null; key: string }[]>;
+  readSubmission(group: string | null, key: string): Promise<StoredSubmission | null>;
+  readState<T>(): Promise<T | null>;
+  writeState(state: unknown): Promise<void>;
+  close(): Promise<void>;
+}
+
+export function parseStorageKind(value: string): StorageKind {
+  const normalized = value.trim().toLowerCase();
+  const kind = STORAGE_KINDS.find((item) => item === normalized);
+  if (!kind) {
+    throw new Error(`Invalid storage backend: ${value} (expected one of ${STORAGE_KINDS.join(", ")})`);
+  }
+  return kind;
+}
+
+async function readDirEntries(dir: string): Promise<Dirent[]> {
+  try {
+    return await fs.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+async function readCaptureDir(dir: string): Promise<StoredClientCapture[]> {
+  const captures: StoredClientCapture[] = [];
+  for (const entry of await readDirEntries(dir)) {
+    if (!entry.isFile() || !entry.name.endsWith(".json")) continue;
+    try {
+      const content = await fs.readFile(path.join(dir, entry.name), "utf8");
+      const parsed = JSON.parse(content) as StoredClientCapture;
+      if (parsed && parsed.clientId && parsed.payload) captures.push(parsed);
+    } catch {
+      continue;
+    }
+  }
+  return captures;
+}
+
+export function summarizeCapture(capture: StoredClientCapture): CaptureSummary {
+  const { payload, ...rest } = capture;
+  return {
+    ...rest,
+    totalTokens: payload.summary?.totalTokens ?? 0,
+    totalCost: payload.summary?.totalCost ?? 0,
+    activeDays: payload.summary?.activeDays ?? 0
+  };
+}
+
+const RECORD_FILE = /^(\d{4}-\d{2}-\d{2}(?:T\d{6})?)\.json$/;
+
+function recordKeyOf(entry: Dirent): string | null {
+  return entry.isFile() ? (entry.name.match(RECORD_FILE)?.[1] ?? null) : null;
+}
+
+/** The original layout: one JSON file per active capture, history entry, submission and the state. */
+export function jsonStorage(dataDir: string): Storage {
+  const captureDir = (kind: CaptureKind) => (kind === "history" ? historyDir(dataDir) : quarantineDir(dataDir));
+  const captureFile = (kind: CaptureKind, clientId: string, captureId: string) => path.join(captureDir(kind), clientId, `${captureId}.json`);
+  const activeFile = (clientId: string) => path.join(clientsDir(dataDir), `${clientId}.json`);
+
+  return {
+    kind: "json",
+    readActiveCapture: (clientId) => readJsonFile<StoredClientCapture>(activeFile(clientId)),
+    async readActiveCaptureSummary(clientId) {
+      const capture = await readJsonFile<StoredClientCapture>(activeFile(clientId));
+      return capture ? summarizeCapture(capture) : null;
+    },
+    listActiveCaptures: () => readCaptureDir(clientsDir(dataDir)),
+    listActiveCaptureSummaries: async () => (await readCaptureDir(clientsDir(dataDir))).map(summarizeCapture),
+    writeActiveCapture: (record) => writeJsonAtomic(activeFile(record.clientId), record),
+    deleteActiveCapture: (clientId) => fs.rm(activeFile(clientId), { force: true }),
+    listCaptureClients: async (kind) => (await readDirEntries(captureDir(kind))).filter((entry) => entry.isDirectory()).map((entry) => entry.name),
+    listCaptures: (kind, clientId) => readCaptureDir(path.join(captureDir(kind), clientId)),
+    listCaptureSummaries: async (kind, clientId) => (await readCaptureDir(path.join(captureDir(kind), clientId))).map(summarizeCapture),
+    readCapture: (kind, clientId, captureId) => readJsonFile<StoredClientCapture>(captureFile(kind, clientId, captureId)),
+    writeCapture: (kind, record) => writeJsonAtomic(captureFile(kind, record.clientId, record.captureId as string), record),
+    deleteCapture: (kind, clientId, captureId) => fs.rm(captureFile(kind, clientId, captureId), { force: true }),
+    deleteCaptures: (kind, clientId) => fs.rm(path.join(captureDir(kind), clientId), { recursive: true, force: true }),
+    async writeSubmission(group, key, record, provenance) {
+      const dir = submissionsDir(dataDir, group);
+      await writeJsonAtomic(path.join(dir, `${key}.json`), record);
+      if (provenance) await writeJsonAtomic(path.join(dir, `${key}.provenance.json`), provenance);
+    },
+    async listSubmissions() {
+      const list: { group: string | null; key: string }[] = [];
+      const collect = (entries: Dirent[], group: string | null) => {
+        for (const entry of entries) {
+          const key = recordKeyOf(entry);
+          if (key) list.push({ group, key });
+        }
+      };
+      const top = await readDirEntries(submissionsDir(dataDir));
+      collect(top, null);
+      for (const dir of top.filter((entry) => entry.isDirectory())) {
+        collect(await readDirEntries(submissionsDir(dataDir, dir.name)), dir.name);
+      }
+      return list;
+    },
+    async readSubmission(group, key) {
+      const dir = submissionsDir(dataDir, group);
+      const record = await readJsonFile<SubmissionRecord>(path.join(dir, `${key}.json`));
+      if (!record) return null;
+      return { record, provenance: await readJsonFile<ProvenanceDocument>(path.join(dir, `${key}.provenance.json`)) };
+    },
+    readState: <T>() => readJsonFile<T>(stateFile(dataDir)),
+    writeState: (state) => writeJsonAtomic(stateFile(dataDir), state),
+    close: async () => {}
+  };
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** A data dir uses SQLite once its database file exists, so every tool picks the same backend. */
+export async function detectStorageKind(dataDir: string): Promise<StorageKind> {
+  return (await fileExists(storageDbFile(dataDir))) ? "sqlite" : "json";
+}
+
+const opened = new Map<string, Promise<Storage>>();
+
+/** Returns the backend of a data dir, opened once per process. */
+export function storageFor(dataDir: string): Promise<Storage> {
+  const key = path.resolve(dataDir);
+  let storage = opened.get(key);
+  if (!storage) {
+    storage = detectStorageKind(key).then((kind) => (kind === "sqlite" ? openSqliteStorage(storageDbFile(key)) : jsonStorage(key)));
+    opened.set(key, storage);
+    storage.catch(() => opened.delete(key));
+  }
+  return storage;
+}
+
+export async function closeStorage(dataDir: string): Promise<void> {
+  const key = path.resolve(dataDir);
+  const storage = opened.get(key);
+  opened.delete(key);
+  if (storage) await (await storage).close();
+}
+
+async function hasJsonData(dataDir: string): Promise<boolean> {
+  if (await fileExists(stateFile(dataDir))) return true;
+  return (await readDirEntries(clientsDir(dataDir))).some((entry) => entry.isFile() && entry.name.endsWith(".json"));
+}
+
+/**
+ * Opens the backend the server was asked for. A fresh data dir can start on SQLite directly;
+ * one that already holds JSON data has to be imported with `--migrate-storage` first.
+ */
+export async function prepareStorage(dataDir: string, requested: StorageKind | null): Promise<Storage> {
+  const detected = await detectStorageKind(dataDir);
+  if (requested === "json" && detected === "sqlite") {
+    throw new Error(`Data dir ${path.resolve(dataDir)} uses SQLite storage (${path.basename(storageDbFile(dataDir))}); drop --storage json`);
+  }
+  if (requested === "sqlite" && detected === "json") {
+    if (await hasJsonData(dataDir)) {
+      throw new Error(`Data dir ${path.resolve(dataDir)} holds JSON data; import it first with --migrate-storage ${dataDir}`);
+    }
+    await fs.mkdir(dataDir, { recursive: true });
+    await (await openSqliteStorage(storageDbFile(dataDir))).close();
+  }
+  return storageFor(dataDir);
+}
+
+export interface MigrationSummary {
+  database: string;
+  clients: number;
+  history: number;
+  quarantined: number;
+  submissions: number;
+  state: boolean;
+  /** Files copied as-is because both backends keep them outside the database. */
+  copiedFiles: string[];
+}
+
+/**
+ * Imports a JSON data dir into a new SQLite database in `targetDir` (the same dir by default).
+ * The JSON files are left untouched; once the database exists they are no longer read.
+ */
+export async function migrateToSqlite(sourceDir: string, targetDir = sourceDir): Promise<MigrationSummary> {
+  if ((await detectStorageKind(sourceDir)) !== "json") {
+    throw new Error(`Data dir ${path.resolve(sourceDir)} already uses SQLite storage`);
+  }
+  if (!(await hasJsonData(sourceDir))) {
+    throw new Error(`No tk-proxy data found in ${path.resolve(sourceDir)}`);
+  }
+  const database = path.resolve(storageDbFile(targetDir));
+  if (await fileExists(database)) {
+    throw new Error(`SQLite database already exists: ${database}`);
+  }
+
+  const source = jsonStorage(sourceDir);
+  await fs.mkdir(targetDir, { recursive: true });
+  const target = await openSqliteStorage(database);
+  const summary: MigrationSummary = { database, clients: 0, history: 0, quarantined: 0, submissions: 0, state: false, copiedFiles: [] };
+  try {
+    for (const capture of await source.listActiveCaptures()) {
+      await target.writeActiveCapture(capture);
+      summary.clients += 1;
+    }
+    for (const kind of ["history", "quarantine"] as const) {
+      for (const clientId of await source.listCaptureClients(kind)) {
+        for (const capture of await source.listCaptures(kind, clientId)) {
+          if (!capture.captureId) continue;
+          await target.writeCapture(kind, capture);
+          if (kind === "history") summary.history += 1;
+          else summary.quarantined += 1;
+        }
+      }
+    }
+    for (const { group, key } of await source.listSubmissions()) {
+      const stored = await source.readSubmission(group, key);
+      if (!stored) continue;
+      await target.writeSubmission(group, key, stored.record, stored.provenance);
+      summary.submissions += 1;
+    }
+    const state = await source.readState<unknown>();
+    if (state) {
+      await target.writeState(state);
+      summary.state = true;
+    }
+    await target.close();
+  } catch (error) {
+    await target.close();
+    await Promise.all(["", "-wal", "-shm"].map((suffix) => fs.rm(`${database}${suffix}`, { force: true })));
+    throw error;
+  }
+
+  if (path.resolve(targetDir) !== path.resolve(sourceDir)) {
+    for (const file of [tokensFile(sourceDir), outboxFile(sourceDir), path.join(sourceDir, "outbox"), webhookLogFile(sourceDir)]) {
+      if (!(await fileExists(file))) continue;
+      await fs.cp(file, path.join(targetDir, path.basename(file)), { recursive: true, errorOnExist: true, force: false });
+      summary.copiedFiles.push(path.basename(file));
+    }
+  }
+  // A backend opened earlier in this process still points at the JSON files.
+  await closeStorage(targetDir);
+  return summary;
+}
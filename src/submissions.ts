@@ -0,0 +1,102 @@
+import type { CombineResult, MergeReport, TokenContributionData } from "./merge.js";
+import type { SubmitAttempt } from "./outbox.js";
+import type { ReadinessReport } from "./readiness.js";
+import type { SubmissionSlot } from "./schedule.js";
+import { storageFor } from "./storage.js";
+
+const SUBMISSION_SCHEMA = "tk-proxy-submission.v1";
+
+export interface SubmitResult {
+  mode: "dry-run" | "submit";
+  response: unknown;
+}
+
+export interface SubmissionRecord {
+  schemaVersion: string;
+  /** Schedule-zone date of the slot; the record itself is keyed by `slotKey`. */
+  submittedDate: string;
+  /** Absent on records written before records were keyed by slot. */
+  slotKey?: string;
+  createdAt: string;
+  result: SubmitResult;
+  /** Every attempt made through the outbox, including the final successful one. */
+  attempts?: SubmitAttempt[];
+  /** Readiness gate decision, including the expected clients that had not uploaded. */
+  readiness?: ReadinessReport;
+  /** Client group the record was submitted for; absent when no groups are configured. */
+  group?: string;
+  merge: MergeReport;
+  payload: TokenContributionData;
+}
+
+export interface SubmissionHistoryEntry {
+  slotKey: string;
+  submittedDate: string;
+  createdAt: string;
+  mode: SubmitResult["mode"];
+  submissionId: string | null;
+  totalTokens: number;
+  totalCost: number;
+  clients: string[];
+  group: string | null;
+}
+
+export async function writeSubmissionRecord(
+  dataDir: string,
+  slot: SubmissionSlot,
+  combined: CombineResult,
+  submitResult: SubmitResult,
+  extras: { attempts?: SubmitAttempt[]; readiness?: ReadinessReport; group?: string } = {}
+): Promise<void> {
+  const { attempts, readiness, group } = extras;
+  const record: SubmissionRecord = {
+    schemaVersion: SUBMISSION_SCHEMA,
+    submittedDate: slot.date,
+    slotKey: slot.key,
+    createdAt: new Date().toISOString(),
+    result: submitResult,
+    ...(attempts ? { attempts } : {}),
+    ...(readiness ? { readiness } : {}),
+    ...(group ? { group } : {}),
+    merge: combined.report,
+    payload: combined.payload
+  };
+  await (await storageFor(dataDir)).writeSubmission(group ?? null, slot.key, record, combined.provenance);
+}
+
+function submissionIdOf(response: unknown): string | null {
+  if (!response || typeof response !== "object") return null;
+  const id = (response as { submissionId?: unknown }).submissionId;
+  return typeof id === "string" ? id : null;
+}
+
+/** Lists stored submissions of every client group, newest slot first. Unreadable records are skipped. */
+export async function readSubmissionHistory(dataDir: string, limit = Infinity): Promise<SubmissionHistoryEntry[]> {
+  const store = await storageFor(dataDir);
+  const stored = await store.listSubmissions();
+  stored.sort((a, b) => b.key.localeCompare(a.key) || (a.group ?? "").localeCompare(b.group ?? ""));
+
+  const history: SubmissionHistoryEntry[] = [];
+  for (const { key, group } of stored) {
+    if (history.length >= limit) break;
+    let record: SubmissionRecord | null;
+    try {
+      record = (await store.readSubmission(group, key))?.record ?? null;
+    } catch {
+      continue;
+    }
+    if (!record?.result) continue;
+    history.push({
+      slotKey: key,
+      submittedDate: record.submittedDate,
+      createdAt: record.createdAt,
+      mode: record.result.mode,
+      submissionId: submissionIdOf(record.result.response),
+      totalTokens: record.payload?.summary?.totalTokens ?? 0,
+      totalCost: record.payload?.summary?.totalCost ?? 0,
+      clients: record.merge?.inputs ?? [],
+      group
+    });
+  }
+  return history;
+}
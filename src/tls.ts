@@ -0,0 +1,85 @@
+import fs from "node:fs/promises";
+import http from "node:http";
+import https from "node:https";
+
+export interface ServerTlsOptions {
+  certFile: string;
+  keyFile: string;
+  /** When set, clients must present a certificate signed by this CA (mutual TLS). */
+  clientCaFile: string | null;
+}
+
+/** TLS files for outgoing requests; every field is optional. */
+export interface ClientTlsOptions {
+  /** Extra CA trusted for the server certificate, e.g. a self-signed deployment. */
+  caFile: string | null;
+  certFile: string | null;
+  keyFile: string | null;
+}
+
+export interface ServerTlsMaterial {
+  cert: Buffer;
+  key: Buffer;
+  ca?: Buffer;
+  requestCert: boolean;
+  rejectUnauthorized: boolean;
+}
+
+export interface HttpResponse {
+  status: number;
+  text: string;
+}
+
+async function readTlsFile(filePath: string, label: string): Promise<Buffer> {
+  try {
+    return await fs.readFile(filePath);
+  } catch (error) {
+    throw new Error(`Cannot read ${label} ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+/** Reads the server certificate, key and optional client CA; called at startup and on every SIGHUP. */
+export async function loadServerTlsMaterial(options: ServerTlsOptions): Promise<ServerTlsMaterial> {
+  const cert = await readTlsFile(options.certFile, "TLS certificate");
+  const key = await readTlsFile(options.keyFile, "TLS key");
+  if (!options.clientCaFile) {
+    return { cert, key, requestCert: false, rejectUnauthorized: false };
+  }
+  const ca = await readTlsFile(options.clientCaFile, "client CA");
+  return { cert, key, ca, requestCert: true, rejectUnauthorized: true };
+}
+
+async function loadClientTlsMaterial(options: ClientTlsOptions): Promise<https.RequestOptions> {
+  return {
+    ...(options.caFile ? { ca: await readTlsFile(options.caFile, "CA certificate") } : {}),
+    ...(options.certFile ? { cert: await readTlsFile(options.certFile, "client certificate") } : {}),
+    ...(options.keyFile ? { key: await readTlsFile(options.keyFile, "client key") } : {})
+  };
+}
+
+/**
+ * Sends one request over http or https. Unlike `fetch`, this accepts a custom CA and a
+ * client certificate; TLS files are re-read on each call so rotated certificates apply.
+ */
+export async function sendHttpRequest(
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: string; timeoutMs: number; tls: ClientTlsOptions }
+): Promise<HttpResponse> {
+  const target = new URL(url);
+  const secure = target.protocol === "https:";
+  const tlsOptions = secure ? await loadClientTlsMaterial(init.tls) : {};
+  return new Promise<HttpResponse>((resolve, reject) => {
+    const request = (secure ? https : http).request(
+      target,
+      { method: init.method, headers: init.headers, signal: AbortSignal.timeout(init.timeoutMs), ...tlsOptions },
+      (response) => {
+        const chunks: Buffer[] = [];
+        response.on("data", (chunk: Buffer) => chunks.push(chunk));
+        response.on("error", reject);
+        response.on("end", () => resolve({ status: response.statusCode ?? 0, text: Buffer.concat(chunks).toString("utf8") }));
+      }
+    );
+    request.on("error", reject);
+    request.end(init.body);
+  });
+}
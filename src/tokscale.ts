@@ -16,6 +16,13 @@ interface TokscaleCredentials {
   username: string;
 }
 
+/** Where and as whom to submit; unset fields fall back to the local tokscale login and `TOKSCALE_API_URL`. */
+export interface TokscaleAccount {
+  token?: string | null;
+  credentialsFile?: string | null;
+  apiUrl?: string | null;
+}
+
 export interface TokscaleSubmitResponse {
   submissionId?: string;
   metrics?: {
@@ -25,6 +32,17 @@ export interface TokscaleSubmitResponse {
   raw?: string;
 }
 
+/** Non-2xx response from the tokscale submit API; `status` drives retry decisions. */
+export class TokscaleSubmitError extends Error {
+  readonly status: number;
+
+  constructor(status: number, body: TokscaleSubmitResponse) {
+    super(`Submission failed (${status}): ${JSON.stringify(body)}`);
+    this.name = "TokscaleSubmitError";
+    this.status = status;
+  }
+}
+
 export function safeParseJson<T = unknown>(value: string): T | null {
   try {
     return JSON.parse(value) as T;
@@ -92,8 +110,9 @@ export async function runTokscaleGraph(extraArgs: string[] = []): Promise<TokenC
   return parsed;
 }
 
-export async function readTokscaleCredentials(): Promise<TokscaleCredentials> {
-  const credentialsPath = path.join(os.homedir(), ".config", "tokscale", "credentials.json");
+export async function readTokscaleCredentials(
+  credentialsPath = path.join(os.homedir(), ".config", "tokscale", "credentials.json")
+): Promise<TokscaleCredentials> {
   const content = await fs.readFile(credentialsPath, "utf8");
   const credentials = safeParseJson<{ token?: string; username?: string }>(content);
   if (!credentials?.token || !credentials?.username) {
@@ -103,15 +122,16 @@ export async function readTokscaleCredentials(): Promise<TokscaleCredentials> {
 }
 
 export async function submitToTokscale(
-  payload: TokenContributionData
+  payload: TokenContributionData,
+  account: TokscaleAccount = {}
 ): Promise<{ response: TokscaleSubmitResponse; status: number }> {
-  const credentials = await readTokscaleCredentials();
-  const baseUrl = process.env.TOKSCALE_API_URL || "https://tokscale.ai";
+  const token = account.token ?? (await readTokscaleCredentials(account.credentialsFile ?? undefined)).token;
+  const baseUrl = account.apiUrl || process.env.TOKSCALE_API_URL || "https://tokscale.ai";
   const httpResponse = await fetch(`${baseUrl}/api/submit`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
-      Authorization: `Bearer ${credentials.token}`
+      Authorization: `Bearer ${token}`
     },
     body: JSON.stringify(payload)
   });
@@ -119,7 +139,7 @@ export async function submitToTokscale(
   const text = await httpResponse.text();
   const response = safeParseJson<TokscaleSubmitResponse>(text) ?? { raw: text };
   if (!httpResponse.ok) {
-    throw new Error(`Submission failed (${httpResponse.status}): ${JSON.stringify(response)}`);
+    throw new TokscaleSubmitError(httpResponse.status, response);
   }
   return { response, status: httpResponse.status };
 }
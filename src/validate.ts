@@ -0,0 +1,343 @@
+export const VALIDATION_MODES = ["strict", "lenient"] as const;
+
+export type ValidationMode = (typeof VALIDATION_MODES)[number];
+
+export interface ValidationIssue {
+  /** JSON pointer (RFC 6901) to the offending value, e.g. `/contributions/3/sources/0/tokens/input`. */
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+export class PayloadValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(label: string, issues: ValidationIssue[]) {
+    super(`${label} failed validation: ${formatIssues(issues, 5)}`);
+    this.name = "PayloadValidationError";
+    this.issues = issues;
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TOKEN_FIELDS = ["input", "output", "cacheRead", "cacheWrite", "reasoning"] as const;
+const SUMMARY_NUMBER_FIELDS = ["totalTokens", "totalCost", "totalDays", "activeDays", "averagePerDay", "maxCostInSingleDay"] as const;
+const COST_TOLERANCE = 1e-6;
+
+type Segment = string | number;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+export function toJsonPointer(segments: Segment[]): string {
+  return segments.map((segment) => `/${String(segment).replace(/~/g, "~0").replace(/\//g, "~1")}`).join("");
+}
+
+export function parseValidationMode(value: string): ValidationMode {
+  const normalized = value.trim().toLowerCase();
+  const mode = VALIDATION_MODES.find((item) => item === normalized);
+  if (!mode) {
+    throw new Error(`Invalid validation mode: ${value} (expected one of ${VALIDATION_MODES.join(", ")})`);
+  }
+  return mode;
+}
+
+export function formatIssues(issues: ValidationIssue[], limit = issues.length): string {
+  const shown = issues.slice(0, limit).map((issue) => `${issue.path || "/"}: ${issue.message}`);
+  if (issues.length > limit) shown.push(`... and ${issues.length - limit} more`);
+  return shown.join("; ");
+}
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00.000Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
+
+function nearlyEqual(a: number, b: number): boolean {
+  return Math.abs(a - b) <= COST_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+class Collector {
+  readonly errors: ValidationIssue[] = [];
+  readonly warnings: ValidationIssue[] = [];
+
+  constructor(private readonly mode: ValidationMode) {}
+
+  error(path: Segment[], message: string): void {
+    this.errors.push({ path: toJsonPointer(path), message });
+  }
+
+  /** Problems that lenient mode tolerates (derived fields, optional data); strict mode rejects them. */
+  soft(path: Segment[], message: string): void {
+    const issue = { path: toJsonPointer(path), message };
+    if (this.mode === "strict") this.errors.push(issue);
+    else this.warnings.push(issue);
+  }
+
+  number(value: unknown, path: Segment[], { integer = false } = {}): number | null {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      if (value === undefined) this.soft(path, "is missing");
+      else this.error(path, `must be a finite number, got ${JSON.stringify(value)}`);
+      return null;
+    }
+    if (value < 0) {
+      this.error(path, `must not be negative, got ${value}`);
+      return null;
+    }
+    if (integer && !Number.isInteger(value)) {
+      this.error(path, `must be an integer, got ${value}`);
+      return null;
+    }
+    return value;
+  }
+
+  string(value: unknown, path: Segment[]): string | null {
+    if (typeof value !== "string" || !value.trim()) {
+      this.error(path, "must be a non-empty string");
+      return null;
+    }
+    return value;
+  }
+
+  date(value: unknown, path: Segment[]): string | null {
+    if (typeof value !== "string" || !isValidDate(value)) {
+      this.error(path, `must be a calendar date in YYYY-MM-DD format, got ${JSON.stringify(value)}`);
+      return null;
+    }
+    return value;
+  }
+}
+
+function validateTokens(c: Collector, value: unknown, path: Segment[]): number | null {
+  if (!isObject(value)) {
+    c.error(path, "must be an object of token counts");
+    return null;
+  }
+  let total = 0;
+  let complete = true;
+  for (const field of TOKEN_FIELDS) {
+    const count = c.number(value[field], [...path, field], { integer: true });
+    if (count === null) complete = false;
+    else total += count;
+  }
+  return complete ? total : null;
+}
+
+function validateMeta(c: Collector, meta: unknown): void {
+  if (!isObject(meta)) {
+    c.error(["meta"], "must be an object");
+    return;
+  }
+  c.string(meta.generatedAt, ["meta", "generatedAt"]);
+  c.string(meta.version, ["meta", "version"]);
+  if (!isObject(meta.dateRange)) {
+    c.error(["meta", "dateRange"], "must be an object with start and end dates");
+    return;
+  }
+  const start = c.date(meta.dateRange.start, ["meta", "dateRange", "start"]);
+  const end = c.date(meta.dateRange.end, ["meta", "dateRange", "end"]);
+  if (start && end && start > end) {
+    c.error(["meta", "dateRange"], `start ${start} is after end ${end}`);
+  }
+}
+
+function validateSummaryShape(c: Collector, summary: unknown): Record<string, unknown> | null {
+  if (!isObject(summary)) {
+    c.error(["summary"], "must be an object");
+    return null;
+  }
+  for (const field of SUMMARY_NUMBER_FIELDS) {
+    c.number(summary[field], ["summary", field], { integer: field === "totalTokens" || field.endsWith("Days") });
+  }
+  for (const field of ["sources", "models"] as const) {
+    const list = summary[field];
+    if (!Array.isArray(list) || list.some((item) => typeof item !== "string")) {
+      c.error(["summary", field], "must be an array of strings");
+    }
+  }
+  return summary;
+}
+
+function validateYears(c: Collector, years: unknown): void {
+  if (years === undefined) {
+    c.soft(["years"], "is missing");
+    return;
+  }
+  if (!Array.isArray(years)) {
+    c.error(["years"], "must be an array");
+    return;
+  }
+  years.forEach((year, index) => {
+    if (!isObject(year)) {
+      c.error(["years", index], "must be an object");
+      return;
+    }
+    if (typeof year.year !== "string" || !/^\d{4}$/.test(year.year)) {
+      c.error(["years", index, "year"], `must be a four-digit year string, got ${JSON.stringify(year.year)}`);
+    }
+    c.number(year.totalTokens, ["years", index, "totalTokens"], { integer: true });
+    c.number(year.totalCost, ["years", index, "totalCost"]);
+    if (!isObject(year.range)) {
+      c.error(["years", index, "range"], "must be an object with start and end dates");
+      return;
+    }
+    c.date(year.range.start, ["years", index, "range", "start"]);
+    c.date(year.range.end, ["years", index, "range", "end"]);
+  });
+}
+
+function validateDay(c: Collector, day: unknown, index: number): { tokens: number; cost: number } | null {
+  const path: Segment[] = ["contributions", index];
+  if (!isObject(day)) {
+    c.error(path, "must be an object");
+    return null;
+  }
+  c.date(day.date, [...path, "date"]);
+
+  let totals: { tokens: number | null; cost: number | null; messages: number | null } = { tokens: null, cost: null, messages: null };
+  if (!isObject(day.totals)) {
+    c.error([...path, "totals"], "must be an object with tokens, cost and messages");
+  } else {
+    totals = {
+      tokens: c.number(day.totals.tokens, [...path, "totals", "tokens"], { integer: true }),
+      cost: c.number(day.totals.cost, [...path, "totals", "cost"]),
+      messages: c.number(day.totals.messages, [...path, "totals", "messages"], { integer: true })
+    };
+  }
+
+  const intensity = c.number(day.intensity, [...path, "intensity"], { integer: true });
+  if (intensity !== null && intensity > 4) {
+    c.soft([...path, "intensity"], `must be between 0 and 4, got ${intensity}`);
+  }
+  const breakdownTotal = validateTokens(c, day.tokenBreakdown, [...path, "tokenBreakdown"]);
+
+  if (!Array.isArray(day.sources)) {
+    c.error([...path, "sources"], "must be an array");
+    return null;
+  }
+
+  const seen = new Map<string, number>();
+  let rowTokens = 0;
+  let rowCost = 0;
+  let rowMessages = 0;
+  let rowsComplete = true;
+  day.sources.forEach((row, rowIndex) => {
+    const rowPath = [...path, "sources", rowIndex];
+    if (!isObject(row)) {
+      c.error(rowPath, "must be an object");
+      rowsComplete = false;
+      return;
+    }
+    const source = c.string(row.source, [...rowPath, "source"]);
+    const modelId = c.string(row.modelId, [...rowPath, "modelId"]);
+    const providerId = c.string(row.providerId, [...rowPath, "providerId"]);
+    if (source && modelId && providerId) {
+      const key = `${source}\u0001${modelId}\u0001${providerId}`;
+      const first = seen.get(key);
+      if (first !== undefined) {
+        c.soft(rowPath, `duplicates row ${toJsonPointer([...path, "sources", first])} (${source}/${modelId}/${providerId})`);
+      } else {
+        seen.set(key, rowIndex);
+      }
+    }
+    const tokens = validateTokens(c, row.tokens, [...rowPath, "tokens"]);
+    const cost = c.number(row.cost, [...rowPath, "cost"]);
+    const messages = c.number(row.messages, [...rowPath, "messages"], { integer: true });
+    if (tokens === null || cost === null || messages === null) {
+      rowsComplete = false;
+      return;
+    }
+    rowTokens += tokens;
+    rowCost += cost;
+    rowMessages += messages;
+  });
+
+  if (rowsComplete) {
+    if (totals.tokens !== null && totals.tokens !== rowTokens) {
+      c.soft([...path, "totals", "tokens"], `is ${totals.tokens} but sources sum to ${rowTokens}`);
+    }
+    if (breakdownTotal !== null && breakdownTotal !== rowTokens) {
+      c.soft([...path, "tokenBreakdown"], `sums to ${breakdownTotal} but sources sum to ${rowTokens}`);
+    }
+    if (totals.cost !== null && !nearlyEqual(totals.cost, rowCost)) {
+      c.soft([...path, "totals", "cost"], `is ${totals.cost} but sources sum to ${rowCost}`);
+    }
+    if (totals.messages !== null && totals.messages !== rowMessages) {
+      c.soft([...path, "totals", "messages"], `is ${totals.messages} but sources sum to ${rowMessages}`);
+    }
+  }
+  if (totals.tokens === null || totals.cost === null) return null;
+  return { tokens: totals.tokens, cost: totals.cost };
+}
+
+/**
+ * Deep-validates a tokscale contribution payload. Structural problems (wrong types,
+ * bad dates, negative or non-integer counts) are always errors; inconsistent derived
+ * fields, duplicate rows and missing optional data are warnings in lenient mode and
+ * errors in strict mode.
+ */
+export function validateTokenContributionData(value: unknown, mode: ValidationMode = "lenient"): ValidationResult {
+  const c = new Collector(mode);
+  if (!isObject(value)) {
+    c.error([], "payload must be a JSON object");
+    return { valid: false, errors: c.errors, warnings: c.warnings };
+  }
+
+  validateMeta(c, value.meta);
+  const summary = validateSummaryShape(c, value.summary);
+  validateYears(c, value.years);
+
+  if (!Array.isArray(value.contributions)) {
+    c.error(["contributions"], "must be an array");
+    return { valid: false, errors: c.errors, warnings: c.warnings };
+  }
+
+  const seenDates = new Map<string, number>();
+  let totalTokens = 0;
+  let totalCost = 0;
+  let totalsComplete = true;
+  value.contributions.forEach((day, index) => {
+    const date = isObject(day) && typeof day.date === "string" ? day.date : null;
+    if (date !== null) {
+      const first = seenDates.get(date);
+      if (first !== undefined) {
+        c.soft(["contributions", index, "date"], `duplicates ${toJsonPointer(["contributions", first])} (${date})`);
+      } else {
+        seenDates.set(date, index);
+      }
+    }
+    const totals = validateDay(c, day, index);
+    if (!totals) {
+      totalsComplete = false;
+      return;
+    }
+    totalTokens += totals.tokens;
+    totalCost += totals.cost;
+  });
+
+  if (summary && totalsComplete) {
+    if (typeof summary.totalTokens === "number" && summary.totalTokens !== totalTokens) {
+      c.soft(["summary", "totalTokens"], `is ${summary.totalTokens} but contributions sum to ${totalTokens}`);
+    }
+    if (typeof summary.totalCost === "number" && !nearlyEqual(summary.totalCost, totalCost)) {
+      c.soft(["summary", "totalCost"], `is ${summary.totalCost} but contributions sum to ${totalCost}`);
+    }
+  }
+
+  return { valid: c.errors.length === 0, errors: c.errors, warnings: c.warnings };
+}
+
+export function assertValidPayload(value: unknown, label: string, mode: ValidationMode = "lenient"): ValidationResult {
+  const result = validateTokenContributionData(value, mode);
+  if (!result.valid) {
+    throw new PayloadValidationError(label, result.errors);
+  }
+  return result;
+}
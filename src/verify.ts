@@ -0,0 +1,142 @@
+import { recomputeDerivedFields, TOKEN_FIELDS, type DailyContribution, type TokenContributionData } from "./merge.js";
+import { toJsonPointer } from "./validate.js";
+
+export interface VerifyMismatch {
+  /** JSON pointer to the stored value, e.g. `/contributions/4/totals/tokens`. */
+  path: string;
+  /** Contribution date for day-level fields, null for meta/summary/years. */
+  date: string | null;
+  /** Field name relative to its day, year or payload, e.g. `totals.tokens` or `summary.totalCost`. */
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface VerifyResult {
+  ok: boolean;
+  mismatches: VerifyMismatch[];
+  fixed: TokenContributionData;
+}
+
+const FLOAT_TOLERANCE = 1e-9;
+
+function sameValue(expected: unknown, actual: unknown): boolean {
+  if (typeof expected === "number" && typeof actual === "number") {
+    return Math.abs(expected - actual) <= FLOAT_TOLERANCE * Math.max(1, Math.abs(expected), Math.abs(actual));
+  }
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    return JSON.stringify([...expected].sort()) === JSON.stringify([...actual].sort());
+  }
+  return expected === actual;
+}
+
+function readPath(value: unknown, segments: (string | number)[]): unknown {
+  let current = value;
+  for (const segment of segments) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+function dayFields(): string[][] {
+  return [
+    ["totals", "tokens"],
+    ["totals", "cost"],
+    ["totals", "messages"],
+    ...TOKEN_FIELDS.map((field) => ["tokenBreakdown", field]),
+    ["intensity"]
+  ];
+}
+
+/**
+ * Recomputes every derived field from the payload's source rows and reports each
+ * stored value that disagrees. `fixed` holds the payload with derived fields rewritten.
+ */
+export function verifyPayload(payload: TokenContributionData): VerifyResult {
+  const fixed = recomputeDerivedFields(payload);
+  const mismatches: VerifyMismatch[] = [];
+  const check = (segments: (string | number)[], date: string | null, field: string, expected: unknown): void => {
+    const actual = readPath(payload, segments);
+    if (!sameValue(expected, actual)) {
+      mismatches.push({ path: toJsonPointer(segments), date, field, expected, actual: actual ?? null });
+    }
+  };
+
+  check(["meta", "dateRange", "start"], null, "meta.dateRange.start", fixed.meta.dateRange.start);
+  check(["meta", "dateRange", "end"], null, "meta.dateRange.end", fixed.meta.dateRange.end);
+  for (const [key, expected] of Object.entries(fixed.summary)) {
+    check(["summary", key], null, `summary.${key}`, expected);
+  }
+
+  const storedYears = Array.isArray(payload.years) ? payload.years : [];
+  for (const year of fixed.years) {
+    const index = storedYears.findIndex((item) => item?.year === year.year);
+    if (index === -1) {
+      mismatches.push({ path: toJsonPointer(["years"]), date: null, field: `years.${year.year}`, expected: year, actual: null });
+      continue;
+    }
+    check(["years", index, "totalTokens"], null, `years.${year.year}.totalTokens`, year.totalTokens);
+    check(["years", index, "totalCost"], null, `years.${year.year}.totalCost`, year.totalCost);
+    check(["years", index, "range", "start"], null, `years.${year.year}.range.start`, year.range.start);
+    check(["years", index, "range", "end"], null, `years.${year.year}.range.end`, year.range.end);
+  }
+  storedYears.forEach((year, index) => {
+    if (!fixed.years.some((item) => item.year === year?.year)) {
+      mismatches.push({ path: toJsonPointer(["years", index]), date: null, field: `years.${year?.year}`, expected: null, actual: year });
+    }
+  });
+
+  const expectedByDate = new Map<string, DailyContribution>(fixed.contributions.map((day) => [day.date, day]));
+  (payload.contributions ?? []).forEach((day, index) => {
+    const expected = expectedByDate.get(day.date);
+    if (!expected) return;
+    for (const segments of dayFields()) {
+      check(["contributions", index, ...segments], day.date, segments.join("."), readPath(expected, segments));
+    }
+  });
+
+  return { ok: mismatches.length === 0, mismatches, fixed };
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.join(", ")}]`;
+  if (value !== null && typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function formatVerifyReport(result: VerifyResult): string {
+  if (result.ok) return "OK: all derived fields match the contribution rows.";
+
+  const lines: string[] = [`Found ${result.mismatches.length} mismatched derived field(s).`];
+  const payloadLevel = result.mismatches.filter((item) => item.date === null);
+  if (payloadLevel.length > 0) {
+    lines.push("", "Payload fields:");
+    for (const item of payloadLevel) {
+      lines.push(`  ${item.field}: expected ${formatValue(item.expected)}, found ${formatValue(item.actual)}`);
+    }
+  }
+
+  const byDate = new Map<string, VerifyMismatch[]>();
+  for (const item of result.mismatches) {
+    if (item.date === null) continue;
+    byDate.set(item.date, [...(byDate.get(item.date) ?? []), item]);
+  }
+  if (byDate.size > 0) {
+    lines.push("", "Per day:");
+    for (const [date, items] of [...byDate.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      const details = items.map((item) => `${item.field} expected ${formatValue(item.expected)}, found ${formatValue(item.actual)}`);
+      lines.push(`  ${date}: ${details.join("; ")}`);
+    }
+
+    const byField = new Map<string, number>();
+    for (const items of byDate.values()) {
+      for (const item of items) byField.set(item.field, (byField.get(item.field) ?? 0) + 1);
+    }
+    lines.push("", "Per field:");
+    for (const [field, count] of [...byField.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`  ${field}: ${count} day(s)`);
+    }
+  }
+  return lines.join("\n");
+}
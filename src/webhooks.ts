@@ -0,0 +1,167 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { webhookLogFile } from "./data-dir.js";
+
+export const WEBHOOK_EVENTS = ["submit.success", "submit.failure", "client.stale", "upload.quarantined"] as const;
+export const WEBHOOK_FORMATS = ["json", "slack", "discord"] as const;
+
+export type WebhookEventName = (typeof WEBHOOK_EVENTS)[number];
+export type WebhookFormat = (typeof WEBHOOK_FORMATS)[number];
+
+export interface WebhookTarget {
+  url: string;
+  format: WebhookFormat;
+  events: WebhookEventName[];
+}
+
+export interface WebhookConfig {
+  webhooks: WebhookTarget[];
+}
+
+export interface WebhookEvent {
+  event: WebhookEventName;
+  occurredAt: string;
+  /** One-line human summary; used as the Slack/Discord message text. */
+  message: string;
+  data: Record<string, unknown>;
+}
+
+export interface DeliveryAttempt {
+  at: string;
+  status: number | null;
+  error: string | null;
+}
+
+export interface DeliveryOptions {
+  maxAttempts: number;
+  /** Delay before the first retry; doubled for each further retry. */
+  retryDelayMs: number;
+  timeoutMs: number;
+}
+
+export const DEFAULT_DELIVERY_OPTIONS: DeliveryOptions = { maxAttempts: 4, retryDelayMs: 2000, timeoutMs: 10000 };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function parseTarget(value: unknown, index: number): WebhookTarget {
+  if (!isObject(value)) {
+    throw new Error(`Webhook ${index} must be an object with a \`url\``);
+  }
+  if (typeof value.url !== "string" || !/^https?:\/\//.test(value.url)) {
+    throw new Error(`Webhook ${index} needs an http(s) \`url\``);
+  }
+  const format = value.format ?? "json";
+  if (!WEBHOOK_FORMATS.includes(format as WebhookFormat)) {
+    throw new Error(`Webhook ${index} has invalid format: ${String(format)} (expected one of ${WEBHOOK_FORMATS.join(", ")})`);
+  }
+  let events: WebhookEventName[] = [...WEBHOOK_EVENTS];
+  if (value.events !== undefined) {
+    if (!Array.isArray(value.events) || value.events.some((event) => !WEBHOOK_EVENTS.includes(event as WebhookEventName))) {
+      throw new Error(`Webhook ${index} events must be a list of: ${WEBHOOK_EVENTS.join(", ")}`);
+    }
+    events = value.events as WebhookEventName[];
+  }
+  return { url: value.url, format: format as WebhookFormat, events };
+}
+
+export function parseWebhookConfig(data: unknown): WebhookConfig {
+  if (!isObject(data) || !Array.isArray(data.webhooks)) {
+    throw new Error("Webhook config must be a JSON object with a `webhooks` array");
+  }
+  return { webhooks: data.webhooks.map((item, index) => parseTarget(item, index)) };
+}
+
+export async function loadWebhookConfig(filePath: string): Promise<WebhookConfig> {
+  const absolute = path.resolve(filePath);
+  const content = await fs.readFile(absolute, "utf8");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error(`Webhook config is not valid JSON: ${absolute}`);
+  }
+  return parseWebhookConfig(parsed);
+}
+
+export function renderWebhookBody(format: WebhookFormat, event: WebhookEvent): unknown {
+  const text = `[tk-proxy] ${event.message}`;
+  if (format === "slack") return { text };
+  if (format === "discord") return { content: text };
+  return event;
+}
+
+/** Webhook URLs often embed secrets (Slack, Discord), so logs only keep the origin. */
+function redactUrl(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return "invalid-url";
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Posts one event to one target, retrying network errors, 429 and 5xx with exponential backoff. */
+export async function deliverWebhook(
+  target: WebhookTarget,
+  event: WebhookEvent,
+  options: DeliveryOptions = DEFAULT_DELIVERY_OPTIONS
+): Promise<{ ok: boolean; attempts: DeliveryAttempt[] }> {
+  const body = JSON.stringify(renderWebhookBody(target.format, event));
+  const attempts: DeliveryAttempt[] = [];
+  for (let attempt = 1; attempt <= options.maxAttempts; attempt += 1) {
+    const at = new Date().toISOString();
+    let retryable = true;
+    try {
+      const response = await fetch(target.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+        signal: AbortSignal.timeout(options.timeoutMs)
+      });
+      await response.arrayBuffer();
+      attempts.push({ at, status: response.status, error: response.ok ? null : `HTTP ${response.status}` });
+      if (response.ok) return { ok: true, attempts };
+      retryable = response.status === 429 || response.status >= 500;
+    } catch (error) {
+      attempts.push({ at, status: null, error: error instanceof Error ? error.message : String(error) });
+    }
+    if (!retryable) break;
+    if (attempt < options.maxAttempts) await sleep(options.retryDelayMs * 2 ** (attempt - 1));
+  }
+  return { ok: false, attempts };
+}
+
+/**
+ * Sends an event to every configured target that subscribes to it and appends one
+ * delivery record per target to `webhooks.log` (newline-delimited JSON) in the data dir.
+ */
+export async function dispatchWebhookEvent(
+  dataDir: string,
+  config: WebhookConfig,
+  event: WebhookEvent,
+  options: DeliveryOptions = DEFAULT_DELIVERY_OPTIONS
+): Promise<void> {
+  const targets = config.webhooks.filter((target) => target.events.includes(event.event));
+  await Promise.all(
+    targets.map(async (target) => {
+      const result = await deliverWebhook(target, event, options);
+      const entry = {
+        at: new Date().toISOString(),
+        event: event.event,
+        target: redactUrl(target.url),
+        format: target.format,
+        ok: result.ok,
+        attempts: result.attempts
+      };
+      await fs.appendFile(webhookLogFile(dataDir), `${JSON.stringify(entry)}\n`, "utf8");
+      if (!result.ok) {
+        console.error(`[server] webhook ${event.event} to ${entry.target} failed after ${result.attempts.length} attempt(s)`);
+      }
+    })
+  );
+}
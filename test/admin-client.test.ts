@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import test from "node:test";
+import { adminRequestFor, sendAdminRequest } from "../src/admin-client.js";
+
+test("adminRequestFor maps each action to its server route", () => {
+  assert.deepEqual(adminRequestFor({ action: "submit", targets: [], dryRun: true }), { path: "/v1/submit", body: { dryRun: true } });
+  assert.deepEqual(adminRequestFor({ action: "submit", targets: [], dryRun: false, group: "work" }), {
+    path: "/v1/submit",
+    body: { dryRun: false, group: "work" }
+  });
+  assert.deepEqual(adminRequestFor({ action: "delete", targets: ["old box"], dryRun: false }), {
+    path: "/v1/clients/old%20box/delete",
+    body: {}
+  });
+  assert.deepEqual(adminRequestFor({ action: "rename", targets: ["a", "b"], dryRun: false }), { path: "/v1/clients/a/rename", body: { to: "b" } });
+  assert.deepEqual(adminRequestFor({ action: "merge", targets: ["a", "b"], dryRun: false }), { path: "/v1/clients/a/merge", body: { into: "b" } });
+  assert.deepEqual(adminRequestFor({ action: "reset-submitted", targets: [], dryRun: false }), {
+    path: "/v1/reset-submitted",
+    body: { date: null }
+  });
+});
+
+test("sendAdminRequest sends the admin token and reports server errors", async () => {
+  const seen: { url?: string; authorization?: string; body?: string }[] = [];
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      seen.push({ url: req.url, authorization: req.headers.authorization, body });
+      res.statusCode = req.url === "/v1/submit" ? 200 : 400;
+      res.end(JSON.stringify(req.url === "/v1/submit" ? { ok: true, mode: "preview" } : { error: "Client x not found" }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  const serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const base = {
+    serverUrl,
+    authToken: "secret",
+    noAuth: false,
+    requestTimeoutMs: 5000,
+    dryRun: false,
+    group: null,
+    tls: { caFile: null, certFile: null, keyFile: null }
+  };
+  try {
+    const result = await sendAdminRequest({ ...base, action: "submit", targets: [], dryRun: true });
+    assert.equal(result.mode, "preview");
+    assert.equal(seen[0].authorization, "Bearer secret");
+    assert.deepEqual(JSON.parse(seen[0].body ?? ""), { dryRun: true });
+
+    await assert.rejects(sendAdminRequest({ ...base, action: "delete", targets: ["x"] }), /delete failed \(400\): Client x not found/);
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+});
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { canonicalModelId, findNearDuplicateModels, normalizeModelKey, parseAliasMap, suggestAliasMap } from "../src/aliases.js";
+import { combinePayloads, type TokenContributionData } from "../src/merge.js";
+
+function payloadWithModels(rows: { modelId: string; providerId: string; input: number }[]): TokenContributionData {
+  return {
+    meta: { generatedAt: "2026-02-18T00:00:00.000Z", version: "0.1.0", dateRange: { start: "2026-02-01", end: "2026-02-01" } },
+    summary: {
+      totalTokens: 0,
+      totalCost: 0,
+      totalDays: 1,
+      activeDays: 1,
+      averagePerDay: 0,
+      maxCostInSingleDay: 0,
+      sources: [],
+      models: []
+    },
+    years: [],
+    contributions: [
+      {
+        date: "2026-02-01",
+        totals: { tokens: 0, cost: 0, messages: 0 },
+        intensity: 0,
+        tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+        sources: rows.map((row) => ({
+          source: "claude",
+          modelId: row.modelId,
+          providerId: row.providerId,
+          tokens: { input: row.input, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+          cost: 0,
+          messages: 0
+        }))
+      }
+    ]
+  };
+}
+
+test("normalizeModelKey strips provider prefixes, dates and separators", () => {
+  assert.equal(normalizeModelKey("anthropic/claude-sonnet-4-20250514"), "claude-sonnet-4");
+  assert.equal(normalizeModelKey("claude-opus-4.5"), "claude-opus-4-5");
+  assert.equal(normalizeModelKey("claude-opus-4-5-20251101"), "claude-opus-4-5");
+  assert.equal(normalizeModelKey("glm-4.7-free"), "glm-4-7-free");
+});
+
+test("parseAliasMap rejects non-string aliases", () => {
+  assert.throws(() => parseAliasMap({ models: { a: 1 } }));
+  assert.throws(() => parseAliasMap([]));
+  const parsed = parseAliasMap({ models: { a: "b" } });
+  assert.deepEqual({ ...parsed.models }, { a: "b" });
+  assert.deepEqual({ ...parsed.providers }, {});
+});
+
+test("combinePayloads applies aliases before keying rows", () => {
+  const payload = payloadWithModels([
+    { modelId: "claude-sonnet-4", providerId: "anthropic", input: 5 },
+    { modelId: "anthropic/claude-sonnet-4-20250514", providerId: "Anthropic", input: 7 }
+  ]);
+  const aliases = parseAliasMap({
+    models: { "anthropic/claude-sonnet-4-20250514": "claude-sonnet-4" },
+    providers: { Anthropic: "anthropic" }
+  });
+
+  const combined = combinePayloads([payload], { aliases });
+  assert.deepEqual(combined.summary.models, ["claude-sonnet-4"]);
+  assert.equal(combined.contributions[0].sources.length, 1);
+  assert.equal(combined.contributions[0].sources[0].tokens.input, 12);
+});
+
+test("findNearDuplicateModels reports only unmapped groups", () => {
+  const payload = payloadWithModels([
+    { modelId: "claude-opus-4.5", providerId: "anthropic", input: 1 },
+    { modelId: "claude-opus-4-5-20251101", providerId: "anthropic", input: 1 },
+    { modelId: "gpt-5.2", providerId: "openai", input: 1 }
+  ]);
+
+  const groups = findNearDuplicateModels([payload]);
+  assert.deepEqual(groups, [
+    { normalized: "claude-opus-4-5", modelIds: ["claude-opus-4-5-20251101", "claude-opus-4.5"], suggested: "claude-opus-4.5" }
+  ]);
+  assert.deepEqual(suggestAliasMap(groups).models, { "claude-opus-4-5-20251101": "claude-opus-4.5" });
+
+  const mapped = parseAliasMap({ models: { "claude-opus-4-5-20251101": "claude-opus-4.5" } });
+  assert.deepEqual(findNearDuplicateModels([payload], mapped), []);
+});
+
+test("aliases ignore model and provider IDs that match Object.prototype members", () => {
+  const aliases = parseAliasMap({ models: { "claude-sonnet-4-0": "claude-sonnet-4" } });
+  const combined = combinePayloads(
+    [
+      payloadWithModels([
+        { modelId: "constructor", providerId: "__proto__", input: 10 },
+        { modelId: "toString", providerId: "anthropic", input: 5 }
+      ])
+    ],
+    { aliases }
+  );
+  assert.deepEqual(
+    combined.contributions[0].sources.map((row) => [row.modelId, row.providerId]),
+    [
+      ["constructor", "__proto__"],
+      ["toString", "anthropic"]
+    ]
+  );
+});
+
+test("parseAliasMap keeps a __proto__ alias as an ordinary entry", () => {
+  const aliases = parseAliasMap(JSON.parse('{"models":{"__proto__":"claude-sonnet-4"}}'));
+  assert.equal(canonicalModelId(aliases, "__proto__"), "claude-sonnet-4");
+  assert.equal(canonicalModelId(aliases, "toString"), "toString");
+});
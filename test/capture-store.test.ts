@@ -0,0 +1,259 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import {
+  approveQuarantinedCapture,
+  deleteClient,
+  listCaptureHistory,
+  listQuarantinedCaptures,
+  moveClient,
+  pruneCaptureHistory,
+  readClientCapture,
+  readClientCaptureFiles,
+  rejectQuarantinedCapture,
+  rollbackClientCapture,
+  storeClientCapture,
+  unpinClientCapture,
+  type RetentionPolicy
+} from "../src/capture-store.js";
+import { recomputeDerivedFields, type TokenContributionData } from "../src/merge.js";
+
+const KEEP_ALL: RetentionPolicy = { keepCount: null, keepDays: null };
+
+function payload(input: number): TokenContributionData {
+  return recomputeDerivedFields({
+    meta: { generatedAt: "2026-02-18T00:00:00.000Z", version: "1", dateRange: { start: "", end: "" } },
+    summary: {
+      totalTokens: 0,
+      totalCost: 0,
+      totalDays: 0,
+      activeDays: 0,
+      averagePerDay: 0,
+      maxCostInSingleDay: 0,
+      sources: [],
+      models: []
+    },
+    years: [],
+    contributions: [
+      {
+        date: "2026-02-17",
+        totals: { tokens: 0, cost: 0, messages: 0 },
+        intensity: 0,
+        tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+        sources: [
+          {
+            source: "claude",
+            modelId: "claude-sonnet-4",
+            providerId: "anthropic",
+            tokens: { input, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+            cost: input / 1000,
+            messages: 1
+          }
+        ]
+      }
+    ]
+  });
+}
+
+async function withDataDir(run: (dataDir: string) => Promise<void>): Promise<void> {
+  const dataDir = await mkdtemp(path.join(tmpdir(), "tk-proxy-captures-"));
+  try {
+    await run(dataDir);
+  } finally {
+    await rm(dataDir, { recursive: true, force: true });
+  }
+}
+
+async function store(dataDir: string, input: number, retention = KEEP_ALL, guard = { enabled: false, threshold: 0 }, clientId = "laptop") {
+  return storeClientCapture(
+    dataDir,
+    { clientId, capturedAt: "2026-02-18T00:00:00.000Z", payload: payload(input), sourceHost: null },
+    retention,
+    guard
+  );
+}
+
+const GUARD = { enabled: true, threshold: 0.1 };
+
+test("storeClientCapture keeps every upload in history and activates the newest", async () => {
+  await withDataDir(async (dataDir) => {
+    const first = await store(dataDir, 100);
+    const second = await store(dataDir, 200);
+    const history = await listCaptureHistory(dataDir, "laptop");
+    assert.deepEqual(
+      history.map((entry) => entry.captureId),
+      [second.record.captureId, first.record.captureId]
+    );
+    assert.deepEqual(
+      history.map((entry) => entry.active),
+      [true, false]
+    );
+    assert.equal((await readClientCapture(dataDir, "laptop"))?.payload.summary.totalTokens, 200);
+  });
+});
+
+test("uploads received in the same millisecond keep their upload order", async (t) => {
+  t.mock.timers.enable({ apis: ["Date"], now: Date.parse("2026-02-18T12:00:00.000Z") });
+  await withDataDir(async (dataDir) => {
+    for (const input of [1, 2, 3, 4, 5]) {
+      await store(dataDir, input, { keepCount: 3, keepDays: null });
+    }
+    const history = await listCaptureHistory(dataDir, "laptop");
+    assert.deepEqual(
+      history.map((entry) => entry.totalTokens),
+      [5, 4, 3]
+    );
+    assert.equal(history[0].active, true);
+    assert.ok(history.every((entry) => entry.receivedAt === "2026-02-18T12:00:00.000Z"));
+  });
+});
+
+test("rollback restores an earlier capture until the next upload", async () => {
+  await withDataDir(async (dataDir) => {
+    const good = await store(dataDir, 500);
+    await store(dataDir, 10);
+    await rollbackClientCapture(dataDir, "laptop", good.record.captureId as string, { pin: false });
+    assert.equal((await readClientCapture(dataDir, "laptop"))?.payload.summary.totalTokens, 500);
+
+    await store(dataDir, 20);
+    assert.equal((await readClientCapture(dataDir, "laptop"))?.payload.summary.totalTokens, 20);
+    await assert.rejects(rollbackClientCapture(dataDir, "laptop", "missing", { pin: false }));
+    await assert.rejects(rollbackClientCapture(dataDir, "laptop", "../tokens", { pin: false }));
+  });
+});
+
+test("pinned captures survive uploads until unpinned", async () => {
+  await withDataDir(async (dataDir) => {
+    const good = await store(dataDir, 500);
+    await rollbackClientCapture(dataDir, "laptop", good.record.captureId as string, { pin: true });
+    const later = await store(dataDir, 10);
+    assert.equal(later.pinned, true);
+    assert.equal((await readClientCapture(dataDir, "laptop"))?.payload.summary.totalTokens, 500);
+    assert.equal((await listCaptureHistory(dataDir, "laptop")).find((entry) => entry.pinned)?.captureId, good.record.captureId);
+
+    await unpinClientCapture(dataDir, "laptop");
+    const active = await readClientCapture(dataDir, "laptop");
+    assert.equal(active?.captureId, later.record.captureId);
+    assert.equal(active?.pinnedAt, null);
+  });
+});
+
+test("retention keeps the newest N entries and never drops the active capture", async () => {
+  await withDataDir(async (dataDir) => {
+    const oldest = await store(dataDir, 1);
+    await rollbackClientCapture(dataDir, "laptop", oldest.record.captureId as string, { pin: true });
+    for (const input of [2, 3, 4]) {
+      await store(dataDir, input, { keepCount: 2, keepDays: null });
+    }
+    const kept = (await listCaptureHistory(dataDir, "laptop")).map((entry) => entry.totalTokens);
+    assert.deepEqual(kept, [4, 3, 1]);
+  });
+});
+
+test("retention drops entries older than keepDays except the newest", async () => {
+  await withDataDir(async (dataDir) => {
+    await store(dataDir, 1);
+    await store(dataDir, 2);
+    const future = new Date(Date.now() + 10 * 24 * 60 * 60 * 1000);
+    const removed = await pruneCaptureHistory(dataDir, "laptop", { keepCount: null, keepDays: 7 }, future);
+    assert.equal(removed.length, 1);
+    assert.equal((await readdir(path.join(dataDir, "history", "laptop"))).length, 1);
+  });
+});
+
+test("shrinking uploads are quarantined and can be approved or rejected", async () => {
+  await withDataDir(async (dataDir) => {
+    const good = await store(dataDir, 1000, KEEP_ALL, GUARD);
+    assert.equal(good.quarantine, null);
+
+    const bad = await store(dataDir, 10, KEEP_ALL, GUARD);
+    assert.equal(bad.quarantine?.regressed, true);
+    assert.equal((await readClientCapture(dataDir, "laptop"))?.captureId, good.record.captureId);
+    assert.equal((await listCaptureHistory(dataDir, "laptop")).length, 1);
+
+    const worse = await store(dataDir, 5, KEEP_ALL, GUARD);
+    const pending = await listQuarantinedCaptures(dataDir);
+    assert.deepEqual(
+      pending.map((item) => item.captureId),
+      [bad.record.captureId, worse.record.captureId]
+    );
+    assert.equal(pending[0].quarantine.previousCaptureId, good.record.captureId);
+
+    await rejectQuarantinedCapture(dataDir, "laptop", worse.record.captureId as string);
+    await approveQuarantinedCapture(dataDir, "laptop", bad.record.captureId as string, KEEP_ALL);
+    assert.equal((await readClientCapture(dataDir, "laptop"))?.captureId, bad.record.captureId);
+    assert.equal((await listCaptureHistory(dataDir, "laptop")).length, 2);
+    assert.deepEqual(await listQuarantinedCaptures(dataDir), []);
+    await assert.rejects(approveQuarantinedCapture(dataDir, "laptop", worse.record.captureId as string, KEEP_ALL));
+  });
+});
+
+test("deleteClient removes active capture, history and quarantine", async () => {
+  await withDataDir(async (dataDir) => {
+    await store(dataDir, 1000, KEEP_ALL, GUARD);
+    await store(dataDir, 10, KEEP_ALL, GUARD);
+    await store(dataDir, 50, KEEP_ALL, GUARD, "desktop");
+
+    const removed = await deleteClient(dataDir, "laptop");
+    assert.deepEqual(removed, { clientId: "laptop", history: 1, quarantined: 1 });
+    assert.deepEqual(
+      (await readClientCaptureFiles(dataDir)).map((item) => item.clientId),
+      ["desktop"]
+    );
+    assert.deepEqual(await listQuarantinedCaptures(dataDir), []);
+    await assert.rejects(deleteClient(dataDir, "laptop"), /not found/);
+  });
+});
+
+test("moveClient renames a client and refuses to overwrite an existing one", async () => {
+  await withDataDir(async (dataDir) => {
+    const first = await store(dataDir, 100);
+    await store(dataDir, 200, KEEP_ALL, undefined, "desktop");
+
+    await assert.rejects(moveClient(dataDir, "laptop", "desktop", { merge: false }), /already exists/);
+    const moved = await moveClient(dataDir, "laptop", "laptop-2", { merge: false });
+    assert.equal(moved.captureId, first.record.captureId);
+    assert.equal((await readClientCapture(dataDir, "laptop-2"))?.clientId, "laptop-2");
+    assert.equal(await readClientCapture(dataDir, "laptop"), null);
+    assert.equal((await listCaptureHistory(dataDir, "laptop-2")).length, 1);
+    await assert.rejects(moveClient(dataDir, "laptop", "other", { merge: false }), /not found/);
+  });
+});
+
+test("moveClient merge keeps both histories and activates the newest capture", async () => {
+  await withDataDir(async (dataDir) => {
+    // Receive times order the captures, so keep the uploads at least a millisecond apart.
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+    await store(dataDir, 100, KEEP_ALL, undefined, "old-laptop");
+    await tick();
+    await store(dataDir, 200);
+    await tick();
+    const newest = await store(dataDir, 300, KEEP_ALL, undefined, "old-laptop");
+
+    const merged = await moveClient(dataDir, "old-laptop", "laptop", { merge: true });
+    assert.equal(merged.captureId, newest.record.captureId);
+    assert.equal(merged.history, 2);
+    assert.deepEqual(
+      (await listCaptureHistory(dataDir, "laptop")).map((entry) => entry.totalTokens),
+      [300, 200, 100]
+    );
+    assert.deepEqual(
+      (await readClientCaptureFiles(dataDir)).map((item) => item.clientId),
+      ["laptop"]
+    );
+  });
+});
+
+test("moveClient merge leaves a pinned target capture active", async () => {
+  await withDataDir(async (dataDir) => {
+    const pinned = await store(dataDir, 100);
+    await rollbackClientCapture(dataDir, "laptop", pinned.record.captureId as string, { pin: true });
+    await store(dataDir, 200, KEEP_ALL, undefined, "old-laptop");
+
+    const merged = await moveClient(dataDir, "old-laptop", "laptop", { merge: true });
+    assert.equal(merged.captureId, pinned.record.captureId);
+    assert.equal((await listCaptureHistory(dataDir, "laptop")).length, 2);
+  });
+});
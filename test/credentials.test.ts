@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import {
+  issueClientToken,
+  listClientTokens,
+  rebindClientTokens,
+  resolveClientToken,
+  revokeClientTokens,
+  secretsMatch
+} from "../src/credentials.js";
+
+async function withDataDir(run: (dataDir: string) => Promise<void>): Promise<void> {
+  const dataDir = await mkdtemp(path.join(tmpdir(), "tk-proxy-credentials-"));
+  try {
+    await run(dataDir);
+  } finally {
+    await rm(dataDir, { recursive: true, force: true });
+  }
+}
+
+test("secretsMatch compares secrets of any length", () => {
+  assert.equal(secretsMatch("shared-token", "shared-token"), true);
+  assert.equal(secretsMatch("shared-token", "shared-tokem"), false);
+  assert.equal(secretsMatch("short", "a-much-longer-secret"), false);
+});
+
+test("issued tokens resolve to their client and are stored hashed", async () => {
+  await withDataDir(async (dataDir) => {
+    const { record, token } = await issueClientToken(dataDir, "laptop 1");
+    assert.equal(record.clientId, "laptop_1");
+    assert.match(token, /^tkp_[0-9a-f]{12}_[0-9a-f]{48}$/);
+
+    const resolved = await resolveClientToken(dataDir, token);
+    assert.equal(resolved?.id, record.id);
+    assert.equal(resolved?.clientId, "laptop_1");
+
+    const stored = await listClientTokens(dataDir);
+    assert.equal(stored.length, 1);
+    assert.notEqual(stored[0].tokenHash, token);
+    assert.equal(JSON.stringify(stored).includes(token), false);
+  });
+});
+
+test("resolveClientToken rejects unknown, tampered and malformed tokens", async () => {
+  await withDataDir(async (dataDir) => {
+    const { token } = await issueClientToken(dataDir, "desktop");
+    const tampered = `${token.slice(0, -1)}${token.endsWith("0") ? "1" : "0"}`;
+    assert.equal(await resolveClientToken(dataDir, tampered), null);
+    assert.equal(await resolveClientToken(dataDir, "tkp_000000000000_00"), null);
+    assert.equal(await resolveClientToken(dataDir, "shared-token"), null);
+  });
+});
+
+test("revokeClientTokens revokes by token id or by client id", async () => {
+  await withDataDir(async (dataDir) => {
+    const first = await issueClientToken(dataDir, "desktop");
+    const second = await issueClientToken(dataDir, "desktop");
+    const other = await issueClientToken(dataDir, "laptop");
+
+    const byId = await revokeClientTokens(dataDir, first.record.id);
+    assert.deepEqual(byId.map((item) => item.id), [first.record.id]);
+    assert.equal(await resolveClientToken(dataDir, first.token), null);
+    assert.notEqual(await resolveClientToken(dataDir, second.token), null);
+
+    const byClient = await revokeClientTokens(dataDir, "desktop");
+    assert.deepEqual(byClient.map((item) => item.id), [second.record.id]);
+    assert.equal(await resolveClientToken(dataDir, second.token), null);
+    assert.notEqual(await resolveClientToken(dataDir, other.token), null);
+
+    assert.deepEqual(await revokeClientTokens(dataDir, "desktop"), []);
+  });
+});
+
+test("rebindClientTokens moves active tokens to the new client ID", async () => {
+  await withDataDir(async (dataDir) => {
+    const active = await issueClientToken(dataDir, "old-laptop");
+    const revoked = await issueClientToken(dataDir, "old-laptop");
+    await revokeClientTokens(dataDir, revoked.record.id);
+
+    const moved = await rebindClientTokens(dataDir, "old-laptop", "laptop");
+    assert.deepEqual(moved.map((item) => item.id), [active.record.id]);
+    assert.equal((await resolveClientToken(dataDir, active.token))?.clientId, "laptop");
+    assert.equal((await listClientTokens(dataDir)).find((item) => item.id === revoked.record.id)?.clientId, "old-laptop");
+  });
+});
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { assertTimeZone, latestCronSlot, nextCronSlot, parseCron } from "../src/cron.js";
+
+test("parseCron expands lists, ranges, steps and names", () => {
+  const cron = parseCron("*/15 9-17/4 1,15 jan-mar mon-fri");
+  assert.deepEqual(cron.minutes, [0, 15, 30, 45]);
+  assert.deepEqual(cron.hours, [9, 13, 17]);
+  assert.deepEqual([...cron.daysOfMonth], [1, 15]);
+  assert.deepEqual([...cron.months], [1, 2, 3]);
+  assert.deepEqual([...cron.daysOfWeek], [1, 2, 3, 4, 5]);
+  assert.deepEqual([...parseCron("0 0 * * 7").daysOfWeek], [0]);
+  assert.deepEqual(parseCron("@daily").hours, [0]);
+});
+
+test("parseCron rejects malformed expressions", () => {
+  assert.throws(() => parseCron("0 9 * *"), /5 fields/);
+  assert.throws(() => parseCron("60 9 * * *"), /Invalid minute/);
+  assert.throws(() => parseCron("0 17-9 * * *"), /Invalid hour range/);
+  assert.throws(() => parseCron("0 9 * * mon/0"), /Invalid day of week/);
+  assert.throws(() => parseCron("0 9 * foo *"), /Invalid month/);
+});
+
+test("assertTimeZone accepts IANA names only", () => {
+  assert.equal(assertTimeZone("America/New_York"), "America/New_York");
+  assert.throws(() => assertTimeZone("Mars/Olympus"), /Unknown IANA time zone/);
+});
+
+test("day-of-month and day-of-week match either one when both are restricted", () => {
+  const cron = parseCron("0 12 1 * mon");
+  // 2026-06-01 is a Monday, 2026-06-08 a Monday, 2026-07-01 a Wednesday.
+  assert.equal(nextCronSlot(cron, "UTC", new Date("2026-06-01T12:00:00.000Z"))?.toISOString(), "2026-06-08T12:00:00.000Z");
+  assert.equal(nextCronSlot(cron, "UTC", new Date("2026-06-29T12:00:00.000Z"))?.toISOString(), "2026-07-01T12:00:00.000Z");
+});
+
+test("local schedules follow DST changes", () => {
+  const cron = parseCron("0 9 * * *");
+  // New York is UTC-5 in winter and UTC-4 after the 2026-03-08 switch.
+  assert.equal(latestCronSlot(cron, "America/New_York", new Date("2026-03-07T20:00:00.000Z"))?.toISOString(), "2026-03-07T14:00:00.000Z");
+  assert.equal(latestCronSlot(cron, "America/New_York", new Date("2026-03-08T20:00:00.000Z"))?.toISOString(), "2026-03-08T13:00:00.000Z");
+});
+
+test("skipped local times run after the gap and repeated ones run once", () => {
+  const cron = parseCron("30 2 * * *");
+  // Berlin skips 02:00-03:00 on 2026-03-29; 02:30 runs at 03:30 CEST (01:30Z).
+  assert.equal(nextCronSlot(cron, "Europe/Berlin", new Date("2026-03-29T00:00:00.000Z"))?.toISOString(), "2026-03-29T01:30:00.000Z");
+  // Berlin repeats 02:00-03:00 on 2026-10-25; 02:30 runs at its first occurrence (00:30Z) only.
+  const first = nextCronSlot(cron, "Europe/Berlin", new Date("2026-10-24T23:00:00.000Z"));
+  assert.equal(first?.toISOString(), "2026-10-25T00:30:00.000Z");
+  assert.equal(nextCronSlot(cron, "Europe/Berlin", first as Date)?.toISOString(), "2026-10-26T01:30:00.000Z");
+});
+
+test("latestCronSlot returns null when no slot exists in range", () => {
+  assert.equal(latestCronSlot(parseCron("0 0 31 2 *"), "UTC", new Date("2026-02-18T00:00:00.000Z")), null);
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { renderDashboard, renderLoginPage } from "../src/dashboard.js";
+import { recomputeDerivedFields, type TokenContributionData } from "../src/merge.js";
+
+function payload(): TokenContributionData {
+  const row = (source: string, modelId: string, input: number) => ({
+    source,
+    modelId,
+    providerId: "openai",
+    tokens: { input, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+    cost: input / 100,
+    messages: 1
+  });
+  return recomputeDerivedFields({
+    meta: { generatedAt: "2026-02-18T00:00:00.000Z", version: "1", dateRange: { start: "", end: "" } },
+    summary: {
+      totalTokens: 0,
+      totalCost: 0,
+      totalDays: 0,
+      activeDays: 0,
+      averagePerDay: 0,
+      maxCostInSingleDay: 0,
+      sources: [],
+      models: []
+    },
+    years: [],
+    contributions: [
+      {
+        date: "2026-02-16",
+        totals: { tokens: 0, cost: 0, messages: 0 },
+        intensity: 0,
+        tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+        sources: [row("codex", "gpt-5", 100), row("opencode", "<script>", 50)]
+      },
+      {
+        date: "2026-02-17",
+        totals: { tokens: 0, cost: 0, messages: 0 },
+        intensity: 0,
+        tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+        sources: [row("codex", "gpt-5", 600)]
+      }
+    ]
+  });
+}
+
+test("renderDashboard shows heatmap levels, totals, clients and submissions", () => {
+  const html = renderDashboard({
+    generatedAt: "2026-02-18T12:00:00.000Z",
+    authEnabled: true,
+    payload: payload(),
+    clients: [
+      { clientId: "laptop", capturedAt: "2026-02-18T06:00:00.000Z", receivedAt: "2026-02-18T06:00:00.000Z", sourceHost: "lap", pinned: true, quarantined: 1 }
+    ],
+    submissions: [
+      {
+        slotKey: "2026-02-18T020000",
+        submittedDate: "2026-02-18",
+        createdAt: "2026-02-18T02:00:01.000Z",
+        mode: "submit",
+        submissionId: "sub-1",
+        totalTokens: 750,
+        totalCost: 7.5,
+        group: null,
+        clients: ["laptop"]
+      }
+    ],
+    lastSubmitError: null
+  });
+
+  assert.match(html, /title="2026-02-17: 600 tokens, \$6\.00"/);
+  assert.match(html, /class="cell l4" title="2026-02-17/);
+  assert.match(html, /class="cell l2" title="2026-02-16/);
+  assert.match(html, /<td>codex<\/td><td class="num">700<\/td>/);
+  assert.match(html, /<td>laptop<\/td><td>lap<\/td>.*<td class="num">6\.0h<\/td><td>pinned, 1 quarantined<\/td>/);
+  assert.match(html, /sub-1/);
+  assert.match(html, /Sign out/);
+  assert.equal(html.includes("<script>"), false);
+  assert.match(html, /&lt;script&gt;/);
+  assert.equal(/src=|href="http/.test(html), false);
+});
+
+test("renderLoginPage posts the token to the login route", () => {
+  const html = renderLoginPage("Invalid token.");
+  assert.match(html, /<form method="post" action="\/dashboard\/login">/);
+  assert.match(html, /Invalid token\./);
+});
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { diffPayloads, formatDiffTable } from "../src/diff.js";
+import type { TokenContributionData } from "../src/merge.js";
+
+function payload(days: { date: string; rows: { source: string; input: number; cost: number }[] }[]): TokenContributionData {
+  return {
+    meta: { generatedAt: "2026-02-18T00:00:00.000Z", version: "0.1.0", dateRange: { start: days[0].date, end: days[days.length - 1].date } },
+    summary: {
+      totalTokens: 0,
+      totalCost: 0,
+      totalDays: days.length,
+      activeDays: days.length,
+      averagePerDay: 0,
+      maxCostInSingleDay: 0,
+      sources: [],
+      models: []
+    },
+    years: [],
+    contributions: days.map((day) => ({
+      date: day.date,
+      totals: { tokens: 0, cost: 0, messages: 0 },
+      intensity: 0,
+      tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+      sources: day.rows.map((row) => ({
+        source: row.source,
+        modelId: "m1",
+        providerId: "p1",
+        tokens: { input: row.input, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+        cost: row.cost,
+        messages: 1
+      }))
+    }))
+  };
+}
+
+test("diffPayloads reports added, removed and changed days and rows", () => {
+  const before = payload([
+    { date: "2026-02-01", rows: [{ source: "codex", input: 10, cost: 1 }] },
+    { date: "2026-02-02", rows: [{ source: "codex", input: 5, cost: 0.5 }, { source: "claude", input: 3, cost: 0.3 }] },
+    { date: "2026-02-03", rows: [{ source: "codex", input: 1, cost: 0.1 }] }
+  ]);
+  const after = payload([
+    { date: "2026-02-02", rows: [{ source: "codex", input: 8, cost: 0.8 }, { source: "claude", input: 3, cost: 0.3 }] },
+    { date: "2026-02-03", rows: [{ source: "codex", input: 1, cost: 0.1 }] },
+    { date: "2026-02-04", rows: [{ source: "gemini", input: 4, cost: 0.4 }] }
+  ]);
+
+  const diff = diffPayloads(before, after);
+  assert.deepEqual(
+    diff.days.map((day) => [day.date, day.status]),
+    [
+      ["2026-02-01", "removed"],
+      ["2026-02-02", "changed"],
+      ["2026-02-04", "added"]
+    ]
+  );
+  const changed = diff.days[1];
+  assert.equal(changed.rows.length, 1);
+  assert.equal(changed.rows[0].source, "codex");
+  assert.equal(changed.rows[0].tokenDelta.input, 3);
+  assert.equal(changed.delta.tokens, 3);
+  assert.equal(diff.summary.delta.tokens, -10 + 3 + 4);
+  assert.equal(diff.summary.removedRows, 1);
+  assert.equal(diff.summary.addedRows, 1);
+  assert.equal(diff.summary.changedRows, 1);
+});
+
+test("formatDiffTable reports identical payloads", () => {
+  const same = payload([{ date: "2026-02-01", rows: [{ source: "codex", input: 10, cost: 1 }] }]);
+  assert.equal(formatDiffTable(diffPayloads(same, same)), "No differences.");
+});
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { formatRows, type ExportRow } from "../src/export.js";
+
+const rows: ExportRow[] = [
+  {
+    date: "2026-02-01",
+    source: "opencode",
+    modelId: "model, \"quoted\"",
+    providerId: "zai",
+    tokens: { input: 10, output: 2, cacheRead: 3, cacheWrite: 0, reasoning: 1 },
+    cost: 0.25,
+    messages: 4,
+    clientId: "desk"
+  }
+];
+
+test("formatRows renders csv with a header and escapes quoted cells", () => {
+  assert.equal(
+    formatRows(rows, "csv"),
+    'date,source,modelId,providerId,input,output,cacheRead,cacheWrite,reasoning,cost,messages\n2026-02-01,opencode,"model, ""quoted""",zai,10,2,3,0,1,0.25,4\n'
+  );
+});
+
+test("formatRows adds a leading clientId column when requested", () => {
+  const [header, line] = formatRows(rows, "tsv", true).trimEnd().split("\n");
+  assert.equal(header.split("\t")[0], "clientId");
+  assert.equal(line.split("\t")[0], "desk");
+});
+
+test("formatRows renders one flat JSON object per line for ndjson", () => {
+  const parsed = JSON.parse(formatRows(rows, "ndjson").trimEnd());
+  assert.equal(parsed.input, 10);
+  assert.equal(parsed.cost, 0.25);
+  assert.equal(parsed.clientId, undefined);
+});
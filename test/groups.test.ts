@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { groupOfClient, parseGroupConfig } from "../src/groups.js";
+
+test("parseGroupConfig reads each group's clients and tokscale account", () => {
+  const config = parseGroupConfig(
+    {
+      groups: [
+        { name: "personal", clients: ["desktop", "old laptop"], credentialsFile: "~/.config/tokscale/personal.json" },
+        { name: "work", clients: ["work-laptop"], token: "tk-work", apiUrl: "https://tokscale.example.com/" },
+        { name: "lab", clients: ["gpu-box"], credentialsFile: "lab-credentials.json" }
+      ]
+    },
+    "/etc/tk-proxy"
+  );
+  assert.deepEqual(config.groups[0], {
+    name: "personal",
+    clients: ["desktop", "old_laptop"],
+    account: { token: null, credentialsFile: path.join(os.homedir(), ".config/tokscale/personal.json"), apiUrl: null }
+  });
+  assert.deepEqual(config.groups[1].account, { token: "tk-work", credentialsFile: null, apiUrl: "https://tokscale.example.com" });
+  assert.equal(config.groups[2].account.credentialsFile, path.resolve("/etc/tk-proxy", "lab-credentials.json"));
+
+  assert.equal(groupOfClient(config, "work-laptop")?.name, "work");
+  assert.equal(groupOfClient(config, "unknown"), null);
+});
+
+test("parseGroupConfig rejects ambiguous or incomplete groups", () => {
+  assert.throws(() => parseGroupConfig({ groups: [] }), /non-empty `groups` array/);
+  assert.throws(() => parseGroupConfig({ groups: [{ name: "a b", clients: ["x"] }] }), /needs a `name`/);
+  assert.throws(() => parseGroupConfig({ groups: [{ name: "a", clients: [] }] }), /Group a `clients` must be a non-empty list/);
+  assert.throws(() => parseGroupConfig({ groups: [{ name: "a", clients: ["x"], token: "t", credentialsFile: "c.json" }] }), /both `token` and `credentialsFile`/);
+  assert.throws(() => parseGroupConfig({ groups: [{ name: "a", clients: ["x"], apiUrl: "tokscale.ai" }] }), /http\(s\) `apiUrl`/);
+  assert.throws(
+    () =>
+      parseGroupConfig({
+        groups: [
+          { name: "a", clients: ["x"] },
+          { name: "a", clients: ["y"] }
+        ]
+      }),
+    /defined more than once/
+  );
+  assert.throws(
+    () =>
+      parseGroupConfig({
+        groups: [
+          { name: "a", clients: ["x"] },
+          { name: "b", clients: ["x"] }
+        ]
+      }),
+    /Client x is in both group a and group b/
+  );
+});
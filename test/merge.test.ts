@@ -1,6 +1,6 @@
 import test from "node:test";
 import assert from "node:assert/strict";
-import { combinePayloads, type DailyContribution, type TokenContributionData } from "../src/merge.js";
+import { combineInputs, combinePayloads, type DailyContribution, type TokenContributionData } from "../src/merge.js";
 
 function makePayload(contributions: DailyContribution[]): TokenContributionData {
   return {
@@ -132,3 +132,147 @@ test("combinePayloads computes multi-day and multi-year summaries", () => {
   assert.equal(combined.years[1].year, "2026");
   assert.equal(combined.years[1].totalTokens, 100);
 });
+
+function singleDay(date: string, rows: ReturnType<typeof sourceRow>[]): TokenContributionData {
+  return makePayload([
+    {
+      date,
+      totals: { tokens: 0, cost: 0, messages: 0 },
+      intensity: 0,
+      tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+      sources: rows
+    }
+  ]);
+}
+
+test("combineInputs max strategy keeps the larger overlapping row and reports it", () => {
+  const laptopOld = singleDay("2026-02-01", [sourceRow({ source: "codex", modelId: "m1", providerId: "openai", input: 10, cost: 1 })]);
+  const laptopNew = singleDay("2026-02-01", [
+    sourceRow({ source: "codex", modelId: "m1", providerId: "openai", input: 12, cost: 2 }),
+    sourceRow({ source: "claude", modelId: "m2", providerId: "anthropic", input: 5, cost: 1 })
+  ]);
+
+  const { payload, report } = combineInputs(
+    [
+      { payload: laptopOld, clientId: "laptop" },
+      { payload: laptopNew, clientId: "laptop-reimaged" }
+    ],
+    { strategy: "max" }
+  );
+  assert.equal(payload.summary.totalTokens, 17);
+  assert.equal(payload.summary.totalCost, 3);
+  assert.equal(report.strategy, "max");
+  assert.deepEqual(report.deduplicatedRows, [
+    {
+      date: "2026-02-01",
+      source: "codex",
+      modelId: "m1",
+      providerId: "openai",
+      keptFrom: "laptop-reimaged",
+      droppedFrom: ["laptop"]
+    }
+  ]);
+});
+
+test("combineInputs latest strategy prefers the most recent capturedAt", () => {
+  const older = singleDay("2026-02-01", [sourceRow({ source: "codex", modelId: "m1", providerId: "openai", input: 50 })]);
+  const newer = singleDay("2026-02-01", [sourceRow({ source: "codex", modelId: "m1", providerId: "openai", input: 20 })]);
+
+  const { payload } = combineInputs(
+    [
+      { payload: newer, clientId: "a", capturedAt: "2026-02-02T00:00:00.000Z" },
+      { payload: older, clientId: "b", capturedAt: "2026-02-01T00:00:00.000Z" }
+    ],
+    { strategy: "latest" }
+  );
+  assert.equal(payload.summary.totalTokens, 20);
+});
+
+test("combineInputs priority strategy follows client order and keeps unique rows", () => {
+  const manual = singleDay("2026-02-01", [sourceRow({ source: "codex", modelId: "m1", providerId: "openai", input: 30 })]);
+  const server = singleDay("2026-02-01", [sourceRow({ source: "codex", modelId: "m1", providerId: "openai", input: 25 })]);
+  const other = singleDay("2026-02-02", [sourceRow({ source: "claude", modelId: "m2", providerId: "anthropic", input: 7 })]);
+
+  const { payload, report } = combineInputs(
+    [
+      { payload: manual, clientId: "manual" },
+      { payload: server, clientId: "server-copy" },
+      { payload: other, clientId: "desktop" }
+    ],
+    { strategy: "priority", clientPriority: ["server-copy"] }
+  );
+  assert.equal(payload.summary.totalTokens, 32);
+  assert.equal(report.deduplicatedRows.length, 1);
+  assert.equal(report.deduplicatedRows[0].keptFrom, "server-copy");
+});
+
+test("combineInputs sum strategy reports no deduplicated rows", () => {
+  const a = singleDay("2026-02-01", [sourceRow({ source: "codex", modelId: "m1", providerId: "openai", input: 1 })]);
+  const b = singleDay("2026-02-01", [sourceRow({ source: "codex", modelId: "m1", providerId: "openai", input: 2 })]);
+  const { payload, report } = combineInputs([{ payload: a }, { payload: b }]);
+  assert.equal(payload.summary.totalTokens, 3);
+  assert.deepEqual(report.deduplicatedRows, []);
+  assert.deepEqual(report.inputs, ["input-1", "input-2"]);
+});
+
+test("combineInputs provenance records per-client shares for each row", () => {
+  const desk = singleDay("2026-02-12", [sourceRow({ source: "codex", modelId: "m1", providerId: "openai", input: 30, cost: 3 })]);
+  const laptop = singleDay("2026-02-12", [sourceRow({ source: "codex", modelId: "m1", providerId: "openai", input: 10, cost: 1 })]);
+
+  const { provenance } = combineInputs([
+    { payload: desk, clientId: "desk" },
+    { payload: laptop, clientId: "laptop" }
+  ]);
+  assert.deepEqual(provenance.clients, ["desk", "laptop"]);
+  assert.equal(provenance.days.length, 1);
+  const [row] = provenance.days[0].sources;
+  assert.equal(row.contributors.length, 2);
+  assert.equal(row.contributors[0].clientId, "desk");
+  assert.equal(row.contributors[0].tokenShare, 0.75);
+  assert.equal(row.contributors[1].costShare, 0.25);
+  assert.equal(provenance.days[0].clients[0].cost, 3);
+});
+
+test("combinePayloads filters rows by date, source and model and recomputes summaries", () => {
+  const payload = makePayload([
+    {
+      date: "2025-12-31",
+      totals: { tokens: 0, cost: 0, messages: 0 },
+      intensity: 0,
+      tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+      sources: [sourceRow({ source: "codex", modelId: "m1", providerId: "openai", input: 100, cost: 10 })]
+    },
+    {
+      date: "2026-01-01",
+      totals: { tokens: 0, cost: 0, messages: 0 },
+      intensity: 0,
+      tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+      sources: [
+        sourceRow({ source: "codex", modelId: "m1", providerId: "openai", input: 10, cost: 1 }),
+        sourceRow({ source: "gemini", modelId: "g1", providerId: "google", input: 50, cost: 5 }),
+        sourceRow({ source: "claude", modelId: "c1", providerId: "anthropic", input: 20, cost: 4 })
+      ]
+    },
+    {
+      date: "2026-01-02",
+      totals: { tokens: 0, cost: 0, messages: 0 },
+      intensity: 0,
+      tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+      sources: [sourceRow({ source: "gemini", modelId: "g1", providerId: "google", input: 5, cost: 1 })]
+    }
+  ]);
+
+  const combined = combinePayloads([payload], {
+    filter: { since: "2026-01-01", excludeSources: ["gemini"], excludeModels: ["c1"] }
+  });
+  assert.equal(combined.contributions.length, 1);
+  assert.equal(combined.summary.totalTokens, 10);
+  assert.equal(combined.summary.totalCost, 1);
+  assert.deepEqual(combined.summary.sources, ["codex"]);
+  assert.deepEqual(combined.years.map((year) => year.year), ["2026"]);
+  assert.equal(combined.contributions[0].intensity, 4);
+
+  const onlyClaude = combinePayloads([payload], { filter: { includeSources: ["claude"], until: "2026-01-01" } });
+  assert.equal(onlyClaude.summary.totalTokens, 20);
+  assert.equal(onlyClaude.meta.dateRange.end, "2026-01-01");
+});
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { ServerMetrics } from "../src/metrics.js";
+
+test("ServerMetrics renders counters, gauges and latency histograms", () => {
+  const metrics = new ServerMetrics();
+  metrics.recordUpload("laptop");
+  metrics.recordUpload("laptop");
+  metrics.recordUploadFailure("desk\"top", 400);
+  metrics.observeRequest("/v1/captures", "POST", 0.02);
+  metrics.observeRequest("/v1/captures", "POST", 3);
+
+  const text = metrics.render({
+    now: new Date("2026-02-18T12:00:00.000Z"),
+    clients: [{ clientId: "laptop", receivedAt: "2026-02-18T11:00:00.000Z" }],
+    lastSubmittedAt: "2026-02-18T02:00:00.000Z",
+    lastSubmitError: null,
+    sourceTotals: [{ source: "codex", tokens: 1500, cost: 2.5 }]
+  });
+
+  assert.match(text, /# TYPE tk_proxy_uploads_total counter/);
+  assert.match(text, /^tk_proxy_uploads_total\{client="laptop"\} 2$/m);
+  assert.match(text, /^tk_proxy_upload_failures_total\{client="desk\\"top",status="400"\} 1$/m);
+  assert.match(text, /^tk_proxy_client_last_upload_age_seconds\{client="laptop"\} 3600$/m);
+  assert.match(text, /^tk_proxy_last_submit_success_timestamp_seconds 1771380000$/m);
+  assert.match(text, /^tk_proxy_last_submit_error 0$/m);
+  assert.match(text, /^tk_proxy_combined_tokens\{source="codex"\} 1500$/m);
+  assert.match(text, /^tk_proxy_combined_cost_usd\{source="codex"\} 2\.5$/m);
+  assert.match(text, /^tk_proxy_http_request_duration_seconds_bucket\{route="\/v1\/captures",method="POST",le="0\.025"\} 1$/m);
+  assert.match(text, /^tk_proxy_http_request_duration_seconds_bucket\{route="\/v1\/captures",method="POST",le="5"\} 2$/m);
+  assert.match(text, /^tk_proxy_http_request_duration_seconds_bucket\{route="\/v1\/captures",method="POST",le="\+Inf"\} 2$/m);
+  assert.match(text, /^tk_proxy_http_request_duration_seconds_count\{route="\/v1\/captures",method="POST"\} 2$/m);
+});
+
+test("ServerMetrics reports a failed last submit", () => {
+  const text = new ServerMetrics().render({
+    now: new Date(),
+    clients: [],
+    lastSubmittedAt: null,
+    lastSubmitError: "[2026-02-18T02:00:00.000Z] boom",
+    sourceTotals: []
+  });
+  assert.match(text, /^tk_proxy_last_submit_success_timestamp_seconds 0$/m);
+  assert.match(text, /^tk_proxy_last_submit_error 1$/m);
+});
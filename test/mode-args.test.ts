@@ -1,6 +1,13 @@
 import assert from "node:assert/strict";
 import test, { afterEach } from "node:test";
-import { parseClientModeArgs, parseServerModeArgs } from "../src/mode-args.js";
+import {
+  parseAdminCommandArgs,
+  parseClientModeArgs,
+  parseHistoryAdminArgs,
+  parseMigrateStorageArgs,
+  parseServerModeArgs,
+  parseTokenAdminArgs
+} from "../src/mode-args.js";
 
 const ORIGINAL_TOKEN = process.env.TK_PROXY_AUTH_TOKEN;
 
@@ -44,3 +51,182 @@ test("parseClientModeArgs requires token unless --no-auth is used", () => {
   delete process.env.TK_PROXY_AUTH_TOKEN;
   assert.throws(() => parseClientModeArgs(["--client", "http://127.0.0.1:8787"]));
 });
+
+test("parseServerModeArgs collects row filters for the daily submit", () => {
+  const parsed = parseServerModeArgs([
+    "--server",
+    "--no-auth",
+    "--since",
+    "2026-01-01",
+    "--exclude-source",
+    "gemini,amp",
+    "--exclude-source",
+    "pi",
+    "--include-model",
+    "gpt-5.2"
+  ]);
+  assert.deepEqual(parsed.filter, {
+    since: "2026-01-01",
+    excludeSources: ["gemini", "amp", "pi"],
+    includeModels: ["gpt-5.2"]
+  });
+  assert.throws(() => parseServerModeArgs(["--server", "--no-auth", "--since", "2026-13-45x"]));
+  assert.throws(() => parseServerModeArgs(["--server", "--no-auth", "--since", "2026-02-01", "--until", "2026-01-01"]));
+});
+
+test("parseTokenAdminArgs parses list, issue and revoke", () => {
+  assert.deepEqual(parseTokenAdminArgs(["--tokens", "list"]), { action: "list", target: null, dataDir: ".tk-proxy" });
+  assert.deepEqual(parseTokenAdminArgs(["--tokens", "issue", "laptop", "--data-dir", "/srv/tk"]), {
+    action: "issue",
+    target: "laptop",
+    dataDir: "/srv/tk"
+  });
+  assert.throws(() => parseTokenAdminArgs(["--tokens", "issue"]));
+  assert.throws(() => parseTokenAdminArgs(["--tokens", "rotate"]));
+  assert.throws(() => parseTokenAdminArgs(["--tokens", "list", "extra"]));
+});
+
+test("parseServerModeArgs reads the capture history retention policy", () => {
+  assert.deepEqual(parseServerModeArgs(["--server", "--no-auth"]).retention, { keepCount: 30, keepDays: null });
+  const parsed = parseServerModeArgs(["--server", "--no-auth", "--history-keep", "5", "--history-keep-days", "14"]);
+  assert.deepEqual(parsed.retention, { keepCount: 5, keepDays: 14 });
+  assert.throws(() => parseServerModeArgs(["--server", "--no-auth", "--history-keep", "0"]));
+});
+
+test("parseServerModeArgs configures the regression guard", () => {
+  assert.deepEqual(parseServerModeArgs(["--server", "--no-auth"]).regressionGuard, { enabled: true, threshold: 0.1 });
+  assert.equal(parseServerModeArgs(["--server", "--no-auth", "--regression-threshold", "0.25"]).regressionGuard.threshold, 0.25);
+  assert.equal(parseServerModeArgs(["--server", "--no-auth", "--no-regression-guard"]).regressionGuard.enabled, false);
+  assert.throws(() => parseServerModeArgs(["--server", "--no-auth", "--regression-threshold", "1.5"]));
+});
+
+test("parseHistoryAdminArgs requires a capture ID for rollback and pin", () => {
+  const parsed = parseHistoryAdminArgs(["--history", "pin", "laptop", "2026-02-17T09-12-44-120Z-3fa1"]);
+  assert.equal(parsed.action, "pin");
+  assert.equal(parsed.clientId, "laptop");
+  assert.equal(parsed.captureId, "2026-02-17T09-12-44-120Z-3fa1");
+  assert.equal(parseHistoryAdminArgs(["--history", "list", "laptop"]).captureId, null);
+  assert.throws(() => parseHistoryAdminArgs(["--history", "rollback", "laptop"]));
+  assert.throws(() => parseHistoryAdminArgs(["--history", "list"]));
+});
+
+test("parseServerModeArgs reads webhook config and stale threshold", () => {
+  const defaults = parseServerModeArgs(["--server", "--no-auth"]);
+  assert.equal(defaults.webhooksFile, null);
+  assert.equal(defaults.staleAfterMs, 24 * 60 * 60 * 1000);
+  const parsed = parseServerModeArgs(["--server", "--no-auth", "--webhooks", "hooks.json", "--stale-after", "6h"]);
+  assert.equal(parsed.webhooksFile, "hooks.json");
+  assert.equal(parsed.staleAfterMs, 6 * 60 * 60 * 1000);
+});
+
+test("parseServerModeArgs reads the submit retry policy", () => {
+  assert.deepEqual(parseServerModeArgs(["--server", "--no-auth"]).retryPolicy, {
+    maxAttempts: 8,
+    baseDelayMs: 5 * 60 * 1000,
+    maxDelayMs: 6 * 60 * 60 * 1000
+  });
+  const parsed = parseServerModeArgs(["--server", "--no-auth", "--submit-max-attempts", "3", "--submit-retry-base", "1m", "--submit-retry-max", "1h"]);
+  assert.deepEqual(parsed.retryPolicy, { maxAttempts: 3, baseDelayMs: 60 * 1000, maxDelayMs: 60 * 60 * 1000 });
+});
+
+test("parseAdminCommandArgs validates actions and their arguments", () => {
+  delete process.env.TK_PROXY_AUTH_TOKEN;
+  const submit = parseAdminCommandArgs(["--admin", "http://127.0.0.1:8787", "submit", "--dry-run", "--auth-token", "secret"]);
+  assert.equal(submit.action, "submit");
+  assert.equal(submit.dryRun, true);
+  assert.equal(submit.authToken, "secret");
+  assert.equal(submit.group, null);
+  assert.equal(parseAdminCommandArgs(["--admin", "http://x", "submit", "--group", "work", "--no-auth"]).group, "work");
+  assert.throws(() => parseAdminCommandArgs(["--admin", "http://x", "delete", "laptop", "--group", "work", "--no-auth"]), /Unknown --admin option/);
+
+  const merge = parseAdminCommandArgs(["--admin", "http://127.0.0.1:8787", "merge", "old-laptop", "laptop", "--no-auth"]);
+  assert.deepEqual(merge.targets, ["old-laptop", "laptop"]);
+  assert.equal(merge.authToken, null);
+  assert.deepEqual(parseAdminCommandArgs(["--admin", "http://x", "reset-submitted", "--no-auth"]).targets, []);
+
+  assert.throws(() => parseAdminCommandArgs(["--admin", "http://x", "rename", "laptop", "--no-auth"]));
+  assert.throws(() => parseAdminCommandArgs(["--admin", "http://x", "delete", "--dry-run", "laptop", "--no-auth"]), /Unknown --admin option/);
+  assert.throws(() => parseAdminCommandArgs(["--admin", "http://x", "reset-submitted", "2026-13-01", "--no-auth"]), /Invalid date/);
+  assert.throws(() => parseAdminCommandArgs(["--admin", "submit"]));
+  assert.throws(() => parseAdminCommandArgs(["--admin", "http://x", "submit"]), /Missing auth token/);
+});
+
+test("parseServerModeArgs requires TLS certificate and key together", () => {
+  assert.equal(parseServerModeArgs(["--server", "--no-auth"]).tls, null);
+  const parsed = parseServerModeArgs(["--server", "--no-auth", "--tls-cert", "server.pem", "--tls-key", "server.key", "--tls-client-ca", "ca.pem"]);
+  assert.deepEqual(parsed.tls, { certFile: "server.pem", keyFile: "server.key", clientCaFile: "ca.pem" });
+  assert.throws(() => parseServerModeArgs(["--server", "--no-auth", "--tls-cert", "server.pem"]), /must be used together/);
+  assert.throws(() => parseServerModeArgs(["--server", "--no-auth", "--tls-client-ca", "ca.pem"]), /requires --tls-cert/);
+});
+
+test("parseClientModeArgs reads TLS files and requires an https server", () => {
+  const parsed = parseClientModeArgs(["--client", "https://proxy.lan:8787", "--no-auth", "--ca-cert", "ca.pem", "--client-cert", "c.pem", "--client-key", "c.key"]);
+  assert.deepEqual(parsed.tls, { caFile: "ca.pem", certFile: "c.pem", keyFile: "c.key" });
+  assert.throws(() => parseClientModeArgs(["--client", "http://proxy.lan:8787", "--no-auth", "--ca-cert", "ca.pem"]), /https:\/\//);
+  assert.throws(() => parseClientModeArgs(["--client", "https://proxy.lan:8787", "--no-auth", "--client-cert", "c.pem"]), /must be used together/);
+});
+
+test("parseServerModeArgs builds the submit schedule from an hour or a cron expression", () => {
+  const daily = parseServerModeArgs(["--server", "--no-auth", "--submit-hour-utc", "5"]).schedule;
+  assert.deepEqual(daily.cron.hours, [5]);
+  assert.equal(daily.timeZone, "UTC");
+  assert.deepEqual(parseServerModeArgs(["--server", "--no-auth"]).schedule.cron.hours, [2]);
+
+  const local = parseServerModeArgs(["--server", "--no-auth", "--submit-cron", "0 9,17 * * 1-5", "--timezone", "Europe/Berlin"]).schedule;
+  assert.equal(local.cron.source, "0 9,17 * * 1-5");
+  assert.equal(local.timeZone, "Europe/Berlin");
+  assert.throws(() => parseServerModeArgs(["--server", "--no-auth", "--submit-hour-utc", "5", "--timezone", "Europe/Berlin"]), /cannot be combined/);
+  assert.throws(() => parseServerModeArgs(["--server", "--no-auth", "--timezone", "Nowhere/City"]), /Unknown IANA time zone/);
+  assert.throws(() => parseServerModeArgs(["--server", "--no-auth", "--submit-cron", "0 25 * * *"]), /Invalid hour/);
+});
+
+test("parseServerModeArgs builds the readiness gate from the expected clients roster", () => {
+  assert.equal(parseServerModeArgs(["--server", "--no-auth"]).readiness, null);
+  assert.deepEqual(parseServerModeArgs(["--server", "--no-auth", "--expected-clients", "desktop, laptop"]).readiness, {
+    expectedClients: ["desktop", "laptop"],
+    quorum: null,
+    windowMs: 24 * 60 * 60 * 1000,
+    maxWaitMs: 6 * 60 * 60 * 1000
+  });
+  const quorum = parseServerModeArgs([
+    "--server",
+    "--no-auth",
+    "--expected-clients",
+    "a,b,c",
+    "--ready-quorum",
+    "2",
+    "--ready-window",
+    "12h",
+    "--ready-max-wait",
+    "90m"
+  ]).readiness;
+  assert.equal(quorum?.quorum, 2);
+  assert.equal(quorum?.windowMs, 12 * 60 * 60 * 1000);
+  assert.equal(quorum?.maxWaitMs, 90 * 60 * 1000);
+  assert.throws(() => parseServerModeArgs(["--server", "--no-auth", "--ready-quorum", "1"]), /require --expected-clients/);
+  assert.throws(() => parseServerModeArgs(["--server", "--no-auth", "--expected-clients", "a,b", "--ready-quorum", "3"]), /between 1 and the number of expected clients \(2\)/);
+});
+
+test("parseServerModeArgs and parseMigrateStorageArgs read the storage backend options", () => {
+  assert.equal(parseServerModeArgs(["--server", "--no-auth"]).storage, null);
+  assert.equal(parseServerModeArgs(["--server", "--no-auth", "--storage", "sqlite"]).storage, "sqlite");
+  assert.throws(() => parseServerModeArgs(["--server", "--no-auth", "--storage", "redis"]), /Invalid storage backend/);
+
+  assert.deepEqual(parseMigrateStorageArgs(["--migrate-storage", ".tk-proxy"]), { sourceDir: ".tk-proxy", targetDir: ".tk-proxy" });
+  assert.deepEqual(parseMigrateStorageArgs(["--migrate-storage", "old", "--data-dir", "new"]), { sourceDir: "old", targetDir: "new" });
+  assert.throws(() => parseMigrateStorageArgs(["--migrate-storage"]), /Usage: --migrate-storage/);
+  assert.throws(() => parseMigrateStorageArgs(["--migrate-storage", "old", "--force"]), /Unknown --migrate-storage option/);
+});
+
+test("parseServerModeArgs reads upload rate limits", () => {
+  assert.deepEqual(parseServerModeArgs(["--server", "--no-auth"]).uploadLimits, {
+    perClient: { max: 30, windowMs: 60 * 60 * 1000 },
+    perIp: { max: 120, windowMs: 60 * 60 * 1000 },
+    minIntervalMs: 60 * 1000
+  });
+  assert.deepEqual(
+    parseServerModeArgs(["--server", "--no-auth", "--client-rate-limit", "10/1d", "--ip-rate-limit", "off", "--min-upload-interval", "off"]).uploadLimits,
+    { perClient: { max: 10, windowMs: 24 * 60 * 60 * 1000 }, perIp: null, minIntervalMs: 0 }
+  );
+  assert.throws(() => parseServerModeArgs(["--server", "--no-auth", "--ip-rate-limit", "lots"]), /Invalid rate limit/);
+});
@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { combineInputs, recomputeDerivedFields } from "../src/merge.js";
+import {
+  classifySubmitError,
+  clearOutbox,
+  createOutboxEntry,
+  readOutbox,
+  recordFailedAttempt,
+  retryDelayMs,
+  writeOutbox,
+  type RetryPolicy
+} from "../src/outbox.js";
+import { TokscaleSubmitError } from "../src/tokscale.js";
+
+const POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 60_000, maxDelayMs: 90_000 };
+const NOW = new Date("2026-02-18T02:00:00.000Z");
+const SLOT = { key: "2026-02-18T020000", date: "2026-02-18" };
+
+function sampleCombined() {
+  return combineInputs([
+    {
+      payload: recomputeDerivedFields({
+        meta: { generatedAt: NOW.toISOString(), version: "1", dateRange: { start: "", end: "" } },
+        summary: {
+          totalTokens: 0,
+          totalCost: 0,
+          totalDays: 0,
+          activeDays: 0,
+          averagePerDay: 0,
+          maxCostInSingleDay: 0,
+          sources: [],
+          models: []
+        },
+        years: [],
+        contributions: [
+          {
+            date: "2026-02-17",
+            totals: { tokens: 0, cost: 0, messages: 0 },
+            intensity: 0,
+            tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+            sources: [
+              {
+                source: "codex",
+                modelId: "gpt-5",
+                providerId: "openai",
+                tokens: { input: 10, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+                cost: 0.1,
+                messages: 1
+              }
+            ]
+          }
+        ]
+      }),
+      clientId: "laptop"
+    }
+  ]);
+}
+
+test("classifySubmitError retries 5xx, 408, 429 and network errors only", () => {
+  assert.deepEqual(classifySubmitError(new TokscaleSubmitError(503, {})), { status: 503, retryable: true });
+  assert.deepEqual(classifySubmitError(new TokscaleSubmitError(429, {})), { status: 429, retryable: true });
+  assert.deepEqual(classifySubmitError(new TokscaleSubmitError(408, {})), { status: 408, retryable: true });
+  assert.deepEqual(classifySubmitError(new TokscaleSubmitError(401, {})), { status: 401, retryable: false });
+  assert.deepEqual(classifySubmitError(new TokscaleSubmitError(422, {})), { status: 422, retryable: false });
+  assert.deepEqual(classifySubmitError(new TypeError("fetch failed")), { status: null, retryable: true });
+});
+
+test("retryDelayMs doubles per failure up to the cap", () => {
+  assert.equal(retryDelayMs(POLICY, 1), 60_000);
+  assert.equal(retryDelayMs(POLICY, 2), 90_000);
+  assert.equal(retryDelayMs(POLICY, 5), 90_000);
+});
+
+test("recordFailedAttempt schedules retries until the attempt cap", () => {
+  let entry = createOutboxEntry(SLOT, sampleCombined(), NOW);
+  entry = recordFailedAttempt(entry, { at: NOW.toISOString(), status: 503, error: "down" }, true, POLICY, NOW);
+  assert.equal(entry.state, "pending");
+  assert.equal(entry.nextAttemptAt, "2026-02-18T02:01:00.000Z");
+
+  entry = recordFailedAttempt(entry, { at: NOW.toISOString(), status: null, error: "reset" }, true, POLICY, NOW);
+  assert.equal(entry.nextAttemptAt, "2026-02-18T02:01:30.000Z");
+
+  entry = recordFailedAttempt(entry, { at: NOW.toISOString(), status: 500, error: "down" }, true, POLICY, NOW);
+  assert.equal(entry.state, "failed");
+  assert.equal(entry.nextAttemptAt, null);
+  assert.equal(entry.attempts.length, 3);
+});
+
+test("recordFailedAttempt gives up immediately on non-retryable errors", () => {
+  const entry = recordFailedAttempt(
+    createOutboxEntry(SLOT, sampleCombined(), NOW),
+    { at: NOW.toISOString(), status: 400, error: "bad payload" },
+    false,
+    POLICY,
+    NOW
+  );
+  assert.equal(entry.state, "failed");
+  assert.equal(entry.attempts.length, 1);
+});
+
+test("the outbox persists across reads and can be cleared", async () => {
+  const dataDir = await mkdtemp(path.join(tmpdir(), "tk-proxy-outbox-"));
+  try {
+    assert.equal(await readOutbox(dataDir), null);
+    const entry = createOutboxEntry(SLOT, sampleCombined(), NOW);
+    await writeOutbox(dataDir, entry);
+    assert.deepEqual(await readOutbox(dataDir), entry);
+    await clearOutbox(dataDir);
+    assert.equal(await readOutbox(dataDir), null);
+
+    const work = createOutboxEntry(SLOT, sampleCombined(), NOW, { group: "work" });
+    await writeOutbox(dataDir, work);
+    assert.equal(await readOutbox(dataDir), null);
+    assert.deepEqual(await readOutbox(dataDir, "work"), work);
+    await clearOutbox(dataDir, "work");
+    assert.equal(await readOutbox(dataDir, "work"), null);
+  } finally {
+    await rm(dataDir, { recursive: true, force: true });
+  }
+});
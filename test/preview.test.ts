@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { StoredClientCapture } from "../src/capture-store.js";
+import { parseCombinedQuery, selectCaptures } from "../src/preview.js";
+
+function capture(clientId: string): StoredClientCapture {
+  return {
+    schemaVersion: "tk-proxy-client-capture.v1",
+    clientId,
+    capturedAt: "2026-02-18T00:00:00.000Z",
+    receivedAt: "2026-02-18T00:00:00.000Z",
+    sourceHost: null,
+    payload: {} as StoredClientCapture["payload"]
+  };
+}
+
+test("parseCombinedQuery reads filters, client selection and summaryOnly", () => {
+  const query = parseCombinedQuery(
+    new URLSearchParams("since=2026-01-01&until=2026-01-31&includeSource=claude,codex&excludeSource=gemini&includeClient=laptop&includeClient=desk top&summaryOnly")
+  );
+  assert.deepEqual(query.filter, {
+    since: "2026-01-01",
+    until: "2026-01-31",
+    includeSources: ["claude", "codex"],
+    excludeSources: ["gemini"]
+  });
+  assert.deepEqual(query.includeClients, ["laptop", "desk_top"]);
+  assert.equal(query.summaryOnly, true);
+  assert.equal(parseCombinedQuery(new URLSearchParams("summaryOnly=false")).summaryOnly, false);
+});
+
+test("parseCombinedQuery reports invalid parameters by their query name", () => {
+  assert.throws(() => parseCombinedQuery(new URLSearchParams("since=2026-13-01")), /Invalid date for since/);
+  assert.throws(() => parseCombinedQuery(new URLSearchParams("since=2026-02-01&until=2026-01-01")), /since 2026-02-01 is after until/);
+  assert.throws(() => parseCombinedQuery(new URLSearchParams("summaryOnly=maybe")), /summaryOnly must be true or false/);
+  assert.throws(() => parseCombinedQuery(new URLSearchParams("source=claude")), /Unknown query parameter: source/);
+});
+
+test("selectCaptures applies include and exclude client lists", () => {
+  const captures = ["desktop", "laptop", "server"].map(capture);
+  const ids = (query: string) => selectCaptures(captures, parseCombinedQuery(new URLSearchParams(query))).map((item) => item.clientId);
+  assert.deepEqual(ids(""), ["desktop", "laptop", "server"]);
+  assert.deepEqual(ids("includeClient=laptop,server"), ["laptop", "server"]);
+  assert.deepEqual(ids("includeClient=laptop,server&excludeClient=server"), ["laptop"]);
+  assert.deepEqual(ids("excludeClient=desktop"), ["laptop", "server"]);
+});
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { combineInputs, type TokenContributionData } from "../src/merge.js";
+import { computeCost, findRates, parsePricingTable } from "../src/pricing.js";
+
+function payloadWithRows(rows: { modelId: string; input: number; output: number; cost: number }[]): TokenContributionData {
+  return {
+    meta: { generatedAt: "2026-02-18T00:00:00.000Z", version: "0.1.0", dateRange: { start: "2026-02-01", end: "2026-02-01" } },
+    summary: {
+      totalTokens: 0,
+      totalCost: 0,
+      totalDays: 1,
+      activeDays: 1,
+      averagePerDay: 0,
+      maxCostInSingleDay: 0,
+      sources: [],
+      models: []
+    },
+    years: [],
+    contributions: [
+      {
+        date: "2026-02-01",
+        totals: { tokens: 0, cost: 0, messages: 0 },
+        intensity: 0,
+        tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+        sources: rows.map((row) => ({
+          source: "opencode",
+          modelId: row.modelId,
+          providerId: "zai",
+          tokens: { input: row.input, output: row.output, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+          cost: row.cost,
+          messages: 1
+        }))
+      }
+    ]
+  };
+}
+
+const table = parsePricingTable({
+  models: {
+    "glm-4.7": { input: 1, output: 4 },
+    "zai:glm-4.6": { input: 2, output: 2 },
+    "glm-4.6": { input: 100, output: 100 }
+  }
+});
+
+test("computeCost uses per-million rates and bills reasoning as output by default", () => {
+  const cost = computeCost({ input: 1_000_000, output: 500_000, cacheRead: 0, cacheWrite: 0, reasoning: 250_000 }, { input: 1, output: 4 });
+  assert.equal(cost, 1 + 2 + 1);
+});
+
+test("parsePricingTable rejects unknown token types and negative rates", () => {
+  assert.throws(() => parsePricingTable({ models: { m: { tokens: 1 } } }));
+  assert.throws(() => parsePricingTable({ models: { m: { input: -1 } } }));
+  assert.throws(() => parsePricingTable({}));
+});
+
+test("combineInputs fill mode only prices rows with missing cost", () => {
+  const payload = payloadWithRows([
+    { modelId: "glm-4.7", input: 1_000_000, output: 0, cost: 0 },
+    { modelId: "glm-4.6", input: 1_000_000, output: 0, cost: 5 },
+    { modelId: "unpriced", input: 1_000_000, output: 0, cost: 0 }
+  ]);
+  const { payload: combined, report } = combineInputs([{ payload }], { pricing: table });
+  assert.equal(combined.summary.totalCost, 6);
+  assert.deepEqual(
+    report.repricedRows.map((row) => [row.modelId, row.previousCost, row.cost]),
+    [["glm-4.7", 0, 1]]
+  );
+  assert.equal(combined.summary.repricedRows, 1);
+});
+
+test("combineInputs all mode recomputes priced rows with provider-qualified rates first", () => {
+  const payload = payloadWithRows([
+    { modelId: "glm-4.7", input: 0, output: 1_000_000, cost: 3 },
+    { modelId: "glm-4.6", input: 1_000_000, output: 0, cost: 5 }
+  ]);
+  const { payload: combined, report } = combineInputs([{ payload }], { pricing: table, repriceMode: "all" });
+  assert.equal(combined.summary.totalCost, 6);
+  assert.equal(report.repricedRows.length, 2);
+});
+
+test("combineInputs reprices only the rows a dedup strategy keeps", () => {
+  const small = payloadWithRows([{ modelId: "glm-4.7", input: 1_000_000, output: 0, cost: 0 }]);
+  const large = payloadWithRows([{ modelId: "glm-4.7", input: 2_000_000, output: 0, cost: 0 }]);
+  const { payload: combined, report } = combineInputs(
+    [
+      { payload: small, clientId: "laptop" },
+      { payload: large, clientId: "desktop" }
+    ],
+    { strategy: "max", pricing: table }
+  );
+  assert.equal(combined.summary.totalCost, 2);
+  assert.equal(combined.summary.repricedRows, 1);
+  assert.deepEqual(
+    report.repricedRows.map((row) => [row.modelId, row.previousCost, row.cost]),
+    [["glm-4.7", 0, 2]]
+  );
+  assert.equal(combineInputs([{ payload: small }]).payload.summary.repricedRows, undefined);
+});
+
+test("findRates ignores model IDs that match Object.prototype members", () => {
+  assert.equal(findRates(table, "constructor", "zai"), null);
+  assert.equal(findRates(table, "__proto__", "zai"), null);
+  assert.equal(findRates(table, "toString", "__proto__"), null);
+  assert.deepEqual(findRates(table, "glm-4.6", "zai"), { input: 2, output: 2 });
+});
+
+test("parsePricingTable keeps a __proto__ key as an ordinary entry", () => {
+  const parsed = parsePricingTable(JSON.parse('{"models":{"__proto__":{"input":7},"glm-4.7":{"input":1}}}'));
+  assert.deepEqual(findRates(parsed, "__proto__", "zai"), { input: 7 });
+  assert.deepEqual(findRates(parsed, "glm-4.7", "zai"), { input: 1 });
+  assert.equal(findRates(parsed, "unknown", "zai"), null);
+});
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { parseRateLimit, RateLimitError, UploadRateLimiter } from "../src/rate-limit.js";
+
+const MINUTE = 60 * 1000;
+const T0 = Date.parse("2026-02-18T12:00:00.000Z");
+
+function rejection(fn: () => void): RateLimitError {
+  try {
+    fn();
+  } catch (error) {
+    assert.ok(error instanceof RateLimitError);
+    return error;
+  }
+  assert.fail("expected a RateLimitError");
+}
+
+test("parseRateLimit reads count/duration and off", () => {
+  assert.deepEqual(parseRateLimit("30/1h"), { max: 30, windowMs: 60 * MINUTE });
+  assert.equal(parseRateLimit("OFF"), null);
+  assert.throws(() => parseRateLimit("30"), /Invalid rate limit: 30/);
+  assert.throws(() => parseRateLimit("0/1h"), /Invalid rate limit/);
+  assert.throws(() => parseRateLimit("5/soon"), /Invalid duration/);
+});
+
+test("UploadRateLimiter limits each address within a sliding window", () => {
+  const limiter = new UploadRateLimiter({ perClient: null, perIp: { max: 2, windowMs: 10 * MINUTE }, minIntervalMs: 0 });
+  limiter.checkIp("10.0.0.1", T0);
+  limiter.checkIp("10.0.0.1", T0 + 4 * MINUTE);
+  limiter.checkIp("10.0.0.2", T0 + 4 * MINUTE);
+
+  const error = rejection(() => limiter.checkIp("10.0.0.1", T0 + 5 * MINUTE));
+  assert.equal(error.reason, "ip");
+  assert.equal(error.retryAfterSeconds, 5 * 60);
+  assert.match(error.message, /Too many uploads from 10\.0\.0\.1 \(limit 2 per 10m\)/);
+
+  // The rejected request was not counted, so the first slot frees up on time.
+  limiter.checkIp("10.0.0.1", T0 + 10 * MINUTE);
+  assert.deepEqual(limiter.status(T0 + 10 * MINUTE).ips, [
+    { ip: "10.0.0.1", recent: 2, rejected: 1 },
+    { ip: "10.0.0.2", recent: 1, rejected: 0 }
+  ]);
+});
+
+test("UploadRateLimiter enforces the per-client limit and the minimum interval between accepted uploads", () => {
+  const limiter = new UploadRateLimiter({ perClient: { max: 3, windowMs: 60 * MINUTE }, perIp: null, minIntervalMs: 5 * MINUTE });
+  limiter.checkClient("laptop", T0);
+  limiter.recordAccepted("laptop", T0);
+
+  const tooSoon = rejection(() => limiter.checkClient("laptop", T0 + 2 * MINUTE));
+  assert.equal(tooSoon.reason, "interval");
+  assert.equal(tooSoon.retryAfterSeconds, 3 * 60);
+
+  // Failed uploads count towards the window but do not start the interval.
+  limiter.checkClient("laptop", T0 + 6 * MINUTE);
+  limiter.checkClient("laptop", T0 + 7 * MINUTE);
+  const tooMany = rejection(() => limiter.checkClient("laptop", T0 + 8 * MINUTE));
+  assert.equal(tooMany.reason, "client");
+  assert.equal(tooMany.retryAfterSeconds, 52 * 60);
+  limiter.checkClient("desktop", T0 + 8 * MINUTE);
+
+  const status = limiter.status(T0 + 8 * MINUTE);
+  assert.deepEqual(status.rejected, { ip: 0, client: 1, interval: 1 });
+  assert.deepEqual(status.clients, [
+    { clientId: "desktop", recent: 1, rejected: 0, lastAcceptedAt: null },
+    { clientId: "laptop", recent: 3, rejected: 2, lastAcceptedAt: "2026-02-18T12:00:00.000Z" }
+  ]);
+
+  limiter.prune(T0 + 2 * 60 * MINUTE);
+  assert.deepEqual(limiter.status(T0 + 2 * 60 * MINUTE).clients, []);
+  assert.deepEqual(limiter.status().rejected, { ip: 0, client: 1, interval: 1 });
+});
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { evaluateReadiness, type ReadinessPolicy } from "../src/readiness.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const slot = new Date("2026-02-18T02:00:00.000Z");
+
+function policy(overrides: Partial<ReadinessPolicy> = {}): ReadinessPolicy {
+  return { expectedClients: ["desktop", "laptop", "server"], quorum: null, windowMs: 24 * HOUR_MS, maxWaitMs: 6 * HOUR_MS, ...overrides };
+}
+
+const captures = [
+  { clientId: "desktop", receivedAt: "2026-02-17T22:00:00.000Z" },
+  { clientId: "laptop", receivedAt: "2026-02-16T09:00:00.000Z" },
+  { clientId: "unlisted", receivedAt: "2026-02-18T01:00:00.000Z" }
+];
+
+test("evaluateReadiness waits until every expected client uploaded since the cutoff", () => {
+  const report = evaluateReadiness(policy(), captures, slot, new Date("2026-02-18T03:00:00.000Z"));
+  assert.equal(report.policy, "all");
+  assert.equal(report.required, 3);
+  assert.equal(report.decision, "waiting");
+  assert.equal(report.cutoff, "2026-02-17T02:00:00.000Z");
+  assert.equal(report.deadline, "2026-02-18T08:00:00.000Z");
+  assert.deepEqual(report.ready, ["desktop"]);
+  assert.deepEqual(report.missing, ["laptop", "server"]);
+
+  const fresh = [...captures, { clientId: "laptop", receivedAt: "2026-02-18T02:30:00.000Z" }, { clientId: "server", receivedAt: "2026-02-18T01:00:00.000Z" }];
+  assert.equal(evaluateReadiness(policy(), fresh, slot, new Date("2026-02-18T03:00:00.000Z")).decision, "ready");
+});
+
+test("evaluateReadiness submits once a quorum is fresh", () => {
+  const report = evaluateReadiness(policy({ quorum: 1 }), captures, slot, slot);
+  assert.equal(report.policy, "quorum");
+  assert.equal(report.decision, "ready");
+  assert.deepEqual(report.missing, ["laptop", "server"]);
+});
+
+test("evaluateReadiness gives up waiting at the deadline", () => {
+  const report = evaluateReadiness(policy(), captures, slot, new Date("2026-02-18T08:00:00.000Z"));
+  assert.equal(report.decision, "deadline");
+  assert.deepEqual(report.missing, ["laptop", "server"]);
+});
+
+test("evaluateReadiness counts a pinned client as ready", () => {
+  const pinned = captures.map((capture) => (capture.clientId === "laptop" ? { ...capture, pinnedAt: "2026-02-16T10:00:00.000Z" } : capture));
+  assert.deepEqual(evaluateReadiness(policy(), pinned, slot, slot).ready, ["desktop", "laptop"]);
+});
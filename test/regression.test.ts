@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { recomputeDerivedFields, type TokenContributionData } from "../src/merge.js";
+import { detectRegression } from "../src/regression.js";
+
+function payload(days: Record<string, number>): TokenContributionData {
+  return recomputeDerivedFields({
+    meta: { generatedAt: "2026-02-18T00:00:00.000Z", version: "1", dateRange: { start: "", end: "" } },
+    summary: {
+      totalTokens: 0,
+      totalCost: 0,
+      totalDays: 0,
+      activeDays: 0,
+      averagePerDay: 0,
+      maxCostInSingleDay: 0,
+      sources: [],
+      models: []
+    },
+    years: [],
+    contributions: Object.entries(days).map(([date, input]) => ({
+      date,
+      totals: { tokens: 0, cost: 0, messages: 0 },
+      intensity: 0,
+      tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+      sources: [
+        {
+          source: "claude",
+          modelId: "claude-sonnet-4",
+          providerId: "anthropic",
+          tokens: { input, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+          cost: input / 1000,
+          messages: 1
+        }
+      ]
+    }))
+  });
+}
+
+test("detectRegression accepts a payload that only grows", () => {
+  const check = detectRegression(
+    payload({ "2026-02-16": 100, "2026-02-17": 200 }),
+    payload({ "2026-02-16": 100, "2026-02-17": 250, "2026-02-18": 50 }),
+    0.1
+  );
+  assert.equal(check.regressed, false);
+  assert.deepEqual(check.reasons, []);
+});
+
+test("detectRegression flags days that disappeared", () => {
+  const check = detectRegression(
+    payload({ "2026-02-15": 10, "2026-02-16": 100, "2026-02-17": 200 }),
+    payload({ "2026-02-17": 300, "2026-02-18": 50 }),
+    0.5
+  );
+  assert.equal(check.regressed, true);
+  assert.deepEqual(check.missingDays, ["2026-02-15", "2026-02-16"]);
+  assert.equal(check.reasons.length, 1);
+});
+
+test("detectRegression flags totals that drop beyond the threshold", () => {
+  const previous = payload({ "2026-02-16": 1000 });
+  assert.equal(detectRegression(previous, payload({ "2026-02-16": 950 }), 0.1).regressed, false);
+
+  const check = detectRegression(previous, payload({ "2026-02-16": 800 }), 0.1);
+  assert.equal(check.regressed, true);
+  assert.equal(check.previous.tokens, 1000);
+  assert.equal(check.next.tokens, 800);
+  assert.match(check.reasons[0], /total tokens dropped 20\.0%/);
+});
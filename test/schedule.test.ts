@@ -1,6 +1,7 @@
 import assert from "node:assert/strict";
 import test from "node:test";
-import { parseDurationMs, shouldRunDailySubmit } from "../src/schedule.js";
+import { parseCron } from "../src/cron.js";
+import { dailyUtcSchedule, dueSubmitSlot, nextSubmitSlot, parseDurationMs, reopenLatestSlot } from "../src/schedule.js";
 
 test("parseDurationMs parses hour and minute values", () => {
   assert.equal(parseDurationMs("5h"), 5 * 60 * 60 * 1000);
@@ -16,20 +17,49 @@ test("parseDurationMs rejects invalid or zero values", () => {
   assert.throws(() => parseDurationMs("abc"));
 });
 
-test("shouldRunDailySubmit waits for the configured utc hour", () => {
+test("dueSubmitSlot waits for the configured utc hour", () => {
   const now = new Date("2026-02-18T01:30:00.000Z");
-  assert.equal(shouldRunDailySubmit(now, null, 2), false);
+  assert.equal(dueSubmitSlot(dailyUtcSchedule(2), now, null), null);
+  assert.equal(dueSubmitSlot(dailyUtcSchedule(2), now, "2026-02-17T02:00:00.000Z"), null);
 });
 
-test("shouldRunDailySubmit runs once after the configured utc hour", () => {
+test("dueSubmitSlot treats every slot before a fresh state as claimed", () => {
+  assert.equal(dueSubmitSlot(dailyUtcSchedule(2), new Date("2026-02-18T03:30:00.000Z"), null), null);
+  // The server seeds a fresh state with its start time, so only the 02:00 slot after it runs.
+  const seeded = "2026-02-18T01:30:00.000Z";
+  assert.equal(dueSubmitSlot(dailyUtcSchedule(2), new Date("2026-02-18T01:45:00.000Z"), seeded), null);
+  assert.equal(dueSubmitSlot(dailyUtcSchedule(2), new Date("2026-02-18T02:00:00.000Z"), seeded)?.toISOString(), "2026-02-18T02:00:00.000Z");
+});
+
+test("dueSubmitSlot runs once after the configured utc hour", () => {
+  const now = new Date("2026-02-18T03:30:00.000Z");
+  assert.equal(dueSubmitSlot(dailyUtcSchedule(2), now, "2026-02-17T02:00:00.000Z")?.toISOString(), "2026-02-18T02:00:00.000Z");
+  assert.equal(dueSubmitSlot(dailyUtcSchedule(2), now, "2026-02-18T02:00:00.000Z"), null);
+});
+
+test("reopenLatestSlot makes the latest slot due again", () => {
   const now = new Date("2026-02-18T03:30:00.000Z");
-  assert.equal(shouldRunDailySubmit(now, null, 2), true);
-  assert.equal(shouldRunDailySubmit(now, "2026-02-18", 2), false);
+  const reopened = reopenLatestSlot(dailyUtcSchedule(2), now);
+  assert.equal(dueSubmitSlot(dailyUtcSchedule(2), now, reopened)?.toISOString(), "2026-02-18T02:00:00.000Z");
 });
 
-test("shouldRunDailySubmit skips next day until hour then runs", () => {
+test("dueSubmitSlot skips next day until hour then runs", () => {
   const beforeHour = new Date("2026-02-19T00:30:00.000Z");
   const atHour = new Date("2026-02-19T02:00:00.000Z");
-  assert.equal(shouldRunDailySubmit(beforeHour, "2026-02-18", 2), false);
-  assert.equal(shouldRunDailySubmit(atHour, "2026-02-18", 2), true);
+  assert.equal(dueSubmitSlot(dailyUtcSchedule(2), beforeHour, "2026-02-18T02:00:00.000Z"), null);
+  assert.equal(dueSubmitSlot(dailyUtcSchedule(2), atHour, "2026-02-18T02:00:00.000Z")?.toISOString(), "2026-02-19T02:00:00.000Z");
+});
+
+test("dueSubmitSlot runs each slot of a twice-daily local schedule once", () => {
+  const schedule = { cron: parseCron("0 9,17 * * 1-5"), timeZone: "Europe/Berlin" };
+  const morning = dueSubmitSlot(schedule, new Date("2026-02-18T10:00:00.000Z"), "2026-02-17T16:00:00.000Z");
+  assert.equal(morning?.toISOString(), "2026-02-18T08:00:00.000Z");
+  assert.equal(dueSubmitSlot(schedule, new Date("2026-02-18T15:59:00.000Z"), morning?.toISOString() ?? null), null);
+  assert.equal(dueSubmitSlot(schedule, new Date("2026-02-18T16:00:00.000Z"), morning?.toISOString() ?? null)?.toISOString(), "2026-02-18T16:00:00.000Z");
+  assert.equal(nextSubmitSlot(schedule, new Date("2026-02-20T16:00:00.000Z"))?.toISOString(), "2026-02-23T08:00:00.000Z");
+});
+
+test("dueSubmitSlot ignores slots older than the last claimed one", () => {
+  const schedule = { cron: parseCron("0 9 * * *"), timeZone: "UTC" };
+  assert.equal(dueSubmitSlot(schedule, new Date("2026-02-18T12:00:00.000Z"), "2026-02-18T10:00:00.000Z"), null);
 });
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { once } from "node:events";
+import { mkdtemp, rm } from "node:fs/promises";
+import { createServer, type AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+const CLI = fileURLToPath(new URL("../src/cli.js", import.meta.url));
+
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  return port;
+}
+
+/** Runs `tk-proxy --server` in a child process on a free port until `fn` settles. */
+async function withServer(args: string[], fn: (baseUrl: string) => Promise<void>): Promise<void> {
+  const dataDir = await mkdtemp(path.join(tmpdir(), "tk-proxy-server-"));
+  const port = await freePort();
+  const child = spawn(process.execPath, [CLI, "--server", "--host", "127.0.0.1", "--port", String(port), "--data-dir", dataDir, ...args], {
+    stdio: ["ignore", "pipe", "pipe"]
+  });
+  try {
+    await new Promise<void>((resolve, reject) => {
+      let output = "";
+      child.stdout.on("data", (chunk: Buffer) => {
+        output += chunk.toString();
+        if (output.includes("listening on")) resolve();
+      });
+      child.once("exit", (code) => reject(new Error(`server exited with code ${code}: ${output}`)));
+    });
+    await fn(`http://127.0.0.1:${port}`);
+  } finally {
+    if (child.exitCode === null) {
+      child.kill();
+      await once(child, "exit");
+    }
+    await rm(dataDir, { recursive: true, force: true });
+  }
+}
+
+test("GET /dashboard?token= only starts a session for the admin token", async () => {
+  await withServer(["--auth-token", "s3cret"], async (baseUrl) => {
+    for (const [query, message] of [
+      ["", "Enter a token."],
+      ["wrong", "Invalid token."]
+    ]) {
+      const response = await fetch(`${baseUrl}/dashboard?token=${query}`, { redirect: "manual" });
+      assert.equal(response.status, 401);
+      assert.equal(response.headers.get("set-cookie"), null);
+      assert.match(await response.text(), new RegExp(message.replace(".", "\\.")));
+    }
+    assert.equal((await fetch(`${baseUrl}/dashboard`, { headers: { cookie: "tk_proxy_session=s3cret" } })).status, 401);
+
+    const login = await fetch(`${baseUrl}/dashboard?token=s3cret`, { redirect: "manual" });
+    assert.equal(login.status, 303);
+    const cookie = (login.headers.get("set-cookie") ?? "").split(";")[0];
+    assert.match(cookie, /^tk_proxy_session=[A-Za-z0-9_-]{43}$/);
+    assert.equal((await fetch(`${baseUrl}/dashboard`, { headers: { cookie } })).status, 200);
+  });
+});
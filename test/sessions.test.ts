@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { DashboardSessions } from "../src/sessions.js";
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.parse("2026-02-18T12:00:00.000Z");
+
+test("DashboardSessions issues random IDs that expire and end on logout", () => {
+  const sessions = new DashboardSessions(HOUR);
+  const first = sessions.create(T0);
+  const second = sessions.create(T0);
+  assert.notEqual(first, second);
+  assert.match(first, /^[A-Za-z0-9_-]{43}$/);
+
+  assert.equal(sessions.isValid(first, T0 + HOUR - 1), true);
+  assert.equal(sessions.isValid(first, T0 + HOUR), false);
+  assert.equal(sessions.isValid("unknown", T0), false);
+  assert.equal(sessions.isValid(null, T0), false);
+
+  sessions.end(second);
+  assert.equal(sessions.isValid(second, T0), false);
+
+  sessions.create(T0 + 2 * HOUR);
+  assert.equal(sessions.size, 1);
+});
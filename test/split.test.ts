@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { combinePayloads, type TokenContributionData } from "../src/merge.js";
+import { splitPayload } from "../src/split.js";
+import { verifyPayload } from "../src/verify.js";
+
+function payload(): TokenContributionData {
+  const day = (date: string, rows: { source: string; providerId: string; input: number; cost: number }[]) => ({
+    date,
+    totals: { tokens: 0, cost: 0, messages: 0 },
+    intensity: 0,
+    tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+    sources: rows.map((row) => ({
+      source: row.source,
+      modelId: `${row.source}-model`,
+      providerId: row.providerId,
+      tokens: { input: row.input, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+      cost: row.cost,
+      messages: 1
+    }))
+  });
+  return combinePayloads([
+    {
+      meta: { generatedAt: "2026-02-18T00:00:00.000Z", version: "0.1.0", dateRange: { start: "", end: "" } },
+      summary: {
+        totalTokens: 0,
+        totalCost: 0,
+        totalDays: 0,
+        activeDays: 0,
+        averagePerDay: 0,
+        maxCostInSingleDay: 0,
+        sources: [],
+        models: []
+      },
+      years: [],
+      contributions: [
+        day("2025-12-31", [{ source: "codex", providerId: "openai", input: 10, cost: 1 }]),
+        day("2026-01-01", [
+          { source: "codex", providerId: "openai", input: 20, cost: 2 },
+          { source: "claude", providerId: "anthropic", input: 30, cost: 3 }
+        ])
+      ]
+    }
+  ]);
+}
+
+test("splitPayload by source produces valid standalone payloads", () => {
+  const parts = splitPayload(payload(), "source");
+  assert.deepEqual([...parts.keys()], ["claude", "codex"]);
+
+  const codex = parts.get("codex");
+  assert.ok(codex);
+  assert.equal(codex.summary.totalTokens, 30);
+  assert.equal(codex.summary.totalCost, 3);
+  assert.deepEqual(codex.summary.sources, ["codex"]);
+  assert.deepEqual(codex.years.map((year) => [year.year, year.totalTokens]), [["2025", 10], ["2026", 20]]);
+  assert.equal(verifyPayload(codex).ok, true);
+
+  const claude = parts.get("claude");
+  assert.ok(claude);
+  assert.equal(claude.contributions.length, 1);
+  assert.equal(claude.contributions[0].intensity, 4);
+});
+
+test("splitPayload by year keeps whole days together", () => {
+  const parts = splitPayload(payload(), "year");
+  assert.deepEqual([...parts.keys()], ["2025", "2026"]);
+  assert.equal(parts.get("2026")?.summary.totalTokens, 50);
+  assert.equal(parts.get("2026")?.meta.dateRange.start, "2026-01-01");
+});
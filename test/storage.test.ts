@@ -0,0 +1,184 @@
+import assert from "node:assert/strict";
+import { access, mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import {
+  listCaptureHistory,
+  listQuarantinedCaptures,
+  readClientCaptureFiles,
+  readClientCaptureSummaries,
+  storeClientCapture,
+  type RetentionPolicy
+} from "../src/capture-store.js";
+import { issueClientToken } from "../src/credentials.js";
+import { storageDbFile, submissionsDir } from "../src/data-dir.js";
+import { combineInputs, recomputeDerivedFields, type TokenContributionData } from "../src/merge.js";
+import { closeStorage, detectStorageKind, jsonStorage, migrateToSqlite, parseStorageKind, prepareStorage, storageFor } from "../src/storage.js";
+import { readSubmissionHistory, writeSubmissionRecord } from "../src/submissions.js";
+
+const hasSqlite = await import("node:sqlite").then(
+  () => true,
+  () => false
+);
+const KEEP_ALL: RetentionPolicy = { keepCount: null, keepDays: null };
+
+function payload(input: number): TokenContributionData {
+  return recomputeDerivedFields({
+    meta: { generatedAt: "2026-02-18T00:00:00.000Z", version: "1", dateRange: { start: "", end: "" } },
+    summary: {
+      totalTokens: 0,
+      totalCost: 0,
+      totalDays: 0,
+      activeDays: 0,
+      averagePerDay: 0,
+      maxCostInSingleDay: 0,
+      sources: [],
+      models: []
+    },
+    years: [],
+    contributions: [
+      {
+        date: "2026-02-17",
+        totals: { tokens: 0, cost: 0, messages: 0 },
+        intensity: 0,
+        tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+        sources: [
+          {
+            source: "codex",
+            modelId: "gpt-5",
+            providerId: "openai",
+            tokens: { input, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+            cost: 1,
+            messages: 1
+          }
+        ]
+      }
+    ]
+  });
+}
+
+function upload(clientId: string, input: number) {
+  return { clientId, capturedAt: "2026-02-18T00:00:00.000Z", payload: payload(input), sourceHost: null };
+}
+
+/** Fills a JSON data dir with two clients, a quarantined upload, two submission records and server state. */
+async function seedJsonDataDir(dataDir: string): Promise<void> {
+  await storeClientCapture(dataDir, upload("desktop", 100), KEEP_ALL);
+  await storeClientCapture(dataDir, upload("desktop", 200), KEEP_ALL);
+  await storeClientCapture(dataDir, upload("laptop", 50), KEEP_ALL);
+  await storeClientCapture(dataDir, upload("laptop", 10), KEEP_ALL, { enabled: true, threshold: 0.1 });
+  const combined = combineInputs([{ payload: payload(200), clientId: "desktop" }]);
+  await writeSubmissionRecord(dataDir, { key: "2026-02-17T020000", date: "2026-02-17" }, combined, { mode: "submit", response: { submissionId: "sub-1" } });
+  await writeSubmissionRecord(dataDir, { key: "2026-02-18T020000", date: "2026-02-18" }, combined, { mode: "dry-run", response: {} }, { group: "work" });
+  await jsonStorage(dataDir).writeState({ lastSubmittedDate: "2026-02-17" });
+}
+
+test("parseStorageKind accepts json and sqlite", () => {
+  assert.equal(parseStorageKind("json"), "json");
+  assert.equal(parseStorageKind(" SQLite "), "sqlite");
+  assert.throws(() => parseStorageKind("postgres"), /Invalid storage backend: postgres/);
+});
+
+test("prepareStorage refuses a backend that does not match the data dir", async () => {
+  const dataDir = await mkdtemp(path.join(tmpdir(), "tk-proxy-storage-"));
+  try {
+    await storeClientCapture(dataDir, upload("desktop", 100), KEEP_ALL);
+    await assert.rejects(prepareStorage(dataDir, "sqlite"), /holds JSON data; import it first with --migrate-storage/);
+    assert.equal((await prepareStorage(dataDir, null)).kind, "json");
+
+    const sqliteDir = path.join(dataDir, "db");
+    await mkdir(sqliteDir);
+    await writeFile(path.join(sqliteDir, "tk-proxy.sqlite"), "");
+    assert.equal(await detectStorageKind(sqliteDir), "sqlite");
+    await assert.rejects(prepareStorage(sqliteDir, "json"), /uses SQLite storage/);
+    await assert.rejects(migrateToSqlite(sqliteDir), /already uses SQLite storage/);
+    await assert.rejects(migrateToSqlite(dataDir, sqliteDir), /SQLite database already exists/);
+  } finally {
+    await rm(dataDir, { recursive: true, force: true });
+  }
+});
+
+test("migrateToSqlite imports captures, submissions and state into a new data dir", { skip: !hasSqlite && "node:sqlite not available" }, async () => {
+  const root = await mkdtemp(path.join(tmpdir(), "tk-proxy-storage-"));
+  const source = path.join(root, "json");
+  const target = path.join(root, "sqlite");
+  try {
+    await seedJsonDataDir(source);
+    await issueClientToken(source, "desktop");
+    // Records written before provenance existed have no provenance file.
+    await rm(path.join(submissionsDir(source, "work"), "2026-02-18T020000.provenance.json"));
+
+    const summary = await migrateToSqlite(source, target);
+    assert.deepEqual(
+      { ...summary, database: path.basename(summary.database) },
+      { database: "tk-proxy.sqlite", clients: 2, history: 3, quarantined: 1, submissions: 2, state: true, copiedFiles: ["tokens.json"] }
+    );
+    assert.equal((await storageFor(target)).kind, "sqlite");
+    assert.equal((await storageFor(source)).kind, "json");
+
+    assert.deepEqual(await readClientCaptureFiles(target), await readClientCaptureFiles(source));
+    assert.deepEqual(await listCaptureHistory(target, "desktop"), await listCaptureHistory(source, "desktop"));
+    assert.deepEqual(await listQuarantinedCaptures(target), await listQuarantinedCaptures(source));
+    assert.deepEqual(await readSubmissionHistory(target), await readSubmissionHistory(source));
+    assert.equal((await (await storageFor(target)).readSubmission("work", "2026-02-18T020000"))?.provenance, null);
+    assert.deepEqual(await (await storageFor(target)).readSubmission(null, "2026-02-17T020000"), await jsonStorage(source).readSubmission(null, "2026-02-17T020000"));
+    assert.deepEqual(await (await storageFor(target)).readState(), { lastSubmittedDate: "2026-02-17" });
+    await access(path.join(target, "tokens.json"));
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
+
+test("a data dir migrated in place switches to SQLite for later writes", { skip: !hasSqlite && "node:sqlite not available" }, async () => {
+  const dataDir = await mkdtemp(path.join(tmpdir(), "tk-proxy-storage-"));
+  try {
+    await seedJsonDataDir(dataDir);
+    assert.equal((await storageFor(dataDir)).kind, "json");
+    await migrateToSqlite(dataDir);
+    assert.equal((await storageFor(dataDir)).kind, "sqlite");
+
+    await storeClientCapture(dataDir, upload("tablet", 30), KEEP_ALL);
+    assert.deepEqual(
+      (await readClientCaptureFiles(dataDir)).map((capture) => capture.clientId),
+      ["desktop", "laptop", "tablet"]
+    );
+    assert.deepEqual(
+      (await jsonStorage(dataDir).listActiveCaptures()).map((capture) => capture.clientId).sort(),
+      ["desktop", "laptop"]
+    );
+  } finally {
+    await rm(dataDir, { recursive: true, force: true });
+  }
+});
+
+test("SQLite listings read the summary columns without parsing payloads", { skip: !hasSqlite && "node:sqlite not available" }, async () => {
+  const dataDir = await mkdtemp(path.join(tmpdir(), "tk-proxy-storage-"));
+  try {
+    await prepareStorage(dataDir, "sqlite");
+    await storeClientCapture(dataDir, upload("desktop", 100), KEEP_ALL);
+    await storeClientCapture(dataDir, upload("desktop", 200), KEEP_ALL);
+    await closeStorage(dataDir);
+
+    const { DatabaseSync } = await import("node:sqlite");
+    const db = new DatabaseSync(storageDbFile(dataDir));
+    db.exec("UPDATE clients SET payload = '{'; UPDATE captures SET payload = '{';");
+    db.close();
+
+    assert.deepEqual(
+      (await listCaptureHistory(dataDir, "desktop")).map((entry) => [entry.totalTokens, entry.totalCost, entry.activeDays, entry.active]),
+      [
+        [200, 1, 1, true],
+        [100, 1, 1, false]
+      ]
+    );
+    assert.deepEqual(
+      (await readClientCaptureSummaries(dataDir)).map((capture) => [capture.clientId, capture.totalTokens]),
+      [["desktop", 200]]
+    );
+    assert.deepEqual(await readClientCaptureFiles(dataDir), []);
+  } finally {
+    await closeStorage(dataDir);
+    await rm(dataDir, { recursive: true, force: true });
+  }
+});
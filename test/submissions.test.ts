@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { access, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { combineInputs, recomputeDerivedFields, type TokenContributionData } from "../src/merge.js";
+import { parseCron } from "../src/cron.js";
+import { submissionSlot } from "../src/schedule.js";
+import { readSubmissionHistory, writeSubmissionRecord } from "../src/submissions.js";
+
+const slotOn = (date: string) => ({ key: `${date}T020000`, date });
+
+function payload(date: string, input: number): TokenContributionData {
+  return recomputeDerivedFields({
+    meta: { generatedAt: "2026-02-18T00:00:00.000Z", version: "1", dateRange: { start: "", end: "" } },
+    summary: {
+      totalTokens: 0,
+      totalCost: 0,
+      totalDays: 0,
+      activeDays: 0,
+      averagePerDay: 0,
+      maxCostInSingleDay: 0,
+      sources: [],
+      models: []
+    },
+    years: [],
+    contributions: [
+      {
+        date,
+        totals: { tokens: 0, cost: 0, messages: 0 },
+        intensity: 0,
+        tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+        sources: [
+          {
+            source: "codex",
+            modelId: "gpt-5",
+            providerId: "openai",
+            tokens: { input, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+            cost: 1,
+            messages: 1
+          }
+        ]
+      }
+    ]
+  });
+}
+
+test("readSubmissionHistory lists stored submissions newest first", async () => {
+  const dataDir = await mkdtemp(path.join(tmpdir(), "tk-proxy-submissions-"));
+  try {
+    await writeSubmissionRecord(dataDir, slotOn("2026-02-17"), combineInputs([{ payload: payload("2026-02-16", 10), clientId: "a" }]), {
+      mode: "dry-run",
+      response: {}
+    });
+    await writeSubmissionRecord(
+      dataDir,
+      slotOn("2026-02-18"),
+      combineInputs([
+        { payload: payload("2026-02-17", 20), clientId: "a" },
+        { payload: payload("2026-02-17", 5), clientId: "b" }
+      ]),
+      { mode: "submit", response: { submissionId: "sub-2" } }
+    );
+    await writeFile(path.join(dataDir, "submissions", "2026-02-19.json"), "{not json", "utf8");
+
+    const history = await readSubmissionHistory(dataDir);
+    assert.deepEqual(
+      history.map((item) => [item.submittedDate, item.mode, item.submissionId, item.totalTokens, item.clients]),
+      [
+        ["2026-02-18", "submit", "sub-2", 25, ["a", "b"]],
+        ["2026-02-17", "dry-run", null, 10, ["a"]]
+      ]
+    );
+    assert.equal((await readSubmissionHistory(dataDir, 1)).length, 1);
+  } finally {
+    await rm(dataDir, { recursive: true, force: true });
+  }
+});
+
+test("readSubmissionHistory includes the records of every client group", async () => {
+  const dataDir = await mkdtemp(path.join(tmpdir(), "tk-proxy-submissions-"));
+  try {
+    const combined = (clientId: string) => combineInputs([{ payload: payload("2026-02-17", 10), clientId }]);
+    await writeSubmissionRecord(dataDir, slotOn("2026-02-18"), combined("desktop"), { mode: "submit", response: {} }, { group: "personal" });
+    await writeSubmissionRecord(dataDir, slotOn("2026-02-18"), combined("work-laptop"), { mode: "submit", response: {} }, { group: "work" });
+    await writeSubmissionRecord(dataDir, slotOn("2026-02-17"), combined("desktop"), { mode: "dry-run", response: {} });
+
+    const record = JSON.parse(await readFile(path.join(dataDir, "submissions", "work", "2026-02-18T020000.json"), "utf8"));
+    assert.equal(record.group, "work");
+    assert.deepEqual(
+      (await readSubmissionHistory(dataDir)).map((item) => [item.submittedDate, item.group, item.clients]),
+      [
+        ["2026-02-18", "personal", ["desktop"]],
+        ["2026-02-18", "work", ["work-laptop"]],
+        ["2026-02-17", null, ["desktop"]]
+      ]
+    );
+  } finally {
+    await rm(dataDir, { recursive: true, force: true });
+  }
+});
+
+test("two slots on one day keep separate submission records", async () => {
+  const dataDir = await mkdtemp(path.join(tmpdir(), "tk-proxy-submissions-"));
+  try {
+    const schedule = { cron: parseCron("0 9,21 * * *"), timeZone: "America/New_York" };
+    const morning = submissionSlot(schedule, new Date("2026-02-17T14:00:00.000Z"));
+    const evening = submissionSlot(schedule, new Date("2026-02-18T02:00:00.000Z"));
+    assert.deepEqual(morning, { key: "2026-02-17T090000", date: "2026-02-17" });
+    assert.deepEqual(evening, { key: "2026-02-17T210000", date: "2026-02-17" });
+
+    await writeSubmissionRecord(dataDir, morning, combineInputs([{ payload: payload("2026-02-16", 10), clientId: "a" }]), { mode: "submit", response: {} });
+    await writeSubmissionRecord(dataDir, evening, combineInputs([{ payload: payload("2026-02-17", 20), clientId: "a" }]), { mode: "submit", response: {} });
+    await access(path.join(dataDir, "submissions", "2026-02-17T090000.provenance.json"));
+    assert.deepEqual(
+      (await readSubmissionHistory(dataDir)).map((item) => [item.slotKey, item.submittedDate, item.totalTokens]),
+      [
+        ["2026-02-17T210000", "2026-02-17", 20],
+        ["2026-02-17T090000", "2026-02-17", 10]
+      ]
+    );
+  } finally {
+    await rm(dataDir, { recursive: true, force: true });
+  }
+});
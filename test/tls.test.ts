@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { execFileSync, spawnSync } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { createServer } from "node:https";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { loadServerTlsMaterial, sendHttpRequest, type ClientTlsOptions } from "../src/tls.js";
+
+const hasOpenssl = spawnSync("openssl", ["version"]).status === 0;
+
+/** Creates a throwaway CA plus a server certificate for 127.0.0.1 and a client certificate, both signed by it. */
+async function createCertificates(dir: string): Promise<void> {
+  const openssl = (...args: string[]) => execFileSync("openssl", args, { cwd: dir, stdio: "ignore" });
+  const newKey = ["-newkey", "ec", "-pkeyopt", "ec_paramgen_curve:prime256v1", "-nodes"];
+  openssl("req", "-x509", ...newKey, "-keyout", "ca.key", "-out", "ca.pem", "-days", "1", "-subj", "/CN=tk-proxy test CA");
+  await writeFile(path.join(dir, "server.ext"), "subjectAltName=IP:127.0.0.1\n");
+  for (const name of ["server", "client"]) {
+    openssl("req", ...newKey, "-keyout", `${name}.key`, "-out", `${name}.csr`, "-subj", `/CN=${name}`);
+    const extensions = name === "server" ? ["-extfile", "server.ext"] : [];
+    openssl("x509", "-req", "-in", `${name}.csr`, "-CA", "ca.pem", "-CAkey", "ca.key", "-CAcreateserial", "-out", `${name}.pem`, "-days", "1", ...extensions);
+  }
+}
+
+test("loadServerTlsMaterial names the file it cannot read", async () => {
+  await assert.rejects(
+    loadServerTlsMaterial({ certFile: "/nonexistent/server.pem", keyFile: "/nonexistent/server.key", clientCaFile: null }),
+    /Cannot read TLS certificate \/nonexistent\/server.pem/
+  );
+});
+
+test("sendHttpRequest verifies a private CA and presents a client certificate for mutual TLS", { skip: !hasOpenssl && "openssl not available" }, async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), "tk-proxy-tls-"));
+  const file = (name: string) => path.join(dir, name);
+  try {
+    await createCertificates(dir);
+    const material = await loadServerTlsMaterial({ certFile: file("server.pem"), keyFile: file("server.key"), clientCaFile: file("ca.pem") });
+    assert.equal(material.requestCert, true);
+    const server = createServer(material, (req, res) => {
+      res.end(JSON.stringify({ method: req.method }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+    const url = `https://127.0.0.1:${(server.address() as AddressInfo).port}/healthz`;
+    const send = (tls: ClientTlsOptions) => sendHttpRequest(url, { method: "GET", headers: {}, timeoutMs: 5000, tls });
+    try {
+      const response = await send({ caFile: file("ca.pem"), certFile: file("client.pem"), keyFile: file("client.key") });
+      assert.equal(response.status, 200);
+      assert.deepEqual(JSON.parse(response.text), { method: "GET" });
+
+      await assert.rejects(send({ caFile: null, certFile: file("client.pem"), keyFile: file("client.key") }));
+      await assert.rejects(send({ caFile: file("ca.pem"), certFile: null, keyFile: null }));
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
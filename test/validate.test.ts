@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { toJsonPointer, validateTokenContributionData } from "../src/validate.js";
+
+function validPayload() {
+  return {
+    meta: { generatedAt: "2026-02-18T00:00:00.000Z", version: "0.1.0", dateRange: { start: "2026-02-01", end: "2026-02-01" } },
+    summary: {
+      totalTokens: 12,
+      totalCost: 1.5,
+      totalDays: 1,
+      activeDays: 1,
+      averagePerDay: 1.5,
+      maxCostInSingleDay: 1.5,
+      sources: ["codex"],
+      models: ["m1"]
+    },
+    years: [{ year: "2026", totalTokens: 12, totalCost: 1.5, range: { start: "2026-02-01", end: "2026-02-01" } }],
+    contributions: [
+      {
+        date: "2026-02-01",
+        totals: { tokens: 12, cost: 1.5, messages: 2 },
+        intensity: 4,
+        tokenBreakdown: { input: 10, output: 2, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+        sources: [
+          {
+            source: "codex",
+            modelId: "m1",
+            providerId: "openai",
+            tokens: { input: 10, output: 2, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+            cost: 1.5,
+            messages: 2
+          }
+        ]
+      }
+    ]
+  };
+}
+
+test("validateTokenContributionData accepts a consistent payload in strict mode", () => {
+  const result = validateTokenContributionData(validPayload(), "strict");
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.errors, []);
+  assert.deepEqual(result.warnings, []);
+});
+
+test("validateTokenContributionData reports structural errors with JSON pointer paths", () => {
+  const payload = validPayload();
+  (payload.contributions[0] as { date: string }).date = "2026-02-30";
+  (payload.contributions[0].sources[0].tokens as { input: unknown }).input = "10";
+  payload.contributions[0].sources[0].cost = -1;
+
+  const result = validateTokenContributionData(payload, "lenient");
+  assert.equal(result.valid, false);
+  assert.deepEqual(
+    result.errors.map((issue) => issue.path),
+    ["/contributions/0/date", "/contributions/0/sources/0/tokens/input", "/contributions/0/sources/0/cost"]
+  );
+});
+
+test("validateTokenContributionData treats derived mismatches as warnings unless strict", () => {
+  const payload = validPayload();
+  payload.summary.totalTokens = 99;
+  payload.contributions[0].sources.push({ ...payload.contributions[0].sources[0] });
+  payload.contributions[0].totals.tokens = 24;
+  payload.contributions[0].totals.cost = 3;
+  payload.contributions[0].totals.messages = 4;
+  payload.contributions[0].tokenBreakdown = { input: 20, output: 4, cacheRead: 0, cacheWrite: 0, reasoning: 0 };
+
+  const lenient = validateTokenContributionData(payload, "lenient");
+  assert.equal(lenient.valid, true);
+  assert.deepEqual(
+    lenient.warnings.map((issue) => issue.path),
+    ["/contributions/0/sources/1", "/summary/totalTokens", "/summary/totalCost"]
+  );
+
+  const strict = validateTokenContributionData(payload, "strict");
+  assert.equal(strict.valid, false);
+  assert.equal(strict.errors.length, 3);
+});
+
+test("toJsonPointer escapes slash and tilde", () => {
+  assert.equal(toJsonPointer(["models", "anthropic/claude~1"]), "/models/anthropic~1claude~01");
+});
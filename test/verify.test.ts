@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { combinePayloads, type TokenContributionData } from "../src/merge.js";
+import { verifyPayload } from "../src/verify.js";
+
+function consistentPayload(): TokenContributionData {
+  const row = (date: string, input: number, cost: number) => ({
+    date,
+    totals: { tokens: 0, cost: 0, messages: 0 },
+    intensity: 0,
+    tokenBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+    sources: [
+      {
+        source: "codex",
+        modelId: "m1",
+        providerId: "openai",
+        tokens: { input, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0 },
+        cost,
+        messages: 1
+      }
+    ]
+  });
+  const seed: TokenContributionData = {
+    meta: { generatedAt: "2026-02-18T00:00:00.000Z", version: "0.1.0", dateRange: { start: "", end: "" } },
+    summary: {
+      totalTokens: 0,
+      totalCost: 0,
+      totalDays: 0,
+      activeDays: 0,
+      averagePerDay: 0,
+      maxCostInSingleDay: 0,
+      sources: [],
+      models: []
+    },
+    years: [],
+    contributions: [row("2025-12-31", 10, 1), row("2026-01-01", 30, 4)]
+  };
+  return combinePayloads([seed]);
+}
+
+test("verifyPayload accepts payloads produced by combinePayloads", () => {
+  const result = verifyPayload(consistentPayload());
+  assert.equal(result.ok, true);
+  assert.deepEqual(result.mismatches, []);
+});
+
+test("verifyPayload reports mismatched derived fields per day and per field", () => {
+  const payload = consistentPayload();
+  payload.summary.totalTokens = 1;
+  payload.contributions[1].totals.tokens = 99;
+  payload.contributions[1].intensity = 1;
+  payload.years[0].totalCost = 7;
+
+  const result = verifyPayload(payload);
+  assert.equal(result.ok, false);
+  assert.deepEqual(
+    result.mismatches.map((item) => [item.path, item.date, item.field, item.expected, item.actual]),
+    [
+      ["/summary/totalTokens", null, "summary.totalTokens", 40, 1],
+      ["/years/0/totalCost", null, "years.2025.totalCost", 1, 7],
+      ["/contributions/1/totals/tokens", "2026-01-01", "totals.tokens", 30, 99],
+      ["/contributions/1/intensity", "2026-01-01", "intensity", 4, 1]
+    ]
+  );
+
+  const fixed = verifyPayload(result.fixed);
+  assert.equal(fixed.ok, true);
+  assert.equal(result.fixed.meta.generatedAt, payload.meta.generatedAt);
+});
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import {
+  deliverWebhook,
+  dispatchWebhookEvent,
+  parseWebhookConfig,
+  renderWebhookBody,
+  type WebhookEvent
+} from "../src/webhooks.js";
+
+const EVENT: WebhookEvent = {
+  event: "submit.failure",
+  occurredAt: "2026-02-18T02:00:00.000Z",
+  message: "Daily submit failed: boom",
+  data: { error: "boom" }
+};
+
+const FAST = { maxAttempts: 3, retryDelayMs: 1, timeoutMs: 2000 };
+
+/** Starts a local receiver that answers with the given statuses in order, then 200. */
+async function startReceiver(statuses: number[]): Promise<{ url: string; bodies: unknown[]; server: Server }> {
+  const bodies: unknown[] = [];
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      bodies.push(JSON.parse(body));
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/hooks/secret-path`, bodies, server };
+}
+
+test("parseWebhookConfig defaults format and events and rejects bad entries", () => {
+  const config = parseWebhookConfig({ webhooks: [{ url: "https://example.test/a" }, { url: "https://example.test/b", format: "slack", events: ["client.stale"] }] });
+  assert.equal(config.webhooks[0].format, "json");
+  assert.equal(config.webhooks[0].events.length, 4);
+  assert.deepEqual(config.webhooks[1].events, ["client.stale"]);
+  assert.throws(() => parseWebhookConfig({ webhooks: [{ url: "ftp://example.test" }] }));
+  assert.throws(() => parseWebhookConfig({ webhooks: [{ url: "https://example.test", format: "teams" }] }));
+  assert.throws(() => parseWebhookConfig({ webhooks: [{ url: "https://example.test", events: ["submit.maybe"] }] }));
+});
+
+test("renderWebhookBody builds slack, discord and generic bodies", () => {
+  assert.deepEqual(renderWebhookBody("slack", EVENT), { text: "[tk-proxy] Daily submit failed: boom" });
+  assert.deepEqual(renderWebhookBody("discord", EVENT), { content: "[tk-proxy] Daily submit failed: boom" });
+  assert.deepEqual(renderWebhookBody("json", EVENT), EVENT);
+});
+
+test("deliverWebhook retries server errors but not client errors", async () => {
+  const retried = await startReceiver([503, 500]);
+  try {
+    const result = await deliverWebhook({ url: retried.url, format: "json", events: ["submit.failure"] }, EVENT, FAST);
+    assert.equal(result.ok, true);
+    assert.deepEqual(
+      result.attempts.map((item) => item.status),
+      [503, 500, 200]
+    );
+  } finally {
+    retried.server.close();
+  }
+
+  const rejected = await startReceiver([404]);
+  try {
+    const result = await deliverWebhook({ url: rejected.url, format: "json", events: ["submit.failure"] }, EVENT, FAST);
+    assert.equal(result.ok, false);
+    assert.equal(result.attempts.length, 1);
+  } finally {
+    rejected.server.close();
+  }
+});
+
+test("dispatchWebhookEvent only notifies subscribed targets and logs without secrets", async () => {
+  const receiver = await startReceiver([]);
+  const dataDir = await mkdtemp(path.join(tmpdir(), "tk-proxy-webhooks-"));
+  try {
+    const config = parseWebhookConfig({
+      webhooks: [
+        { url: receiver.url, format: "slack", events: ["submit.failure"] },
+        { url: receiver.url, events: ["client.stale"] }
+      ]
+    });
+    await dispatchWebhookEvent(dataDir, config, EVENT, FAST);
+    assert.deepEqual(receiver.bodies, [{ text: "[tk-proxy] Daily submit failed: boom" }]);
+
+    const log = (await readFile(path.join(dataDir, "webhooks.log"), "utf8")).trim().split("\n").map((line) => JSON.parse(line));
+    assert.equal(log.length, 1);
+    assert.equal(log[0].event, "submit.failure");
+    assert.equal(log[0].ok, true);
+    assert.equal(JSON.stringify(log).includes("secret-path"), false);
+  } finally {
+    receiver.server.close();
+    await rm(dataDir, { recursive: true, force: true });
+  }
+});